@@ -0,0 +1,204 @@
+// api/_lib/agents.ts
+import { AGENT_NAME, createAgentDispatch, isAgentIdentity, type RoomService } from './livekit';
+import { logger, type Logger } from './logger';
+
+export const DEFAULT_AGENT_PROFILE = 'default';
+
+// Allowlist of profiles a client may request, mapped to the LiveKit agent name to dispatch.
+// Configure with AGENT_PROFILES='{"savings-advisor":"momo-savings","support":"momo-support"}';
+// "default" always falls back to AGENT_NAME.
+function loadAgentProfiles(): Record<string, string> {
+  let configured: Record<string, unknown> = {};
+  try {
+    configured = JSON.parse(process.env.AGENT_PROFILES || '{}');
+  } catch {
+    logger.error('AGENT_PROFILES is not valid JSON, only the default profile is available');
+  }
+
+  const profiles: Record<string, string> = { [DEFAULT_AGENT_PROFILE]: AGENT_NAME };
+  for (const [profile, agentName] of Object.entries(configured)) {
+    if (typeof agentName === 'string') {
+      profiles[profile] = agentName;
+    }
+  }
+  return profiles;
+}
+
+const AGENT_PROFILES = loadAgentProfiles();
+
+// Agents dispatched next to the primary one, such as a supervisor or a standby to fail over to.
+// Configure with AGENT_EXTRA_DISPATCHES='{"support":["momo-supervisor","momo-support-agent"]}'.
+function loadExtraAgents(): Record<string, string[]> {
+  let configured: Record<string, unknown> = {};
+  try {
+    configured = JSON.parse(process.env.AGENT_EXTRA_DISPATCHES || '{}');
+  } catch {
+    logger.error('AGENT_EXTRA_DISPATCHES is not valid JSON, no extra agents are dispatched');
+  }
+
+  const extras: Record<string, string[]> = {};
+  for (const [profile, agentNames] of Object.entries(configured)) {
+    if (Array.isArray(agentNames) && agentNames.every((name) => typeof name === 'string')) {
+      extras[profile] = agentNames;
+    } else {
+      logger.warn('Ignoring invalid extra agents', { profile });
+    }
+  }
+  return extras;
+}
+
+const EXTRA_AGENTS = loadExtraAgents();
+
+const DISPATCH_ATTEMPTS = 3;
+const DISPATCH_BACKOFF_MS = 300;
+// Stay well inside the function's maxDuration (10s in vercel.json)
+const AGENT_JOIN_TIMEOUT_MS = Number(process.env.AGENT_JOIN_TIMEOUT_MS) || 5000;
+const AGENT_JOIN_POLL_MS = 500;
+
+export interface DispatchMetadata {
+  user_name: string;
+  locale: string;
+  persona: string;
+  entry_page: string | null;
+}
+
+export interface DispatchStatus {
+  // True only once the agent has actually joined the room
+  success: boolean;
+  error: string | null;
+  agentName: string;
+  profile: string;
+  dispatchId: string | null;
+  attempts: number;
+  agentJoined: boolean;
+}
+
+export function resolveAgentProfile(profile: string): string | null {
+  return Object.prototype.hasOwnProperty.call(AGENT_PROFILES, profile) ? AGENT_PROFILES[profile] : null;
+}
+
+// Each one needs its own seat in the room, see roomOptions
+export function resolveExtraAgents(profile: string): string[] {
+  return Object.prototype.hasOwnProperty.call(EXTRA_AGENTS, profile) ? EXTRA_AGENTS[profile] : [];
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Network failures carry no HTTP status; 429 and 5xx from LiveKit are worth retrying, 4xx are not
+function isTransientError(error: unknown) {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status !== 'number' || status === 429 || status >= 500;
+}
+
+async function waitForAgent(roomService: RoomService, roomName: string) {
+  const deadline = Date.now() + AGENT_JOIN_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    const participants = await roomService.listParticipants(roomName);
+    if (participants.some((p) => isAgentIdentity(p.identity))) {
+      return true;
+    }
+    await sleep(AGENT_JOIN_POLL_MS);
+  }
+  return false;
+}
+
+export async function dispatchAgent(
+  roomService: RoomService,
+  roomName: string,
+  profile: string,
+  metadata: DispatchMetadata,
+  log: Logger = logger
+): Promise<DispatchStatus> {
+  const agentName = resolveAgentProfile(profile) ?? AGENT_NAME;
+  const agentDispatch = createAgentDispatch();
+  const status: DispatchStatus = {
+    success: false,
+    error: null,
+    agentName: agentName || '(any available)',
+    profile,
+    dispatchId: null,
+    attempts: 0,
+    agentJoined: false,
+  };
+
+  while (status.attempts < DISPATCH_ATTEMPTS) {
+    status.attempts++;
+    try {
+      log.debug('Dispatching agent', {
+        roomName,
+        profile,
+        agentName: agentName || '(empty - will pick any available agent)',
+        attempt: status.attempts,
+      });
+      const dispatchResult = await agentDispatch.createDispatch(roomName, agentName, {
+        metadata: JSON.stringify(metadata),
+      });
+      status.dispatchId = dispatchResult.id;
+      status.error = null;
+      log.info('Agent dispatched', {
+        roomName,
+        dispatchId: dispatchResult.id,
+        dispatchAgentName: dispatchResult.agentName,
+      });
+      break;
+    } catch (dispatchError: unknown) {
+      const errorMessage = dispatchError instanceof Error ? dispatchError.message : String(dispatchError);
+      const transient = isTransientError(dispatchError);
+      log.error('Agent dispatch failed', {
+        error: errorMessage,
+        status: (dispatchError as { status?: number })?.status,
+        transient,
+        attempt: status.attempts,
+        roomName,
+        agentName,
+      });
+      status.error = errorMessage;
+
+      if (!transient || status.attempts >= DISPATCH_ATTEMPTS) {
+        return status;
+      }
+      await sleep(DISPATCH_BACKOFF_MS * 2 ** (status.attempts - 1));
+    }
+  }
+
+  try {
+    status.agentJoined = await waitForAgent(roomService, roomName);
+  } catch (error) {
+    log.error('Failed to check agent presence', { roomName, error });
+  }
+
+  if (status.agentJoined) {
+    status.success = true;
+  } else {
+    // The dispatch may still be picked up later; the client keeps waiting on its side
+    status.error = `Agent did not join within ${AGENT_JOIN_TIMEOUT_MS}ms`;
+    log.warn('Agent dispatched but not joined yet', { roomName, dispatchId: status.dispatchId });
+  }
+  return status;
+}
+
+// One attempt each and no waiting for them to join: the call goes ahead with the primary agent alone.
+// Returns the dispatch ids that were accepted.
+export async function dispatchExtraAgents(
+  roomName: string,
+  agentNames: string[],
+  metadata: DispatchMetadata,
+  log: Logger = logger
+): Promise<string[]> {
+  if (agentNames.length === 0) return [];
+
+  const agentDispatch = createAgentDispatch();
+  const results = await Promise.all(agentNames.map(async (agentName) => {
+    try {
+      const dispatchResult = await agentDispatch.createDispatch(roomName, agentName, {
+        metadata: JSON.stringify(metadata),
+      });
+      log.info('Extra agent dispatched', { roomName, agentName, dispatchId: dispatchResult.id });
+      return dispatchResult.id;
+    } catch (error) {
+      log.warn('Extra agent dispatch failed', { roomName, agentName, error });
+      return null;
+    }
+  }));
+  return results.filter((id): id is string => id !== null);
+}
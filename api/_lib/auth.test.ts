@@ -0,0 +1,140 @@
+import { describe, expect, it, vi } from 'vitest';
+import { authenticateCreateCaller, authenticateRoomCaller, isInternalCaller, setAnonymousChallengeVerifier } from './auth';
+import { apiRequest, bearer, joinToken, sessionToken } from '../_tests/helpers';
+
+vi.hoisted(() => {
+  process.env.LIVEKIT_API_KEY = 'test-key';
+  process.env.LIVEKIT_API_SECRET = 'test-secret-test-secret-test-secret';
+  process.env.AGENT_API_KEY = 'agent-key';
+  process.env.CRON_SECRET = 'cron-secret';
+  process.env.HOST_SESSION_SECRET = 'host-secret';
+  process.env.CREATE_API_KEYS = 'key-one, key-two';
+});
+
+const inAnHour = () => Math.floor(Date.now() / 1000) + 3600;
+
+describe('authenticateCreateCaller', () => {
+  describe('host-app sessions', () => {
+    it('accepts a valid HS256 session and reads its claims', async () => {
+      const token = sessionToken({ sub: 'user-1', name: 'Lan', plan: 'gold', exp: inAnHour() }, 'host-secret');
+
+      expect(await authenticateCreateCaller(apiRequest({ headers: bearer(token) })))
+        .toEqual({ kind: 'session', userId: 'user-1', name: 'Lan', plan: 'gold' });
+    });
+
+    it('rejects a session signed with another secret', async () => {
+      const token = sessionToken({ sub: 'user-1', exp: inAnHour() }, 'other-secret');
+
+      expect(await authenticateCreateCaller(apiRequest({ headers: bearer(token) }))).toBeNull();
+    });
+
+    it('rejects a tampered payload', async () => {
+      const [header, , signature] = sessionToken({ sub: 'user-1', exp: inAnHour() }, 'host-secret').split('.');
+      const payload = Buffer.from(JSON.stringify({ sub: 'admin', exp: inAnHour() })).toString('base64url');
+
+      expect(await authenticateCreateCaller(apiRequest({ headers: bearer(`${header}.${payload}.${signature}`) }))).toBeNull();
+    });
+
+    it('rejects expired sessions and sessions without exp or sub', async () => {
+      const expired = sessionToken({ sub: 'user-1', exp: Math.floor(Date.now() / 1000) - 1 }, 'host-secret');
+      const noExp = sessionToken({ sub: 'user-1' }, 'host-secret');
+      const noSub = sessionToken({ exp: inAnHour() }, 'host-secret');
+
+      for (const token of [expired, noExp, noSub]) {
+        expect(await authenticateCreateCaller(apiRequest({ headers: bearer(token) }))).toBeNull();
+      }
+    });
+
+    it('rejects any algorithm other than HS256', async () => {
+      const claims = { sub: 'user-1', exp: inAnHour() };
+      const none = sessionToken(claims, 'host-secret', { alg: 'none' });
+      const hs512 = sessionToken(claims, 'host-secret', { alg: 'HS512' });
+
+      expect(await authenticateCreateCaller(apiRequest({ headers: bearer(none) }))).toBeNull();
+      expect(await authenticateCreateCaller(apiRequest({ headers: bearer(hs512) }))).toBeNull();
+    });
+
+    it('rejects a non-bearer authorization instead of treating it as anonymous', async () => {
+      setAnonymousChallengeVerifier(async () => true);
+
+      expect(await authenticateCreateCaller(apiRequest({ headers: { authorization: 'Basic dXNlcjpwYXNz' } }))).toBeNull();
+    });
+  });
+
+  describe('API keys', () => {
+    it('accepts a configured key and identifies it by fingerprint only', async () => {
+      const caller = await authenticateCreateCaller(apiRequest({ headers: { 'x-api-key': 'key-two' } }));
+
+      expect(caller).toEqual({ kind: 'api_key', keyId: expect.stringMatching(/^[0-9a-f]{12}$/) });
+      expect(JSON.stringify(caller)).not.toContain('key-two');
+    });
+
+    it('rejects an unknown key', async () => {
+      setAnonymousChallengeVerifier(async () => true);
+
+      expect(await authenticateCreateCaller(apiRequest({ headers: { 'x-api-key': 'key-three' } }))).toBeNull();
+    });
+  });
+
+  // Runs in order: the verifier can be set but not unset
+  describe('anonymous challenge', () => {
+    it('turns anonymous callers away while no verifier is set', async () => {
+      vi.resetModules();
+      const fresh = await import('./auth');
+
+      expect(await fresh.authenticateCreateCaller(apiRequest())).toBeNull();
+    });
+
+    it('passes the challenge token to the verifier', async () => {
+      const verifier = vi.fn(async (token: string | undefined) => token === 'solved');
+      setAnonymousChallengeVerifier(verifier);
+
+      expect(await authenticateCreateCaller(apiRequest({ headers: { 'x-challenge-token': 'solved' } }))).toEqual({ kind: 'anonymous' });
+      expect(await authenticateCreateCaller(apiRequest({ headers: { 'x-challenge-token': 'guessed' } }))).toBeNull();
+      expect(await authenticateCreateCaller(apiRequest())).toBeNull();
+      expect(verifier).toHaveBeenCalledTimes(3);
+    });
+
+    it('fails closed when the verifier throws', async () => {
+      setAnonymousChallengeVerifier(async () => {
+        throw new Error('captcha service down');
+      });
+
+      expect(await authenticateCreateCaller(apiRequest({ headers: { 'x-challenge-token': 'solved' } }))).toBeNull();
+    });
+  });
+});
+
+describe('authenticateRoomCaller', () => {
+  it('accepts the agent key and rejects a wrong one without trying the token', async () => {
+    const token = await joinToken('momo-room-1', 'user-1');
+
+    expect(await authenticateRoomCaller(apiRequest({ headers: { 'x-agent-key': 'agent-key' } }), 'momo-room-1')).toEqual({ kind: 'agent' });
+    expect(await authenticateRoomCaller(apiRequest({ headers: { 'x-agent-key': 'nope', ...bearer(token) } }), 'momo-room-1')).toBeNull();
+  });
+
+  it('accepts a join token for the same room only', async () => {
+    const token = await joinToken('momo-room-1', 'user-1');
+
+    expect(await authenticateRoomCaller(apiRequest({ headers: bearer(token) }), 'momo-room-1'))
+      .toEqual({ kind: 'participant', identity: 'user-1', name: 'user-1' });
+    expect(await authenticateRoomCaller(apiRequest({ headers: bearer(token) }), 'momo-room-2')).toBeNull();
+  });
+
+  it('accepts a token that expired within the grace period only', async () => {
+    const recent = await joinToken('momo-room-1', 'user-1', '-1h');
+    const old = await joinToken('momo-room-1', 'user-1', '-3h');
+
+    expect(await authenticateRoomCaller(apiRequest({ headers: bearer(recent) }), 'momo-room-1')).not.toBeNull();
+    expect(await authenticateRoomCaller(apiRequest({ headers: bearer(old) }), 'momo-room-1')).toBeNull();
+  });
+});
+
+describe('isInternalCaller', () => {
+  it('accepts the agent key or the cron secret', () => {
+    expect(isInternalCaller(apiRequest({ headers: { 'x-agent-key': 'agent-key' } }))).toBe(true);
+    expect(isInternalCaller(apiRequest({ headers: bearer('cron-secret') }))).toBe(true);
+    expect(isInternalCaller(apiRequest({ headers: bearer('cron-secret-2') }))).toBe(false);
+    expect(isInternalCaller(apiRequest())).toBe(false);
+  });
+});
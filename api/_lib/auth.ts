@@ -0,0 +1,158 @@
+// api/_lib/auth.ts
+import { createHmac, createHash, timingSafeEqual } from 'node:crypto';
+import { TokenVerifier } from 'livekit-server-sdk';
+import { headerValue, type ApiRequest } from './http';
+import { LIVEKIT_API_KEY, LIVEKIT_API_SECRET } from './livekit';
+import { logger } from './logger';
+
+// Shared secret for agents and internal tools (e.g. QA) - leave empty to disable key auth
+const AGENT_API_KEY = process.env.AGENT_API_KEY || '';
+// Room-scoped APIs still accept a participant's join token this long after it expires, so transcripts can be
+// uploaded at the end of a call that outlived PARTICIPANT_TOKEN_TTL
+const ROOM_API_TOKEN_GRACE = process.env.ROOM_API_TOKEN_GRACE || '2h';
+// HS256 secret the host app signs its session JWTs with (sub = user id, name = display name)
+const HOST_SESSION_SECRET = process.env.HOST_SESSION_SECRET || '';
+// Comma-separated keys for server-to-server callers of /api/rooms/create
+const CREATE_API_KEYS = (process.env.CREATE_API_KEYS || '').split(',').map((key) => key.trim()).filter(Boolean);
+// Vercel Cron sends Authorization: Bearer $CRON_SECRET to scheduled endpoints
+const CRON_SECRET = process.env.CRON_SECRET || '';
+// Which kinds of caller may create rooms: any of session, api_key, anonymous
+const CREATE_AUTH_MODES = new Set(
+  (process.env.CREATE_AUTH_MODES || 'session,api_key,anonymous').split(',').map((mode) => mode.trim())
+);
+
+export type RoomCaller =
+  | { kind: 'participant'; identity: string; name: string }
+  | { kind: 'agent' };
+
+export type CreateCaller =
+  | { kind: 'session'; userId: string; name: string | null; plan: string | null }
+  // keyId is a short fingerprint, safe to log and to use as a rate limit key
+  | { kind: 'api_key'; keyId: string }
+  | { kind: 'anonymous' };
+
+// Gate for anonymous callers, e.g. a captcha or proof-of-work check. Receives the X-Challenge-Token header.
+export type AnonymousChallengeVerifier = (token: string | undefined, req: ApiRequest) => Promise<boolean>;
+
+// Anonymous callers are turned away until a verifier is set, unless ANONYMOUS_CHALLENGE=off lets them in
+// with only the rate limits in their way (local development; the Vite dev server sets it)
+const ANONYMOUS_CHALLENGE_OFF = process.env.ANONYMOUS_CHALLENGE === 'off';
+let anonymousChallengeVerifier: AnonymousChallengeVerifier | null = null;
+
+export function setAnonymousChallengeVerifier(verifier: AnonymousChallengeVerifier) {
+  anonymousChallengeVerifier = verifier;
+}
+
+function safeEqual(expected: string, actual: string) {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(actual);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+function matchesAgentKey(key: string) {
+  return !!AGENT_API_KEY && safeEqual(AGENT_API_KEY, key);
+}
+
+// First hop of X-Forwarded-For (set by Vercel), falling back to the socket address
+export function clientAddress(req: ApiRequest) {
+  const forwarded = headerValue(req, 'x-forwarded-for');
+  return forwarded?.split(',')[0].trim() || req.socket?.remoteAddress || 'unknown';
+}
+
+function decodeJwtPart(part: string): Record<string, unknown> | null {
+  try {
+    const value = JSON.parse(Buffer.from(part, 'base64url').toString('utf8'));
+    return value && typeof value === 'object' ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+// Minimal HS256 verification for host-app session tokens; exp is required so leaked tokens age out
+function verifySessionToken(token: string): { sub: string; name: string | null; plan: string | null } | null {
+  if (!HOST_SESSION_SECRET) return null;
+
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) return null;
+  if (decodeJwtPart(header)?.alg !== 'HS256') return null;
+
+  const expected = createHmac('sha256', HOST_SESSION_SECRET).update(`${header}.${payload}`).digest('base64url');
+  if (!safeEqual(expected, signature)) return null;
+
+  const claims = decodeJwtPart(payload);
+  if (!claims || typeof claims.sub !== 'string' || !claims.sub) return null;
+  if (typeof claims.exp !== 'number' || claims.exp * 1000 <= Date.now()) return null;
+
+  return {
+    sub: claims.sub,
+    name: typeof claims.name === 'string' ? claims.name : null,
+    plan: typeof claims.plan === 'string' ? claims.plan : null,
+  };
+}
+
+// Host-app sessions send Authorization: Bearer <jwt>, server-to-server callers send X-Api-Key,
+// everyone else is anonymous and has to pass the challenge hook. A credential that is present but
+// invalid never falls back to anonymous. Returns null when the caller is not allowed in.
+export async function authenticateCreateCaller(req: ApiRequest): Promise<CreateCaller | null> {
+  const authorization = headerValue(req, 'authorization');
+  if (authorization) {
+    if (!CREATE_AUTH_MODES.has('session') || !authorization.startsWith('Bearer ')) return null;
+    const session = verifySessionToken(authorization.slice('Bearer '.length));
+    return session ? { kind: 'session', userId: session.sub, name: session.name, plan: session.plan } : null;
+  }
+
+  const apiKey = headerValue(req, 'x-api-key');
+  if (apiKey) {
+    if (!CREATE_AUTH_MODES.has('api_key') || !CREATE_API_KEYS.some((key) => safeEqual(key, apiKey))) return null;
+    return { kind: 'api_key', keyId: createHash('sha256').update(apiKey).digest('hex').slice(0, 12) };
+  }
+
+  if (!CREATE_AUTH_MODES.has('anonymous')) return null;
+  if (!anonymousChallengeVerifier) {
+    if (ANONYMOUS_CHALLENGE_OFF) return { kind: 'anonymous' };
+    logger.error('Anonymous caller rejected, no challenge verifier is set (setAnonymousChallengeVerifier or ANONYMOUS_CHALLENGE=off)');
+    return null;
+  }
+  try {
+    return await anonymousChallengeVerifier(headerValue(req, 'x-challenge-token'), req) ? { kind: 'anonymous' } : null;
+  } catch (error) {
+    logger.error('Anonymous challenge verification failed', { error });
+    return null;
+  }
+}
+
+// Agents/internal tools send X-Agent-Key; participants send the LiveKit JWT issued for this room.
+// Returns null when neither is valid.
+export async function authenticateRoomCaller(req: ApiRequest, roomName: string): Promise<RoomCaller | null> {
+  const agentKey = headerValue(req, 'x-agent-key');
+  if (agentKey) {
+    return matchesAgentKey(agentKey) ? { kind: 'agent' } : null;
+  }
+
+  const authorization = headerValue(req, 'authorization');
+  if (!authorization?.startsWith('Bearer ')) {
+    return null;
+  }
+
+  try {
+    const verifier = new TokenVerifier(LIVEKIT_API_KEY, LIVEKIT_API_SECRET);
+    const claims = await verifier.verify(authorization.slice('Bearer '.length), ROOM_API_TOKEN_GRACE);
+
+    if (!claims.sub || claims.video?.room !== roomName || !claims.video.roomJoin) {
+      return null;
+    }
+    return { kind: 'participant', identity: claims.sub, name: claims.name ?? claims.sub };
+  } catch {
+    // Expired, malformed or signed with another secret
+    return null;
+  }
+}
+
+// Scheduled jobs and internal tools: Vercel Cron's bearer secret or X-Agent-Key
+export function isInternalCaller(req: ApiRequest) {
+  const agentKey = headerValue(req, 'x-agent-key');
+  if (agentKey) return matchesAgentKey(agentKey);
+
+  const authorization = headerValue(req, 'authorization');
+  return !!CRON_SECRET && !!authorization && safeEqual(`Bearer ${CRON_SECRET}`, authorization);
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it, vi } from 'vitest';
+import { handleCors } from './cors';
+import type { ApiRequest, ApiResponse } from './http';
+
+vi.hoisted(() => {
+  process.env.EMBED_ALLOWED_ORIGINS = 'https://shop.example.com, https://app.example.com';
+});
+
+function call(method: string, origin?: string) {
+  const headers: Record<string, string> = {};
+  let statusCode = 0;
+  let ended = false;
+  const res: ApiResponse = {
+    status(code) {
+      statusCode = code;
+      return res;
+    },
+    json() {
+      return res;
+    },
+    setHeader(name, value) {
+      headers[name] = value;
+      return res;
+    },
+    end() {
+      ended = true;
+      return res;
+    },
+  };
+  const req: ApiRequest = { method, headers: origin ? { origin } : {}, query: {}, body: undefined };
+  const handled = handleCors(req, res, 'POST');
+  return { handled, headers, statusCode, ended };
+}
+
+describe('handleCors', () => {
+  it('answers preflights from allowed origins', () => {
+    const result = call('OPTIONS', 'https://app.example.com');
+
+    expect(result.handled).toBe(true);
+    expect(result.statusCode).toBe(204);
+    expect(result.ended).toBe(true);
+    expect(result.headers['Access-Control-Allow-Origin']).toBe('https://app.example.com');
+    expect(result.headers['Access-Control-Allow-Headers']).toContain('Authorization');
+  });
+
+  it('lets actual requests from allowed origins through with the CORS header', () => {
+    const result = call('POST', 'https://shop.example.com');
+
+    expect(result.handled).toBe(false);
+    expect(result.headers['Access-Control-Allow-Origin']).toBe('https://shop.example.com');
+  });
+
+  it('adds nothing for other or missing origins', () => {
+    expect(call('OPTIONS', 'https://evil.example.com')).toMatchObject({ handled: false, headers: {} });
+    expect(call('POST')).toMatchObject({ handled: false, headers: {} });
+  });
+});
@@ -0,0 +1,34 @@
+// api/_lib/cors.ts
+import { headerValue, type ApiRequest, type ApiResponse } from './http';
+
+// Host pages allowed to call the API from the script widget (comma separated origins). The iframe widget
+// is served from this deployment and needs no entry here.
+const EMBED_ALLOWED_ORIGINS = new Set(
+  (process.env.EMBED_ALLOWED_ORIGINS || '').split(',').map((origin) => origin.trim()).filter(Boolean)
+);
+
+const ALLOWED_HEADERS = 'Content-Type, Authorization, X-Challenge-Token, X-Request-Id';
+// Readable by the widget so its error reports can quote the server's request id
+const EXPOSED_HEADERS = 'X-Request-Id, Retry-After';
+
+// Adds CORS headers for allowlisted origins. Returns true when the request was a preflight that has
+// already been answered, so the handler must stop.
+export function handleCors(req: ApiRequest, res: ApiResponse, methods: string) {
+  const origin = headerValue(req, 'origin');
+  if (!origin || !EMBED_ALLOWED_ORIGINS.has(origin)) {
+    return false;
+  }
+
+  res.setHeader('Access-Control-Allow-Origin', origin);
+  res.setHeader('Vary', 'Origin');
+  res.setHeader('Access-Control-Expose-Headers', EXPOSED_HEADERS);
+
+  if (req.method !== 'OPTIONS') {
+    return false;
+  }
+  res.setHeader('Access-Control-Allow-Methods', methods);
+  res.setHeader('Access-Control-Allow-Headers', ALLOWED_HEADERS);
+  res.setHeader('Access-Control-Max-Age', '600');
+  res.status(204).end();
+  return true;
+}
@@ -0,0 +1,49 @@
+import { Readable } from 'node:stream';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { describe, expect, it } from 'vitest';
+import { handleApiRequest } from './devServer';
+
+function nodeRequest(url: string, body = '', headers: Record<string, string> = {}) {
+  return Object.assign(Readable.from(body ? [Buffer.from(body)] : []), { url, method: 'POST', headers }) as unknown as IncomingMessage;
+}
+
+function nodeResponse() {
+  const recorded = { statusCode: 0, headers: {} as Record<string, string>, body: '' };
+  const res = {
+    set statusCode(code: number) {
+      recorded.statusCode = code;
+    },
+    setHeader(name: string, value: string) {
+      recorded.headers[name] = value;
+    },
+    end(chunk?: string) {
+      recorded.body = chunk ?? '';
+    },
+  };
+  return { res: res as unknown as ServerResponse, recorded };
+}
+
+describe('handleApiRequest', () => {
+  it('falls through for paths that are not API routes', async () => {
+    const { res } = nodeResponse();
+
+    expect(await handleApiRequest(nodeRequest('/index.html'), res)).toBe(false);
+  });
+
+  it('answers 400 to a malformed escape in a route parameter', async () => {
+    const { res, recorded } = nodeResponse();
+
+    expect(await handleApiRequest(nodeRequest('/api/rooms/%E0'), res)).toBe(true);
+    expect(recorded.statusCode).toBe(400);
+    expect(JSON.parse(recorded.body)).toMatchObject({ code: 'INVALID_REQUEST' });
+  });
+
+  it('answers 400 to an invalid JSON body', async () => {
+    const { res, recorded } = nodeResponse();
+
+    await handleApiRequest(nodeRequest('/api/rooms/create', '{', { 'content-type': 'application/json' }), res);
+
+    expect(recorded.statusCode).toBe(400);
+    expect(JSON.parse(recorded.body)).toMatchObject({ code: 'INVALID_REQUEST' });
+  });
+});
@@ -0,0 +1,83 @@
+// api/_lib/devServer.ts
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { ApiHandler, ApiRequest, ApiResponse } from './http';
+
+// Mirrors Vercel's file-based routing for api/ - static routes first, then [param] routes
+const ROUTES: { pattern: RegExp; param?: string; load: () => Promise<{ default: ApiHandler }> }[] = [
+  { pattern: /^\/api\/rooms\/?$/, load: () => import('../rooms/index') },
+  { pattern: /^\/api\/rooms\/create$/, load: () => import('../rooms/create') },
+  { pattern: /^\/api\/rooms\/rejoin$/, load: () => import('../rooms/rejoin') },
+  { pattern: /^\/api\/rooms\/dispatch$/, load: () => import('../rooms/dispatch') },
+  { pattern: /^\/api\/rooms\/observe$/, load: () => import('../rooms/observe') },
+  { pattern: /^\/api\/rooms\/expire$/, load: () => import('../rooms/expire') },
+  { pattern: /^\/api\/telemetry\/?$/, load: () => import('../telemetry/index') },
+  { pattern: /^\/api\/rooms\/([^/]+)$/, param: 'name', load: () => import('../rooms/[name]') },
+  { pattern: /^\/api\/transcripts\/([^/]+)$/, param: 'room', load: () => import('../transcripts/[room]') },
+];
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  const raw = Buffer.concat(chunks).toString('utf8');
+  if (!raw || !req.headers['content-type']?.includes('application/json')) {
+    return raw || undefined;
+  }
+  return JSON.parse(raw);
+}
+
+function toApiResponse(res: ServerResponse): ApiResponse {
+  const response: ApiResponse = {
+    status(code) {
+      res.statusCode = code;
+      return response;
+    },
+    json(body) {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify(body));
+      return response;
+    },
+    setHeader(name, value) {
+      res.setHeader(name, value);
+      return response;
+    },
+    end() {
+      res.end();
+      return response;
+    },
+  };
+  return response;
+}
+
+// Serves /api/* from a plain Node request (Vite dev server middleware, or any http.createServer).
+// Returns false when the path is not an API route so the caller can fall through.
+export async function handleApiRequest(req: IncomingMessage, res: ServerResponse): Promise<boolean> {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const route = ROUTES.find((candidate) => candidate.pattern.test(url.pathname));
+  if (!route) return false;
+
+  const response = toApiResponse(res);
+  const query: ApiRequest['query'] = Object.fromEntries(url.searchParams);
+  if (route.param) {
+    try {
+      query[route.param] = decodeURIComponent(url.pathname.match(route.pattern)![1]);
+    } catch {
+      // Malformed escape such as %E0
+      response.status(400).json({ error: 'Invalid path', code: 'INVALID_REQUEST' });
+      return true;
+    }
+  }
+
+  let body: unknown;
+  try {
+    body = await readJsonBody(req);
+  } catch {
+    response.status(400).json({ error: 'Invalid JSON body', code: 'INVALID_REQUEST' });
+    return true;
+  }
+
+  const { default: handler } = await route.load();
+  await handler({ method: req.method, headers: req.headers, query, body, socket: req.socket }, response);
+  return true;
+}
@@ -0,0 +1,36 @@
+// api/_lib/errors.ts
+import type { ApiResponse } from './http';
+
+// Stable error codes returned as `code` next to the human-readable `error`.
+// Clients switch on these, so never rename one - add a new code instead.
+export type ErrorCode =
+  | 'INVALID_REQUEST'
+  | 'METHOD_NOT_ALLOWED'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'RATE_LIMITED'
+  | 'SESSION_LIMIT'
+  | 'LIVEKIT_UNAVAILABLE'
+  | 'DISPATCH_FAILED'
+  | 'INTERNAL_ERROR';
+
+export function sendError(
+  res: ApiResponse,
+  status: number,
+  code: ErrorCode,
+  message: string,
+  extra: Record<string, unknown> = {}
+) {
+  return res.status(status).json({ error: message, code, ...extra });
+}
+
+// 429 with Retry-After, for callers over a rate limit
+export function sendRateLimited(res: ApiResponse, retryAfter: number) {
+  res.setHeader('Retry-After', String(retryAfter));
+  return sendError(res, 429, 'RATE_LIMITED', 'Too many requests', { retry_after: retryAfter });
+}
+
+export function errorDetails(error: unknown) {
+  return { details: error instanceof Error ? error.message : 'Unknown error' };
+}
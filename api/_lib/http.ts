@@ -0,0 +1,28 @@
+// api/_lib/http.ts
+
+// The subset of VercelRequest / VercelResponse the handlers use. Typing handlers against these instead of
+// @vercel/node lets the same code run under Vercel and under the local dev server (api/_lib/devServer.ts).
+export interface ApiRequest {
+  method?: string;
+  headers: Record<string, string | string[] | undefined>;
+  query: Record<string, string | string[] | undefined>;
+  // Parsed JSON body, like Vercel provides it; whatever the client sent, so handlers validate it first
+  body: unknown;
+  socket?: { remoteAddress?: string };
+}
+
+export interface ApiResponse {
+  status(code: number): ApiResponse;
+  json(body: unknown): ApiResponse;
+  setHeader(name: string, value: string): unknown;
+  // Sends an empty body (e.g. a 204 answer to a CORS preflight)
+  end(): unknown;
+}
+
+export type ApiHandler = (req: ApiRequest, res: ApiResponse) => Promise<unknown>;
+
+// Node lower-cases header names; repeated headers arrive as arrays
+export function headerValue(req: ApiRequest, name: string) {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it, vi } from 'vitest';
+import { TokenVerifier } from 'livekit-server-sdk';
+import { createParticipantToken } from './livekit';
+
+vi.hoisted(() => {
+  process.env.LIVEKIT_API_KEY = 'test-key';
+  process.env.LIVEKIT_API_SECRET = 'test-secret-test-secret-test-secret';
+  process.env.LIVEKIT_URL = 'https://example.livekit.cloud';
+});
+
+const decode = (jwt: string) => new TokenVerifier('test-key', 'test-secret-test-secret-test-secret').verify(jwt);
+
+describe('createParticipantToken', () => {
+  it('only lets participants publish their microphone', async () => {
+    const claims = await decode(await createParticipantToken('momo-room-1', 'user-1', 'Lan'));
+
+    expect(claims.sub).toBe('user-1');
+    expect(claims.name).toBe('Lan');
+    expect(claims.video).toMatchObject({
+      room: 'momo-room-1',
+      roomJoin: true,
+      canPublish: true,
+      canPublishSources: ['microphone'],
+      canPublishData: false,
+      canSubscribe: true,
+    });
+  });
+
+  it('grants data publishing only with text chat', async () => {
+    const claims = await decode(await createParticipantToken('momo-room-1', 'user-1', 'Lan', { textChat: true }));
+
+    expect(claims.video?.canPublishData).toBe(true);
+    expect(claims.video?.canPublishSources).toEqual(['microphone']);
+  });
+
+  it('expires join tokens after the short default TTL', async () => {
+    // Not every SDK version sets nbf or iat, so measure from a fixed clock
+    vi.useFakeTimers({ now: new Date('2026-01-25T09:00:00Z'), toFake: ['Date'] });
+    try {
+      const claims = await decode(await createParticipantToken('momo-room-1', 'user-1', 'Lan'));
+
+      expect(claims.exp).toBe(Date.parse('2026-01-25T09:10:00Z') / 1000);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('embeds participant attributes and metadata', async () => {
+    const claims = await decode(await createParticipantToken('momo-room-1', 'user-1', 'Lan', {
+      attributes: { locale: 'vi-VN', plan: 'gold', entry_page: '/savings' },
+      metadata: '{"source":"test"}',
+    }));
+
+    expect(claims.attributes).toEqual({ locale: 'vi-VN', plan: 'gold', entry_page: '/savings' });
+    expect(claims.metadata).toBe('{"source":"test"}');
+  });
+
+  it('issues hidden listen-only tokens for observers', async () => {
+    const claims = await decode(await createParticipantToken('momo-room-1', 'observer-1', 'QA', {
+      profile: 'observer',
+      textChat: true,
+    }));
+
+    expect(claims.video).toMatchObject({
+      room: 'momo-room-1',
+      roomJoin: true,
+      canPublish: false,
+      canPublishData: false,
+      canSubscribe: true,
+      hidden: true,
+    });
+    expect(claims.video?.canPublishSources).toBeUndefined();
+  });
+});
@@ -0,0 +1,172 @@
+// api/_lib/livekit.ts
+import { AccessToken, RoomServiceClient, AgentDispatchClient, TrackSource } from 'livekit-server-sdk';
+import type { Room, ParticipantInfo } from 'livekit-server-sdk';
+import type { DispatchMetadata } from './agents';
+import type { SessionPolicy } from './roomPolicy';
+import { MockAgentDispatch, MockRoomService } from './mockLivekit';
+
+// LIVEKIT_MOCK=1 swaps the LiveKit clients for in-memory fakes (see mockLivekit.ts) for offline development
+export const LIVEKIT_MOCK = process.env.LIVEKIT_MOCK === '1' || process.env.LIVEKIT_MOCK === 'true';
+// Mock mode falls back to the credentials of `livekit-server --dev`
+export const LIVEKIT_API_KEY = process.env.LIVEKIT_API_KEY || (LIVEKIT_MOCK ? 'devkey' : '');
+export const LIVEKIT_API_SECRET = process.env.LIVEKIT_API_SECRET || (LIVEKIT_MOCK ? 'secret' : '');
+export const LIVEKIT_URL = process.env.LIVEKIT_URL || (LIVEKIT_MOCK ? 'ws://localhost:7880' : '');
+// Agent name - leave empty ("") to dispatch to any available agent
+export const AGENT_NAME = process.env.AGENT_NAME || '';
+
+// Every room created by this API uses this prefix, so listing can ignore other rooms on the project
+export const ROOM_PREFIX = 'momo-room-';
+export const AGENT_IDENTITY_PREFIX = 'agent-';
+export const OBSERVER_IDENTITY_PREFIX = 'observer-';
+
+// Join tokens only need to outlive the time it takes to connect; LiveKit keeps an established
+// session alive past the token's expiry
+export const PARTICIPANT_TOKEN_TTL = process.env.PARTICIPANT_TOKEN_TTL || '10m';
+
+export interface RoomMetadata {
+  owner_id: string;
+  // What the room counts against for MAX_ACTIVE_ROOMS_PER_USER, user:<id> or ip:<hash> for anonymous callers
+  // (absent on older rooms: the owner)
+  quota_key?: string;
+  // Kept so a re-dispatch sends the same agent and context as the original one (absent on older rooms)
+  agent_profile?: string;
+  dispatch?: DispatchMetadata;
+  // Grants to reissue on rejoin (absent on older rooms)
+  text_chat?: boolean;
+  attributes?: Record<string, string>;
+  // Duration limit and observer rule of the room's policy (absent on older rooms: no limit)
+  session?: SessionPolicy;
+}
+
+// participant: the end user talking to the agent - microphone only, data only with text chat.
+// observer: a supervisor listening in on a live room - subscribe only and hidden from the others.
+export type GrantProfile = 'participant' | 'observer';
+
+export interface ParticipantTokenOptions {
+  profile?: GrantProfile;
+  // Allows publishing on the data channel (text chat); ignored for observers
+  textChat?: boolean;
+  // Exposed to the agent as participant attributes, e.g. locale, plan, entry_page
+  attributes?: Record<string, string>;
+  metadata?: string;
+}
+
+export interface ParticipantSummary {
+  identity: string;
+  name: string;
+  is_agent: boolean;
+  joined_at: string | null;
+}
+
+export interface RoomSummary {
+  room_name: string;
+  sid: string;
+  created_at: string | null;
+  age_seconds: number | null;
+  num_participants: number;
+  agent_present: boolean;
+  participants: ParticipantSummary[];
+}
+
+// The parts of the LiveKit clients this API uses, so the mock clients can stand in for them
+export type RoomService = Pick<
+  RoomServiceClient,
+  'createRoom' | 'listRooms' | 'listParticipants' | 'deleteRoom' | 'updateRoomMetadata' | 'sendData'
+>;
+export type AgentDispatchService = Pick<AgentDispatchClient, 'createDispatch'>;
+
+export function createRoomService(): RoomService {
+  if (LIVEKIT_MOCK) return new MockRoomService();
+  return new RoomServiceClient(LIVEKIT_URL, LIVEKIT_API_KEY, LIVEKIT_API_SECRET);
+}
+
+export function createAgentDispatch(): AgentDispatchService {
+  if (LIVEKIT_MOCK) return new MockAgentDispatch();
+  const wsUrl = LIVEKIT_URL.replace('https://', 'wss://').replace('http://', 'ws://');
+  return new AgentDispatchClient(wsUrl, LIVEKIT_API_KEY, LIVEKIT_API_SECRET);
+}
+
+export async function createParticipantToken(
+  roomName: string,
+  identity: string,
+  name: string,
+  options: ParticipantTokenOptions = {}
+) {
+  const token = new AccessToken(LIVEKIT_API_KEY, LIVEKIT_API_SECRET, {
+    identity,
+    name,
+    ttl: PARTICIPANT_TOKEN_TTL,
+    attributes: options.attributes,
+    metadata: options.metadata,
+  });
+
+  if (options.profile === 'observer') {
+    token.addGrant({
+      room: roomName,
+      roomJoin: true,
+      canPublish: false,
+      canPublishData: false,
+      canSubscribe: true,
+      hidden: true,
+    });
+  } else {
+    token.addGrant({
+      room: roomName,
+      roomJoin: true,
+      canPublish: true,
+      // No camera or screen share in an agent call
+      canPublishSources: [TrackSource.MICROPHONE],
+      canPublishData: options.textChat ?? false,
+      canSubscribe: true,
+    });
+  }
+
+  return token.toJwt();
+}
+
+export function serializeRoomMetadata(metadata: RoomMetadata) {
+  return JSON.stringify(metadata);
+}
+
+export function parseRoomMetadata(room: Room): RoomMetadata | null {
+  try {
+    const metadata = JSON.parse(room.metadata || '{}');
+    return typeof metadata.owner_id === 'string' ? metadata : null;
+  } catch {
+    return null;
+  }
+}
+
+export function isManagedRoom(roomName: string) {
+  return roomName.startsWith(ROOM_PREFIX);
+}
+
+export function isAgentIdentity(identity: string) {
+  return identity.startsWith(AGENT_IDENTITY_PREFIX);
+}
+
+export function summarizeRoom(room: Room, participants: ParticipantInfo[]): RoomSummary {
+  // creationTime is in seconds; creationTimeMs is only set by newer servers
+  const createdAtMs = room.creationTimeMs
+    ? Number(room.creationTimeMs)
+    : room.creationTime
+      ? Number(room.creationTime) * 1000
+      : null;
+
+  const participantSummaries = participants.map((p) => ({
+    identity: p.identity,
+    name: p.name,
+    is_agent: isAgentIdentity(p.identity),
+    joined_at: p.joinedAt ? new Date(Number(p.joinedAt) * 1000).toISOString() : null,
+  }));
+
+  return {
+    room_name: room.name,
+    sid: room.sid,
+    created_at: createdAtMs ? new Date(createdAtMs).toISOString() : null,
+    age_seconds: createdAtMs ? Math.max(0, Math.round((Date.now() - createdAtMs) / 1000)) : null,
+    num_participants: participants.length,
+    agent_present: participantSummaries.some((p) => p.is_agent),
+    participants: participantSummaries,
+  };
+}
@@ -0,0 +1,113 @@
+// api/_lib/logger.ts
+import { randomUUID } from 'node:crypto';
+import { headerValue, type ApiRequest, type ApiResponse } from './http';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  // Logger that adds these fields to every entry, e.g. the request id
+  child(bindings: LogFields): Logger;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+function parseLevel(value: string | undefined): LogLevel {
+  return value && value in LEVELS ? value as LogLevel : 'info';
+}
+
+// LOG_LEVEL=debug turns on the detailed logs (LiveKit payloads, every dispatch attempt)
+let minLevel = parseLevel(process.env.LOG_LEVEL?.toLowerCase());
+
+export function setLogLevel(level: LogLevel) {
+  minLevel = level;
+}
+
+const REDACTED = '[REDACTED]';
+// Field names whose string values are never logged
+const SENSITIVE_KEY = /token|secret|password|passwd|authorization|api[-_]?key|jwt|cookie|signature|credential/i;
+// JWTs (LiveKit join tokens, host session tokens) and bearer headers inside free text, e.g. error messages
+const JWT_PATTERN = /eyJ[\w-]+\.[\w-]+\.[\w-]*/g;
+const BEARER_PATTERN = /Bearer\s+[^\s"',]+/gi;
+const MAX_DEPTH = 6;
+
+function redactString(value: string) {
+  return value.replace(JWT_PATTERN, REDACTED).replace(BEARER_PATTERN, `Bearer ${REDACTED}`);
+}
+
+// Copy of value that is safe to log: secrets removed, errors turned into plain objects, cycles cut
+export function redact(value: unknown, depth = 0, seen = new WeakSet<object>()): unknown {
+  if (typeof value === 'string') return redactString(value);
+  if (typeof value === 'bigint') return value.toString();
+  if (value === null || typeof value !== 'object') return value;
+  if (seen.has(value) || depth >= MAX_DEPTH) return '[Truncated]';
+
+  seen.add(value);
+  const copy = redactObject(value, depth, seen);
+  // Only ancestors count as cycles; the same object may appear twice side by side
+  seen.delete(value);
+  return copy;
+}
+
+function redactObject(value: object, depth: number, seen: WeakSet<object>): unknown {
+  if (value instanceof Error) {
+    // LiveKit's TwirpError carries the HTTP status
+    const { status } = value as { status?: number };
+    return {
+      name: value.name,
+      message: redactString(value.message),
+      ...(value.stack ? { stack: redactString(value.stack) } : {}),
+      ...(status !== undefined ? { status } : {}),
+    };
+  }
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map((item) => redact(item, depth + 1, seen));
+
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+    key,
+    SENSITIVE_KEY.test(key) && typeof item !== 'number' && typeof item !== 'boolean' && item != null
+      ? REDACTED
+      : redact(item, depth + 1, seen),
+  ]));
+}
+
+// One JSON object per line, which Vercel and most log pipelines index as-is. warn/error go to stderr.
+function write(level: LogLevel, message: string, bindings: LogFields, fields: LogFields | undefined) {
+  if (LEVELS[level] < LEVELS[minLevel]) return;
+
+  const entry = redact({ time: new Date().toISOString(), level, msg: message, ...bindings, ...fields });
+  const line = JSON.stringify(entry);
+  if (level === 'error') console.error(line);
+  else if (level === 'warn') console.warn(line);
+  else console.log(line);
+}
+
+export function createLogger(bindings: LogFields = {}): Logger {
+  return {
+    debug: (message, fields) => write('debug', message, bindings, fields),
+    info: (message, fields) => write('info', message, bindings, fields),
+    warn: (message, fields) => write('warn', message, bindings, fields),
+    error: (message, fields) => write('error', message, bindings, fields),
+    child: (extra) => createLogger({ ...bindings, ...extra }),
+  };
+}
+
+// For code that runs outside a request (module setup, sinks)
+export const logger = createLogger();
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+// A caller-supplied id is kept (so a proxy or the host app can correlate) only if it is short and plain
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._-]{8,64}$/;
+
+// Per-request logger: every entry carries request_id, which is also sent back in X-Request-Id so a user's
+// error report can be matched to the server logs
+export function requestLogger(req: ApiRequest, res: ApiResponse, route: string): Logger {
+  const incoming = headerValue(req, REQUEST_ID_HEADER.toLowerCase());
+  const requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+  res.setHeader(REQUEST_ID_HEADER, requestId);
+  return logger.child({ request_id: requestId, route, method: req.method });
+}
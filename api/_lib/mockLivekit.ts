@@ -0,0 +1,94 @@
+// api/_lib/mockLivekit.ts
+import { AgentDispatch, ParticipantInfo, Room } from 'livekit-server-sdk';
+import type { CreateOptions, DataPacket_Kind, SendDataOptions } from 'livekit-server-sdk';
+import type { AgentDispatchService, RoomService } from './livekit';
+import { logger } from './logger';
+
+// In-memory stand-ins for RoomServiceClient / AgentDispatchClient, enabled with LIVEKIT_MOCK=1 so the API
+// and frontend can be developed without any LiveKit server. Rooms live for the life of the process;
+// a dispatch immediately "joins" a fake agent participant so the join polling succeeds.
+const rooms = new Map<string, { room: Room; participants: ParticipantInfo[] }>();
+
+const nowSeconds = () => BigInt(Math.floor(Date.now() / 1000));
+const randomId = () => Math.random().toString(36).substring(2, 10);
+
+export class MockRoomService implements RoomService {
+  async createRoom(options: CreateOptions) {
+    const room = new Room({
+      sid: `RM_mock_${randomId()}`,
+      name: options.name,
+      emptyTimeout: options.emptyTimeout ?? 0,
+      departureTimeout: options.departureTimeout ?? 0,
+      maxParticipants: options.maxParticipants ?? 0,
+      metadata: options.metadata ?? '',
+      creationTime: nowSeconds(),
+      creationTimeMs: BigInt(Date.now()),
+    });
+    rooms.set(room.name, { room, participants: [] });
+    logger.info('[mock] Room created', { roomName: room.name });
+    return room;
+  }
+
+  async listRooms(names?: string[]) {
+    return [...rooms.values()]
+      .map((entry) => entry.room)
+      .filter((room) => !names || names.includes(room.name));
+  }
+
+  async listParticipants(roomName: string) {
+    return rooms.get(roomName)?.participants ?? [];
+  }
+
+  async deleteRoom(roomName: string) {
+    rooms.delete(roomName);
+    logger.info('[mock] Room deleted', { roomName });
+  }
+
+  async updateRoomMetadata(roomName: string, metadata: string) {
+    const entry = rooms.get(roomName);
+    if (!entry) {
+      throw Object.assign(new Error(`room ${roomName} does not exist`), { status: 404 });
+    }
+    entry.room.metadata = metadata;
+    return entry.room;
+  }
+
+  // Nobody is listening in mock mode; the message is only logged
+  async sendData(roomName: string, data: Uint8Array, _kind: DataPacket_Kind, options?: SendDataOptions | string[]) {
+    logger.info('[mock] Data sent', {
+      roomName,
+      topic: Array.isArray(options) ? undefined : options?.topic,
+      data: new TextDecoder().decode(data),
+    });
+  }
+}
+
+export class MockAgentDispatch implements AgentDispatchService {
+  async createDispatch(
+    roomName: string,
+    agentName: string,
+    options?: Parameters<AgentDispatchService['createDispatch']>[2]
+  ) {
+    const entry = rooms.get(roomName);
+    if (!entry) {
+      // Same outcome as LiveKit: a 4xx that dispatchAgent does not retry
+      throw Object.assign(new Error(`room ${roomName} does not exist`), { status: 404 });
+    }
+
+    entry.participants.push(new ParticipantInfo({
+      sid: `PA_mock_${randomId()}`,
+      identity: `agent-mock-${randomId()}`,
+      name: agentName || 'Mock agent',
+      joinedAt: nowSeconds(),
+    }));
+    entry.room.numParticipants = entry.participants.length;
+
+    logger.info('[mock] Agent dispatched', { roomName, agentName });
+    return new AgentDispatch({
+      id: `AD_mock_${randomId()}`,
+      agentName,
+      room: roomName,
+      metadata: options?.metadata ?? '',
+    });
+  }
+}
@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MemoryRateLimitStore, checkRateLimit, setRateLimitStore } from './rateLimit';
+
+describe('checkRateLimit', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('allows up to the limit per window and says when to retry', async () => {
+    vi.useFakeTimers();
+    setRateLimitStore(new MemoryRateLimitStore());
+    const rule = { limit: 2, windowMs: 60_000 };
+
+    expect((await checkRateLimit('ip:1', rule)).allowed).toBe(true);
+    expect((await checkRateLimit('ip:1', rule)).allowed).toBe(true);
+    vi.advanceTimersByTime(20_000);
+    expect(await checkRateLimit('ip:1', rule)).toEqual({ allowed: false, retryAfter: 40 });
+    expect((await checkRateLimit('ip:2', rule)).allowed).toBe(true);
+
+    vi.advanceTimersByTime(40_000);
+    expect((await checkRateLimit('ip:1', rule)).allowed).toBe(true);
+  });
+});
+
+describe('MemoryRateLimitStore', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sweeps out expired windows', async () => {
+    vi.useFakeTimers();
+    const store = new MemoryRateLimitStore();
+    for (let i = 0; i < 100; i++) {
+      await store.hit(`ip:${i}`, 1000);
+    }
+    expect(store.size).toBe(100);
+
+    vi.advanceTimersByTime(60_000);
+    await store.hit('ip:new', 1000);
+
+    expect(store.size).toBe(1);
+  });
+
+  it('drops the least recently hit windows past maxKeys', async () => {
+    const store = new MemoryRateLimitStore(3);
+    await store.hit('ip:1', 60_000);
+    await store.hit('ip:1', 60_000);
+    await store.hit('ip:2', 60_000);
+    await store.hit('ip:3', 60_000);
+    await store.hit('ip:4', 60_000);
+
+    expect(store.size).toBe(3);
+    // ip:1 starts over, ip:3 kept its count
+    expect((await store.hit('ip:1', 60_000)).count).toBe(1);
+    expect((await store.hit('ip:3', 60_000)).count).toBe(2);
+  });
+
+  it('keeps the window of a busy key that was seen first', async () => {
+    const store = new MemoryRateLimitStore(3);
+    await store.hit('ip:busy', 60_000);
+    await store.hit('ip:2', 60_000);
+    await store.hit('ip:3', 60_000);
+    await store.hit('ip:busy', 60_000);
+    await store.hit('ip:4', 60_000);
+
+    expect((await store.hit('ip:busy', 60_000)).count).toBe(3);
+    expect((await store.hit('ip:2', 60_000)).count).toBe(1);
+  });
+});
@@ -0,0 +1,89 @@
+// api/_lib/rateLimit.ts
+
+// Counter storage for fixed-window rate limiting. The in-memory default only sees one function
+// instance; swap in a shared backend (Redis, KV, ...) with setRateLimitStore for real deployments.
+export interface RateLimitStore {
+  // Counts a hit for key and returns the total within the current window plus when the window resets
+  hit(key: string, windowMs: number): Promise<{ count: number; resetAt: number }>;
+}
+
+// Expired windows are swept out as the store is used. Past maxKeys the least recently hit windows are dropped,
+// so a flood of distinct keys costs those keys their count rather than the instance its memory.
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows = new Map<string, { count: number; resetAt: number }>();
+  private nextSweepAt = 0;
+  private readonly maxKeys: number;
+
+  constructor(maxKeys = 10_000) {
+    this.maxKeys = maxKeys;
+  }
+
+  get size() {
+    return this.windows.size;
+  }
+
+  private evict(now: number) {
+    if (now >= this.nextSweepAt) {
+      for (const [key, window] of this.windows) {
+        if (window.resetAt <= now) this.windows.delete(key);
+      }
+      this.nextSweepAt = now + 60_000;
+    }
+    // Maps iterate in insertion order, and hit() re-inserts, so the least recently hit window comes first
+    for (const key of this.windows.keys()) {
+      if (this.windows.size < this.maxKeys) break;
+      this.windows.delete(key);
+    }
+  }
+
+  async hit(key: string, windowMs: number) {
+    const now = Date.now();
+    const current = this.windows.get(key);
+    if (!current) this.evict(now);
+    const window = current && current.resetAt > now
+      ? { count: current.count + 1, resetAt: current.resetAt }
+      : { count: 1, resetAt: now + windowMs };
+    // Re-inserting moves the key to the end: a busy client is never the first one evicted
+    this.windows.delete(key);
+    this.windows.set(key, window);
+    return window;
+  }
+}
+
+let store: RateLimitStore | null = null;
+
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    store = new MemoryRateLimitStore();
+  }
+  return store;
+}
+
+export function setRateLimitStore(next: RateLimitStore) {
+  store = next;
+}
+
+export interface RateLimitRule {
+  limit: number;
+  windowMs: number;
+}
+
+// Room tokens (created or rejoined) and agent re-dispatches per minute and client IP
+export const ROOM_IP_RATE_LIMIT: RateLimitRule = {
+  limit: Number(process.env.CREATE_LIMIT_PER_IP) || 10,
+  windowMs: 60_000,
+};
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // Seconds until the caller may try again (for the Retry-After header)
+  retryAfter: number;
+}
+
+export async function checkRateLimit(key: string, rule: RateLimitRule): Promise<RateLimitResult> {
+  const { count, resetAt } = await getRateLimitStore().hit(key, rule.windowMs);
+  return {
+    allowed: count <= rule.limit,
+    retryAfter: Math.max(1, Math.ceil((resetAt - Date.now()) / 1000)),
+  };
+}
@@ -0,0 +1,87 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { isExpired, resolveRoomPolicy, roomOptions, sessionLimits, sessionPolicy } from './roomPolicy';
+
+vi.hoisted(() => {
+  process.env.ROOM_MAX_DURATION = '600';
+  process.env.ROOM_POLICIES = JSON.stringify({
+    support: { max_duration: 0, allow_observer: true, empty_timeout: 'soon' },
+  });
+});
+
+describe('resolveRoomPolicy', () => {
+  it('uses the ROOM_* defaults for profiles without overrides', () => {
+    expect(resolveRoomPolicy('default')).toEqual({
+      empty_timeout: 600,
+      departure_timeout: 20,
+      max_participants: 2,
+      allow_observer: false,
+      max_duration: 600,
+      wrap_up: 120,
+    });
+  });
+
+  it('applies valid profile overrides and ignores invalid fields', () => {
+    expect(resolveRoomPolicy('support')).toMatchObject({ empty_timeout: 600, max_duration: 0, allow_observer: true });
+  });
+});
+
+describe('room options and limits', () => {
+  it('adds a seat for the observer', () => {
+    expect(roomOptions(resolveRoomPolicy('default')).maxParticipants).toBe(2);
+    expect(roomOptions(resolveRoomPolicy('support')).maxParticipants).toBe(3);
+  });
+
+  it('adds a seat for each extra agent', () => {
+    expect(roomOptions(resolveRoomPolicy('default'), 2).maxParticipants).toBe(4);
+    expect(roomOptions(resolveRoomPolicy('support'), 1).maxParticipants).toBe(4);
+  });
+
+  it('counts down from the creation time', () => {
+    const session = sessionPolicy(resolveRoomPolicy('default'), 1_000_000);
+
+    expect(session).toEqual({ expires_at: 1_600_000, wrap_up_seconds: 120, allow_observer: false });
+    expect(sessionLimits(session, 1_000_000)).toEqual({ ends_in_seconds: 600, wrap_up_seconds: 120 });
+    expect(sessionLimits(session, 1_599_500).ends_in_seconds).toBe(1);
+    expect(isExpired(session, 1_599_500)).toBe(false);
+    expect(isExpired(session, 1_600_000)).toBe(true);
+  });
+
+  it('never expires rooms without a limit', () => {
+    const session = sessionPolicy(resolveRoomPolicy('support'), 1_000_000);
+
+    expect(session.expires_at).toBeNull();
+    expect(isExpired(session, Number.MAX_SAFE_INTEGER)).toBe(false);
+    expect(sessionLimits(undefined)).toEqual({ ends_in_seconds: null, wrap_up_seconds: 0 });
+  });
+});
+
+describe('startup checks', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  const loadWithLoggerSpy = async () => {
+    vi.resetModules();
+    const { logger } = await import('./logger');
+    const error = vi.spyOn(logger, 'error').mockImplementation(() => {});
+    await import('./roomPolicy');
+    return error;
+  };
+
+  it('logs an error when a time limit is set without CRON_SECRET', async () => {
+    vi.stubEnv('CRON_SECRET', '');
+
+    expect(await loadWithLoggerSpy()).toHaveBeenCalledWith(expect.stringContaining('CRON_SECRET'));
+  });
+
+  it('stays quiet with CRON_SECRET or without any time limit', async () => {
+    vi.stubEnv('CRON_SECRET', 'cron-secret');
+    expect(await loadWithLoggerSpy()).not.toHaveBeenCalled();
+
+    vi.stubEnv('CRON_SECRET', '');
+    vi.stubEnv('ROOM_MAX_DURATION', '0');
+    vi.stubEnv('ROOM_POLICIES', '{}');
+    expect(await loadWithLoggerSpy()).not.toHaveBeenCalled();
+  });
+});
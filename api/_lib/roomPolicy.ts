@@ -0,0 +1,130 @@
+// api/_lib/roomPolicy.ts
+import type { CreateOptions } from 'livekit-server-sdk';
+import { logger } from './logger';
+
+// How a room is run. All durations are in seconds.
+export interface RoomPolicy {
+  // Time the room stays open before anyone joins
+  empty_timeout: number;
+  // Time the room stays open after the last participant leaves, the window for rejoining
+  departure_timeout: number;
+  // User plus the primary agent; one more seat is added per extra agent and when an observer is allowed
+  max_participants: number;
+  // Whether /api/rooms/observe may hand out listen-only tokens for the room
+  allow_observer: boolean;
+  // Longest a call may run, 0 = no limit
+  max_duration: number;
+  // How long before the limit the user sees a countdown and the agent is asked to wrap up
+  wrap_up: number;
+}
+
+// The part of the policy a room keeps in its metadata, for rejoin, observe and the expiry sweep
+export interface SessionPolicy {
+  // Epoch ms at which the room is ended; null = no limit
+  expires_at: number | null;
+  wrap_up_seconds: number;
+  allow_observer: boolean;
+  // Set by the sweep once the agent has been told to wrap up
+  wrap_up_sent?: boolean;
+}
+
+// Returned to the client with its join token. Relative, so a skewed client clock does not matter.
+export interface SessionLimits {
+  ends_in_seconds: number | null;
+  wrap_up_seconds: number;
+}
+
+function seconds(name: string, fallback: number) {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return fallback;
+  const value = Number(raw);
+  if (Number.isInteger(value) && value >= 0) return value;
+  logger.warn('Invalid room policy setting, using the default', { name, value: raw, default: fallback });
+  return fallback;
+}
+
+const DEFAULT_ROOM_POLICY: RoomPolicy = {
+  empty_timeout: seconds('ROOM_EMPTY_TIMEOUT', 600),
+  departure_timeout: seconds('ROOM_DEPARTURE_TIMEOUT', 20),
+  max_participants: seconds('ROOM_MAX_PARTICIPANTS', 2),
+  allow_observer: process.env.ROOM_ALLOW_OBSERVER === '1' || process.env.ROOM_ALLOW_OBSERVER === 'true',
+  max_duration: seconds('ROOM_MAX_DURATION', 0),
+  wrap_up: seconds('ROOM_WRAP_UP', 120),
+};
+
+function isPolicyField(key: string, value: unknown): boolean {
+  if (!Object.prototype.hasOwnProperty.call(DEFAULT_ROOM_POLICY, key)) return false;
+  if (key === 'allow_observer') return typeof value === 'boolean';
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+// Per agent profile overrides on top of the ROOM_* defaults, e.g.
+// ROOM_POLICIES='{"support":{"max_duration":900,"allow_observer":true}}'
+function loadRoomPolicies(): Record<string, Partial<RoomPolicy>> {
+  let configured: Record<string, unknown> = {};
+  try {
+    configured = JSON.parse(process.env.ROOM_POLICIES || '{}');
+  } catch {
+    logger.error('ROOM_POLICIES is not valid JSON, every profile uses the default room policy');
+  }
+
+  const policies: Record<string, Partial<RoomPolicy>> = {};
+  for (const [profile, overrides] of Object.entries(configured)) {
+    if (!overrides || typeof overrides !== 'object') continue;
+    policies[profile] = Object.fromEntries(Object.entries(overrides).filter(([key, value]) => {
+      const valid = isPolicyField(key, value);
+      if (!valid) logger.warn('Ignoring invalid room policy field', { profile, field: key });
+      return valid;
+    }));
+  }
+  return policies;
+}
+
+const ROOM_POLICIES = loadRoomPolicies();
+
+// Only the expiry sweep ends a room at its limit server side, and Vercel Cron can't authenticate to it without
+// CRON_SECRET. Whether something runs it every minute can't be checked from here (see the README).
+if (!process.env.CRON_SECRET && [DEFAULT_ROOM_POLICY, ...Object.values(ROOM_POLICIES)].some((policy) => (policy.max_duration ?? 0) > 0)) {
+  logger.error('A room time limit is set but CRON_SECRET is not: /api/rooms/expire only runs for callers with X-Agent-Key');
+}
+
+export function resolveRoomPolicy(profile: string): RoomPolicy {
+  const overrides = Object.prototype.hasOwnProperty.call(ROOM_POLICIES, profile) ? ROOM_POLICIES[profile] : {};
+  return { ...DEFAULT_ROOM_POLICY, ...overrides };
+}
+
+// extraAgents: how many agents the profile dispatches besides the primary one (supervisor, standby)
+export function roomOptions(
+  policy: RoomPolicy,
+  extraAgents = 0
+): Pick<CreateOptions, 'emptyTimeout' | 'departureTimeout' | 'maxParticipants'> {
+  return {
+    emptyTimeout: policy.empty_timeout,
+    departureTimeout: policy.departure_timeout,
+    // Observers are hidden but still take a seat
+    maxParticipants: policy.max_participants + extraAgents + (policy.allow_observer ? 1 : 0),
+  };
+}
+
+export function sessionPolicy(policy: RoomPolicy, now = Date.now()): SessionPolicy {
+  return {
+    expires_at: policy.max_duration > 0 ? now + policy.max_duration * 1000 : null,
+    wrap_up_seconds: Math.min(policy.wrap_up, policy.max_duration),
+    allow_observer: policy.allow_observer,
+  };
+}
+
+// Whole seconds until the room is ended, never negative; null when it has no limit
+export function secondsLeft(session: SessionPolicy, now = Date.now()) {
+  return session.expires_at === null ? null : Math.max(0, Math.ceil((session.expires_at - now) / 1000));
+}
+
+export function sessionLimits(session: SessionPolicy | undefined, now = Date.now()): SessionLimits {
+  // Rooms created before policies were recorded have no limit
+  if (!session) return { ends_in_seconds: null, wrap_up_seconds: 0 };
+  return { ends_in_seconds: secondsLeft(session, now), wrap_up_seconds: session.wrap_up_seconds };
+}
+
+export function isExpired(session: SessionPolicy | undefined, now = Date.now()) {
+  return !!session && secondsLeft(session, now) === 0;
+}
@@ -0,0 +1,98 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  FileTelemetrySink,
+  parseTelemetry,
+  setTelemetrySinks,
+  writeTelemetry,
+  type TelemetryRecord,
+  type TelemetrySummary,
+} from './telemetry';
+
+function summary(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    room_name: 'mogenie-abc',
+    started_at: 1_700_000_000_000,
+    ended_at: 1_700_000_090_000,
+    end_reason: 'hangup',
+    time_to_connect_ms: 850,
+    time_to_agent_join_ms: 1200,
+    time_to_first_agent_audio_ms: null,
+    reconnects: 1,
+    reconnecting_ms: 2300,
+    quality_ms: { excellent: 60_000, good: 20_000, poor: 8_000, lost: 0, unknown: 2_000 },
+    rtt_ms: { avg: 80, max: 140 },
+    jitter_ms: { avg: 4, max: 12 },
+    packet_loss_pct: { avg: 0.5, max: 3 },
+    stats_samples: 18,
+    input_mode: 'vad',
+    text_only: false,
+    ...overrides,
+  };
+}
+
+function record(): TelemetryRecord {
+  return {
+    ...(parseTelemetry(summary()) as TelemetrySummary),
+    identity: 'user-1',
+    user_agent: null,
+    received_at: Date.UTC(2026, 9, 19, 12),
+  };
+}
+
+describe('parseTelemetry', () => {
+  it('accepts a complete summary and drops unknown fields', () => {
+    const parsed = parseTelemetry(summary({ extra: 'ignored' }));
+    expect(parsed).toEqual(summary());
+  });
+
+  it.each([
+    ['room_name', { room_name: 'bad room' }],
+    ['end', { ended_at: 1_600_000_000_000 }],
+    ['end_reason', { end_reason: 'crashed' }],
+    ['time_to_agent_join_ms', { time_to_agent_join_ms: -1 }],
+    ['reconnects', { reconnects: 1.5 }],
+    ['quality_ms', { quality_ms: { excellent: 1 } }],
+    ['rtt_ms', { rtt_ms: { avg: 'fast', max: null } }],
+    ['text_only', { text_only: 'no' }],
+  ])('rejects an invalid %s', (_field, overrides) => {
+    expect(typeof parseTelemetry(summary(overrides))).toBe('string');
+  });
+
+  it('rejects a non-object body', () => {
+    expect(parseTelemetry('nope')).toBe('body must be an object');
+  });
+});
+
+describe('writeTelemetry', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('writes to every sink even when one fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const ok = { name: 'ok', write: vi.fn().mockResolvedValue(undefined) };
+    const broken = { name: 'broken', write: vi.fn().mockRejectedValue(new Error('disk full')) };
+    setTelemetrySinks([broken, ok]);
+
+    await expect(writeTelemetry(record())).resolves.toEqual(['broken']);
+    expect(ok.write).toHaveBeenCalledWith(record());
+  });
+
+  it('appends one JSON line per call to a daily file', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'telemetry-test-'));
+    try {
+      const sink = new FileTelemetrySink(directory);
+      await sink.write(record());
+      await sink.write(record());
+
+      const lines = (await fs.readFile(path.join(directory, 'telemetry-2026-10-19.jsonl'), 'utf8')).trim().split('\n');
+      expect(lines).toHaveLength(2);
+      expect(JSON.parse(lines[0])).toEqual(record());
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,200 @@
+// api/_lib/telemetry.ts
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { logger, type Logger } from './logger';
+import { ROOM_NAME_RULE } from './validation';
+
+export const QUALITY_LEVELS = ['excellent', 'good', 'poor', 'lost', 'unknown'] as const;
+export type QualityLevel = typeof QUALITY_LEVELS[number];
+
+export const END_REASONS = ['hangup', 'time_limit', 'disconnected', 'failed'] as const;
+export type EndReason = typeof END_REASONS[number];
+
+export interface MetricSummary {
+  avg: number | null;
+  max: number | null;
+}
+
+// Call summary the client posts once at the end of a call (frontend/src/lib/telemetry.ts)
+export interface TelemetrySummary {
+  room_name: string;
+  // Epoch ms
+  started_at: number;
+  ended_at: number;
+  end_reason: EndReason;
+  // From pressing start to being in the room, to the agent joining and to its first audio track; null if never
+  time_to_connect_ms: number | null;
+  time_to_agent_join_ms: number | null;
+  time_to_first_agent_audio_ms: number | null;
+  reconnects: number;
+  reconnecting_ms: number;
+  // Time spent in each LiveKit ConnectionQuality of the user's connection
+  quality_ms: Record<QualityLevel, number>;
+  rtt_ms: MetricSummary;
+  jitter_ms: MetricSummary;
+  packet_loss_pct: MetricSummary;
+  // Number of WebRTC stats samples behind the three metrics above
+  stats_samples: number;
+  input_mode: string | null;
+  text_only: boolean;
+}
+
+export interface TelemetryRecord extends TelemetrySummary {
+  identity: string;
+  user_agent: string | null;
+  received_at: number;
+}
+
+// Where call summaries go. Sinks are independent: one failing does not stop the others.
+export interface TelemetrySink {
+  readonly name: string;
+  write(record: TelemetryRecord): Promise<void>;
+}
+
+export class ConsoleTelemetrySink implements TelemetrySink {
+  readonly name = 'console';
+
+  async write(record: TelemetryRecord) {
+    logger.info('Call telemetry', { telemetry: record });
+  }
+}
+
+// One JSON Lines file per UTC day, ready for jq or a log shipper
+export class FileTelemetrySink implements TelemetrySink {
+  readonly name = 'file';
+  private readonly directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async write(record: TelemetryRecord) {
+    await fs.mkdir(this.directory, { recursive: true });
+    const day = new Date(record.received_at).toISOString().slice(0, 10);
+    await fs.appendFile(path.join(this.directory, `telemetry-${day}.jsonl`), JSON.stringify(record) + '\n', 'utf8');
+  }
+}
+
+let sinks: TelemetrySink[] | null = null;
+
+// TELEMETRY_SINKS is a comma-separated list of console, file (default console); the file sink writes to
+// TELEMETRY_DIR (or the OS temp dir). Anything else can be plugged in with setTelemetrySinks.
+export function getTelemetrySinks(): TelemetrySink[] {
+  if (!sinks) {
+    const names = (process.env.TELEMETRY_SINKS || 'console').split(',').map((name) => name.trim()).filter(Boolean);
+    sinks = names.flatMap((name): TelemetrySink[] => {
+      switch (name) {
+        case 'console':
+          return [new ConsoleTelemetrySink()];
+        case 'file':
+          return [new FileTelemetrySink(process.env.TELEMETRY_DIR || path.join(os.tmpdir(), 'mogenie-telemetry'))];
+        default:
+          logger.warn('Unknown telemetry sink ignored', { sink: name });
+          return [];
+      }
+    });
+  }
+  return sinks;
+}
+
+export function setTelemetrySinks(custom: TelemetrySink[]) {
+  sinks = custom;
+}
+
+// Writes to every sink; returns the names of the sinks that failed
+export async function writeTelemetry(record: TelemetryRecord, log: Logger = logger): Promise<string[]> {
+  const targets = getTelemetrySinks();
+  const results = await Promise.allSettled(targets.map((sink) => sink.write(record)));
+
+  return results.flatMap((result, index) => {
+    if (result.status === 'fulfilled') return [];
+    log.error('Telemetry sink failed', { sink: targets[index].name, error: result.reason });
+    return [targets[index].name];
+  });
+}
+
+// A day is far longer than any call; anything bigger is a bad clock or a forged report
+const MAX_DURATION_MS = 24 * 60 * 60 * 1000;
+
+function isDuration(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= MAX_DURATION_MS;
+}
+
+function isOptionalDuration(value: unknown): value is number | null {
+  return value === null || isDuration(value);
+}
+
+function isMetric(value: unknown): value is MetricSummary {
+  const metric = value as MetricSummary | null;
+  const isValue = (v: unknown) => v === null || (typeof v === 'number' && Number.isFinite(v) && v >= 0);
+  return !!metric && typeof metric === 'object' && isValue(metric.avg) && isValue(metric.max);
+}
+
+export function parseTelemetry(body: unknown): TelemetrySummary | string {
+  const summary = body as Partial<TelemetrySummary> | null;
+  if (!summary || typeof summary !== 'object') {
+    return 'body must be an object';
+  }
+
+  const roomName = summary.room_name;
+  if (typeof roomName !== 'string' || roomName.length > ROOM_NAME_RULE.maxLength || !ROOM_NAME_RULE.pattern.test(roomName)) {
+    return 'room_name is invalid';
+  }
+  if (
+    typeof summary.started_at !== 'number' || !Number.isFinite(summary.started_at) ||
+    typeof summary.ended_at !== 'number' || !isDuration(summary.ended_at - summary.started_at)
+  ) {
+    return 'started_at / ended_at are invalid';
+  }
+  if (!END_REASONS.includes(summary.end_reason as EndReason)) {
+    return `end_reason must be one of ${END_REASONS.join(', ')}`;
+  }
+
+  for (const field of ['time_to_connect_ms', 'time_to_agent_join_ms', 'time_to_first_agent_audio_ms'] as const) {
+    if (!isOptionalDuration(summary[field])) return `${field} is invalid`;
+  }
+  if (!Number.isInteger(summary.reconnects) || (summary.reconnects as number) < 0) {
+    return 'reconnects is invalid';
+  }
+  if (!isDuration(summary.reconnecting_ms)) {
+    return 'reconnecting_ms is invalid';
+  }
+
+  const qualityMs = summary.quality_ms as Record<string, unknown> | undefined;
+  if (!qualityMs || typeof qualityMs !== 'object' || !QUALITY_LEVELS.every((level) => isDuration(qualityMs[level]))) {
+    return 'quality_ms is invalid';
+  }
+  for (const field of ['rtt_ms', 'jitter_ms', 'packet_loss_pct'] as const) {
+    if (!isMetric(summary[field])) return `${field} is invalid`;
+  }
+  if (!Number.isInteger(summary.stats_samples) || (summary.stats_samples as number) < 0) {
+    return 'stats_samples is invalid';
+  }
+  if (summary.input_mode !== null && (typeof summary.input_mode !== 'string' || summary.input_mode.length > 32)) {
+    return 'input_mode is invalid';
+  }
+  if (typeof summary.text_only !== 'boolean') {
+    return 'text_only must be a boolean';
+  }
+
+  const metric = (value: MetricSummary) => ({ avg: value.avg, max: value.max });
+  return {
+    room_name: roomName,
+    started_at: summary.started_at,
+    ended_at: summary.ended_at,
+    end_reason: summary.end_reason as EndReason,
+    time_to_connect_ms: summary.time_to_connect_ms as number | null,
+    time_to_agent_join_ms: summary.time_to_agent_join_ms as number | null,
+    time_to_first_agent_audio_ms: summary.time_to_first_agent_audio_ms as number | null,
+    reconnects: summary.reconnects as number,
+    reconnecting_ms: summary.reconnecting_ms,
+    quality_ms: Object.fromEntries(QUALITY_LEVELS.map((level) => [level, qualityMs[level]])) as Record<QualityLevel, number>,
+    rtt_ms: metric(summary.rtt_ms as MetricSummary),
+    jitter_ms: metric(summary.jitter_ms as MetricSummary),
+    packet_loss_pct: metric(summary.packet_loss_pct as MetricSummary),
+    stats_samples: summary.stats_samples as number,
+    input_mode: summary.input_mode ?? null,
+    text_only: summary.text_only,
+  };
+}
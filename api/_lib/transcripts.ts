@@ -0,0 +1,147 @@
+// api/_lib/transcripts.ts
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { logger } from './logger';
+import { isJsonObject } from './validation';
+
+export const MAX_SEGMENTS_PER_BATCH = 200;
+const MAX_TEXT_LENGTH = 5000;
+
+export type TranscriptSpeaker = 'user' | 'agent';
+
+export interface TranscriptSegmentInput {
+  segment_id: string;
+  speaker: TranscriptSpeaker;
+  text: string;
+  final: boolean;
+  // Epoch ms when the segment was spoken
+  time: number;
+}
+
+export interface StoredSegment extends TranscriptSegmentInput {
+  submitted_by: string;
+  received_at: number;
+}
+
+// Storage backend for transcripts. Implementations only need append + read;
+// ordering and interim/final collapsing happen in collapseSegments.
+export interface TranscriptStore {
+  append(roomName: string, segments: StoredSegment[]): Promise<void>;
+  read(roomName: string): Promise<StoredSegment[]>;
+}
+
+export class MemoryTranscriptStore implements TranscriptStore {
+  private rooms = new Map<string, StoredSegment[]>();
+
+  async append(roomName: string, segments: StoredSegment[]) {
+    this.rooms.set(roomName, [...(this.rooms.get(roomName) ?? []), ...segments]);
+  }
+
+  async read(roomName: string) {
+    return this.rooms.get(roomName) ?? [];
+  }
+}
+
+// One JSON Lines file per room, so appends never rewrite earlier segments
+export class FileTranscriptStore implements TranscriptStore {
+  private readonly directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  private filePath(roomName: string) {
+    return path.join(this.directory, `${encodeURIComponent(roomName)}.jsonl`);
+  }
+
+  async append(roomName: string, segments: StoredSegment[]) {
+    await fs.mkdir(this.directory, { recursive: true });
+    const lines = segments.map((segment) => JSON.stringify(segment) + '\n').join('');
+    await fs.appendFile(this.filePath(roomName), lines, 'utf8');
+  }
+
+  async read(roomName: string) {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath(roomName), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    return content
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => JSON.parse(line) as StoredSegment);
+  }
+}
+
+let store: TranscriptStore | null = null;
+
+// TRANSCRIPT_STORE=memory keeps transcripts for the life of the process only;
+// the default file store writes to TRANSCRIPT_DIR (or the OS temp dir). Both only suit a long-lived
+// server: serverless instances don't share memory or /tmp, so deployments there need setTranscriptStore.
+export function getTranscriptStore(): TranscriptStore {
+  if (!store) {
+    if (process.env.VERCEL) {
+      logger.error('Transcripts use the built-in store on Vercel and will be lost between invocations; call setTranscriptStore');
+    }
+    store = process.env.TRANSCRIPT_STORE === 'memory'
+      ? new MemoryTranscriptStore()
+      : new FileTranscriptStore(process.env.TRANSCRIPT_DIR || path.join(os.tmpdir(), 'mogenie-transcripts'));
+  }
+  return store;
+}
+
+export function setTranscriptStore(custom: TranscriptStore) {
+  store = custom;
+}
+
+export function parseSegments(body: unknown): TranscriptSegmentInput[] | string {
+  const segments = isJsonObject(body) ? body.segments : undefined;
+
+  if (!Array.isArray(segments) || segments.length === 0) {
+    return 'segments must be a non-empty array';
+  }
+  if (segments.length > MAX_SEGMENTS_PER_BATCH) {
+    return `segments must contain at most ${MAX_SEGMENTS_PER_BATCH} items`;
+  }
+
+  const parsed: TranscriptSegmentInput[] = [];
+  for (const [index, segment] of segments.entries()) {
+    if (
+      !segment ||
+      typeof segment.segment_id !== 'string' || !segment.segment_id ||
+      (segment.speaker !== 'user' && segment.speaker !== 'agent') ||
+      typeof segment.text !== 'string' || segment.text.length > MAX_TEXT_LENGTH ||
+      typeof segment.final !== 'boolean' ||
+      typeof segment.time !== 'number' || !Number.isFinite(segment.time)
+    ) {
+      return `segments[${index}] is invalid`;
+    }
+    parsed.push({
+      segment_id: segment.segment_id,
+      speaker: segment.speaker,
+      text: segment.text,
+      final: segment.final,
+      time: segment.time,
+    });
+  }
+  return parsed;
+}
+
+// Latest write wins per (speaker, segment_id), so interim segments are replaced by their final version.
+// The result is ordered by when each segment was spoken.
+export function collapseSegments(segments: StoredSegment[]): StoredSegment[] {
+  const latest = new Map<string, StoredSegment>();
+  for (const segment of segments) {
+    const key = `${segment.speaker}:${segment.segment_id}`;
+    const existing = latest.get(key);
+    // A late interim duplicate never replaces a final segment
+    if (existing?.final && !segment.final) continue;
+    latest.set(key, segment);
+  }
+
+  return [...latest.values()].sort((a, b) => a.time - b.time || a.received_at - b.received_at);
+}
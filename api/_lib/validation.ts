@@ -0,0 +1,82 @@
+// api/_lib/validation.ts
+import { AGENT_IDENTITY_PREFIX, OBSERVER_IDENTITY_PREFIX } from './livekit';
+
+export interface StringRule {
+  required?: boolean;
+  maxLength: number;
+  pattern?: RegExp;
+  // Extra check after length/pattern; returns an error message or null
+  check?: (value: string) => string | null;
+}
+
+export type Schema = Record<string, StringRule>;
+
+export type Parsed<S extends Schema> = {
+  [K in keyof S]: S[K]['required'] extends true ? string : string | undefined;
+};
+
+export type ParseResult<S extends Schema> =
+  | { ok: true; value: Parsed<S> }
+  | { ok: false; field: string; error: string };
+
+// Printable text: no control or invisible formatting characters
+const PRINTABLE = /^[^\p{Cc}\p{Cf}]+$/u;
+
+// Agent detection on both server and client keys off these prefixes, so users may never claim them
+export function isReservedIdentity(identity: string) {
+  const lower = identity.toLowerCase();
+  return lower.startsWith(AGENT_IDENTITY_PREFIX) || lower.startsWith(OBSERVER_IDENTITY_PREFIX);
+}
+
+export const USER_ID_RULE = {
+  maxLength: 64,
+  pattern: /^[A-Za-z0-9_.@-]+$/,
+  check: (value) => (isReservedIdentity(value) ? 'uses a reserved prefix' : null),
+} satisfies StringRule;
+export const USER_NAME_RULE = { required: true, maxLength: 64, pattern: PRINTABLE } satisfies StringRule;
+export const ROOM_NAME_RULE = { required: true, maxLength: 128, pattern: /^[A-Za-z0-9_-]+$/ } satisfies StringRule;
+export const AGENT_PROFILE_RULE = { maxLength: 64, pattern: /^[a-z0-9_-]+$/ } satisfies StringRule;
+// BCP 47-ish: vi, vi-VN, zh-Hant-TW
+export const LOCALE_RULE = { maxLength: 35, pattern: /^[A-Za-z]{2,3}(-[A-Za-z0-9]{2,8})*$/ } satisfies StringRule;
+export const ENTRY_PAGE_RULE = { maxLength: 512, pattern: PRINTABLE } satisfies StringRule;
+
+export function required<R extends StringRule>(rule: R): R & { required: true } {
+  return { ...rule, required: true };
+}
+
+export function isJsonObject(body: unknown): body is Record<string, unknown> {
+  return !!body && typeof body === 'object' && !Array.isArray(body);
+}
+
+// Validates a JSON body against string rules. Missing, null and empty values count as absent.
+export function parseBody<S extends Schema>(body: unknown, schema: S): ParseResult<S> {
+  if (!isJsonObject(body)) {
+    return { ok: false, field: 'body', error: 'Request body must be a JSON object' };
+  }
+
+  const value: Record<string, string | undefined> = {};
+  for (const [field, rule] of Object.entries(schema)) {
+    const raw = body[field];
+
+    if (raw === undefined || raw === null || raw === '') {
+      if (rule.required) return { ok: false, field, error: `${field} is required` };
+      value[field] = undefined;
+      continue;
+    }
+    if (typeof raw !== 'string') {
+      return { ok: false, field, error: `${field} must be a string` };
+    }
+    if (raw.length > rule.maxLength) {
+      return { ok: false, field, error: `${field} must be at most ${rule.maxLength} characters` };
+    }
+    if (rule.pattern && !rule.pattern.test(raw)) {
+      return { ok: false, field, error: `${field} contains invalid characters` };
+    }
+    const problem = rule.check?.(raw);
+    if (problem) {
+      return { ok: false, field, error: `${field} ${problem}` };
+    }
+    value[field] = raw;
+  }
+  return { ok: true, value: value as Parsed<S> };
+}
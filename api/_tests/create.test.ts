@@ -0,0 +1,271 @@
+// Route handler tests live in api/_tests because Vercel would deploy any other file under api/ as a function
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { TrackSource } from 'livekit-server-sdk';
+import handler from '../rooms/create';
+import type { ApiRequest } from '../_lib/http';
+import { MemoryRateLimitStore, setRateLimitStore } from '../_lib/rateLimit';
+import { apiRequest, bearer, callHandler, sessionToken } from './helpers';
+
+const livekit = vi.hoisted(() => {
+  process.env.LIVEKIT_API_KEY = 'test-key';
+  process.env.LIVEKIT_API_SECRET = 'test-secret';
+  process.env.LIVEKIT_URL = 'https://example.livekit.cloud';
+  process.env.AGENT_JOIN_TIMEOUT_MS = '50';
+  process.env.AGENT_PROFILES = '{"support":"momo-support"}';
+  process.env.AGENT_EXTRA_DISPATCHES = '{"support":["momo-supervisor","momo-support"]}';
+  process.env.HOST_SESSION_SECRET = 'host-secret';
+  process.env.CREATE_API_KEYS = 'server-key';
+  process.env.ANONYMOUS_CHALLENGE = 'off';
+  process.env.ROOM_POLICIES = '{"support":{"max_duration":900,"allow_observer":true}}';
+
+  return {
+    createRoom: vi.fn(),
+    listRooms: vi.fn(),
+    listParticipants: vi.fn(),
+    deleteRoom: vi.fn(),
+    createDispatch: vi.fn(),
+    tokens: [] as { options: Record<string, unknown>; grants: Record<string, unknown>[] }[],
+  };
+});
+
+vi.mock('livekit-server-sdk', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('livekit-server-sdk')>()),
+  RoomServiceClient: class {
+    createRoom = livekit.createRoom;
+    listRooms = livekit.listRooms;
+    listParticipants = livekit.listParticipants;
+    deleteRoom = livekit.deleteRoom;
+  },
+  AgentDispatchClient: class {
+    createDispatch = livekit.createDispatch;
+  },
+  AccessToken: class {
+    private token: { options: Record<string, unknown>; grants: Record<string, unknown>[] };
+    constructor(_key: string, _secret: string, options: Record<string, unknown>) {
+      this.token = { options, grants: [] };
+      livekit.tokens.push(this.token);
+    }
+    addGrant(grant: Record<string, unknown>) {
+      this.token.grants.push(grant);
+    }
+    async toJwt() {
+      return 'signed-jwt';
+    }
+  },
+}));
+
+function create(overrides: Partial<ApiRequest> = {}) {
+  return callHandler(handler, apiRequest({ body: { user_name: 'Lan', user_id: 'user-1' }, ...overrides }));
+}
+
+describe('POST /api/rooms/create', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    livekit.tokens.length = 0;
+    setRateLimitStore(new MemoryRateLimitStore());
+
+    livekit.listRooms.mockResolvedValue([]);
+    livekit.createRoom.mockImplementation(async ({ name }) => ({ name, sid: 'RM_1', numParticipants: 0 }));
+    livekit.createDispatch.mockResolvedValue({ id: 'AD_1', agentName: '' });
+    livekit.listParticipants.mockResolvedValue([{ identity: 'agent-1' }]);
+    livekit.deleteRoom.mockResolvedValue(undefined);
+  });
+
+  it('rejects other methods with 405', async () => {
+    const result = await create({ method: 'GET' });
+
+    expect(result.statusCode).toBe(405);
+    expect(result.body).toMatchObject({ code: 'METHOD_NOT_ALLOWED' });
+    expect(livekit.createRoom).not.toHaveBeenCalled();
+  });
+
+  it('rejects a missing user_name with 400', async () => {
+    const result = await create({ body: {} });
+
+    expect(result.statusCode).toBe(400);
+    expect(result.body).toMatchObject({ code: 'INVALID_REQUEST', field: 'user_name' });
+  });
+
+  it('rejects identities that would pass as an agent', async () => {
+    const result = await create({ body: { user_name: 'Lan', user_id: 'agent-evil' } });
+
+    expect(result.statusCode).toBe(400);
+    expect(result.body).toMatchObject({ code: 'INVALID_REQUEST', field: 'user_id' });
+  });
+
+  it('rejects an unknown agent_profile with 400', async () => {
+    const result = await create({ body: { user_name: 'Lan', agent_profile: 'premium' } });
+
+    expect(result.statusCode).toBe(400);
+    expect(result.body).toMatchObject({ code: 'INVALID_REQUEST', field: 'agent_profile' });
+  });
+
+  it('creates the room, dispatches the agent and returns a microphone-only token', async () => {
+    const result = await create();
+
+    expect(result.statusCode).toBe(200);
+    expect(result.body).toMatchObject({
+      token: 'signed-jwt',
+      user_id: 'user-1',
+      agent_dispatch: { success: true, dispatchId: 'AD_1', agentJoined: true },
+    });
+
+    const [createOptions] = livekit.createRoom.mock.calls[0];
+    expect(createOptions).toMatchObject({ emptyTimeout: 600, departureTimeout: 20, maxParticipants: 2 });
+    expect(JSON.parse(createOptions.metadata)).toMatchObject({ owner_id: 'user-1', agent_profile: 'default' });
+    expect(livekit.createDispatch).toHaveBeenCalledWith(createOptions.name, '', expect.any(Object));
+
+    expect(livekit.tokens).toHaveLength(1);
+    expect(livekit.tokens[0].options).toMatchObject({ identity: 'user-1', name: 'Lan' });
+    expect(livekit.tokens[0].grants[0]).toMatchObject({
+      room: createOptions.name,
+      canPublishSources: [TrackSource.MICROPHONE],
+      canPublishData: false,
+    });
+  });
+
+  it('applies the room policy of the agent profile', async () => {
+    const before = Date.now();
+    const result = await create({ body: { user_name: 'Lan', user_id: 'user-1', agent_profile: 'support' } });
+
+    expect(result.statusCode).toBe(200);
+    expect(result.body).toMatchObject({ session_limits: { ends_in_seconds: 900, wrap_up_seconds: 120 } });
+
+    const [createOptions] = livekit.createRoom.mock.calls[0];
+    // Extra seats for the observer and the profile's two extra agents
+    expect(createOptions.maxParticipants).toBe(5);
+    const { session } = JSON.parse(createOptions.metadata);
+    expect(session).toMatchObject({ wrap_up_seconds: 120, allow_observer: true });
+    expect(session.expires_at).toBeGreaterThanOrEqual(before + 900_000);
+  });
+
+  it('dispatches the extra agents of the profile and gives each a seat', async () => {
+    livekit.createDispatch
+      .mockResolvedValueOnce({ id: 'AD_1', agentName: 'momo-support' })
+      .mockResolvedValueOnce({ id: 'AD_2', agentName: 'momo-supervisor' })
+      .mockRejectedValueOnce(new Error('agent not registered'));
+
+    const result = await create({ body: { user_name: 'Lan', user_id: 'user-1', agent_profile: 'support' } });
+
+    // A failed extra dispatch does not fail the call
+    expect(result.statusCode).toBe(200);
+    const [createOptions] = livekit.createRoom.mock.calls[0];
+    // User, primary agent, supervisor, standby and the observer
+    expect(createOptions.maxParticipants).toBe(5);
+    expect(livekit.createDispatch.mock.calls.map(([, agentName]) => agentName))
+      .toEqual(['momo-support', 'momo-supervisor', 'momo-support']);
+  });
+
+  it('deletes the room and answers 502 when the dispatch is rejected', async () => {
+    livekit.createDispatch.mockRejectedValue(Object.assign(new Error('agent not registered'), { status: 400 }));
+
+    const result = await create();
+
+    expect(result.statusCode).toBe(502);
+    expect(result.body).toMatchObject({ code: 'DISPATCH_FAILED', agent_dispatch: { success: false, attempts: 1 } });
+    expect(livekit.deleteRoom).toHaveBeenCalledWith(livekit.createRoom.mock.calls[0][0].name);
+    expect(livekit.tokens).toHaveLength(0);
+  });
+
+  it('answers 503 when LiveKit cannot create the room', async () => {
+    livekit.createRoom.mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+    const result = await create();
+
+    expect(result.statusCode).toBe(503);
+    expect(result.body).toMatchObject({ code: 'LIVEKIT_UNAVAILABLE', details: 'connect ECONNREFUSED' });
+    expect(livekit.createDispatch).not.toHaveBeenCalled();
+  });
+
+  it('answers 503 when LiveKit cannot list rooms', async () => {
+    livekit.listRooms.mockRejectedValue(new Error('timeout'));
+
+    const result = await create();
+
+    expect(result.statusCode).toBe(503);
+    expect(result.body).toMatchObject({ code: 'LIVEKIT_UNAVAILABLE' });
+    expect(livekit.createRoom).not.toHaveBeenCalled();
+  });
+
+  describe('callers and limits', () => {
+    const session = (sub: string) => bearer(sessionToken({ sub, name: sub, exp: Math.floor(Date.now() / 1000) + 3600 }, 'host-secret'));
+    const managedRoom = (metadata: Record<string, unknown>) => ({ name: `momo-room-${Math.random()}`, metadata: JSON.stringify(metadata) });
+
+    it('takes the user from a host-app session and ignores user_id in the body', async () => {
+      const result = await create({ headers: session('host-user-1'), body: { user_name: 'Lan', user_id: 'someone-else' } });
+
+      expect(result.statusCode).toBe(200);
+      expect(result.body).toMatchObject({ user_id: 'host-user-1' });
+      expect(livekit.tokens[0].options).toMatchObject({ identity: 'host-user-1' });
+    });
+
+    it('answers 401 for an invalid session or API key instead of treating the caller as anonymous', async () => {
+      const forged = sessionToken({ sub: 'host-user-1', exp: Math.floor(Date.now() / 1000) + 3600 }, 'guessed-secret');
+
+      expect((await create({ headers: bearer(forged) })).statusCode).toBe(401);
+      expect((await create({ headers: { 'x-api-key': 'guessed-key' } })).statusCode).toBe(401);
+      expect(livekit.createRoom).not.toHaveBeenCalled();
+    });
+
+    it('rate limits anonymous callers by address, whatever user_id they send', async () => {
+      for (let i = 0; i < 5; i++) {
+        expect((await create({ body: { user_name: 'Lan', user_id: `user-${i}` } })).statusCode).toBe(200);
+      }
+
+      const result = await create({ body: { user_name: 'Lan', user_id: 'user-fresh' } });
+
+      expect(result.statusCode).toBe(429);
+      expect(result.body).toMatchObject({ code: 'RATE_LIMITED' });
+      expect(Number(result.headers['Retry-After'])).toBeGreaterThan(0);
+    });
+
+    it('rate limits by client IP across users', async () => {
+      for (let i = 0; i < 10; i++) {
+        expect((await create({ headers: session(`host-user-${i}`) })).statusCode).toBe(200);
+      }
+
+      const result = await create({ headers: session('host-user-10') });
+
+      expect(result.statusCode).toBe(429);
+    });
+
+    it('does not hold API key callers to the IP limit', async () => {
+      for (let i = 0; i < 11; i++) {
+        const result = await create({ headers: { 'x-api-key': 'server-key' }, body: { user_name: 'Lan', user_id: `user-${i}` } });
+        expect(result.statusCode).toBe(200);
+      }
+    });
+
+    it('caps the rooms a user holds at once', async () => {
+      livekit.listRooms.mockResolvedValue([
+        managedRoom({ owner_id: 'host-user-1' }),
+        managedRoom({ owner_id: 'host-user-1', quota_key: 'user:host-user-1' }),
+        managedRoom({ owner_id: 'host-user-2' }),
+      ]);
+
+      const capped = await create({ headers: session('host-user-1') });
+      const other = await create({ headers: session('host-user-2') });
+
+      expect(capped.statusCode).toBe(429);
+      expect(capped.body).toMatchObject({ code: 'SESSION_LIMIT', max_active_rooms: 2 });
+      expect(other.statusCode).toBe(200);
+    });
+
+    it('counts the rooms of anonymous callers by address', async () => {
+      await create();
+      const { quota_key: quotaKey } = JSON.parse(livekit.createRoom.mock.calls[0][0].metadata);
+      expect(quotaKey).toMatch(/^ip:[0-9a-f]{16}$/);
+      // Rooms opened under other user ids from the same address
+      livekit.listRooms.mockResolvedValue([
+        managedRoom({ owner_id: 'user-a', quota_key: quotaKey }),
+        managedRoom({ owner_id: 'user-b', quota_key: quotaKey }),
+      ]);
+
+      const sameAddress = await create({ body: { user_name: 'Lan', user_id: 'user-c' } });
+      const otherAddress = await create({ socket: { remoteAddress: '198.51.100.4' } });
+
+      expect(sameAddress.body).toMatchObject({ code: 'SESSION_LIMIT' });
+      expect(otherAddress.statusCode).toBe(200);
+    });
+  });
+});
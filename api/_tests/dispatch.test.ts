@@ -0,0 +1,110 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import handler from '../rooms/dispatch';
+import { MemoryRateLimitStore, setRateLimitStore } from '../_lib/rateLimit';
+import { apiRequest, bearer, callHandler, joinToken } from './helpers';
+
+const livekit = vi.hoisted(() => {
+  process.env.LIVEKIT_API_KEY = 'test-key';
+  process.env.LIVEKIT_API_SECRET = 'test-secret-test-secret-test-secret';
+  process.env.AGENT_API_KEY = 'agent-key';
+  process.env.CREATE_LIMIT_PER_IP = '3';
+
+  return {
+    listRooms: vi.fn(),
+    listParticipants: vi.fn(),
+    createDispatch: vi.fn(),
+  };
+});
+
+vi.mock('livekit-server-sdk', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('livekit-server-sdk')>()),
+  RoomServiceClient: class {
+    listRooms = livekit.listRooms;
+    listParticipants = livekit.listParticipants;
+  },
+  AgentDispatchClient: class {
+    createDispatch = livekit.createDispatch;
+  },
+}));
+
+const ROOM = 'momo-room-1';
+const DISPATCH = { user_name: 'Lan', locale: 'vi-VN', persona: 'default', entry_page: null };
+
+function room() {
+  return { name: ROOM, numParticipants: 1, metadata: JSON.stringify({ owner_id: 'user-1', dispatch: DISPATCH }) };
+}
+
+function redispatch(headers: Record<string, string> = {}) {
+  return callHandler(handler, apiRequest({ headers, body: { room_name: ROOM } }));
+}
+
+describe('POST /api/rooms/dispatch', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setRateLimitStore(new MemoryRateLimitStore());
+    livekit.listRooms.mockResolvedValue([room()]);
+    livekit.listParticipants.mockResolvedValue([{ identity: 'user-1' }]);
+    livekit.createDispatch.mockResolvedValue({ id: 'AD_1', agentName: '' });
+  });
+
+  it('answers 401 without a token for the room', async () => {
+    const anonymous = await redispatch();
+    const otherRoom = await redispatch(bearer(await joinToken('momo-room-2', 'user-1')));
+
+    expect(anonymous.statusCode).toBe(401);
+    expect(otherRoom.statusCode).toBe(401);
+    expect(livekit.createDispatch).not.toHaveBeenCalled();
+  });
+
+  it('answers 403 when the token holder does not own the room', async () => {
+    const result = await redispatch(bearer(await joinToken(ROOM, 'observer-1')));
+
+    expect(result.statusCode).toBe(403);
+    expect(livekit.createDispatch).not.toHaveBeenCalled();
+  });
+
+  it('does not add a second agent when one has joined meanwhile', async () => {
+    livekit.listParticipants.mockResolvedValue([{ identity: 'user-1' }, { identity: 'agent-AJ_1' }]);
+
+    const result = await redispatch(bearer(await joinToken(ROOM, 'user-1')));
+
+    expect(result.statusCode).toBe(200);
+    expect(result.body).toMatchObject({ agent_dispatch: { success: true, agentJoined: true, attempts: 0 } });
+    expect(livekit.createDispatch).not.toHaveBeenCalled();
+  });
+
+  it('re-dispatches with the metadata recorded at creation', async () => {
+    livekit.listParticipants
+      .mockResolvedValueOnce([{ identity: 'user-1' }])
+      .mockResolvedValue([{ identity: 'user-1' }, { identity: 'agent-AJ_1' }]);
+
+    const owner = await redispatch(bearer(await joinToken(ROOM, 'user-1')));
+    const agent = await redispatch({ 'x-agent-key': 'agent-key' });
+
+    expect(owner.statusCode).toBe(200);
+    expect(owner.body).toMatchObject({ agent_dispatch: { success: true, dispatchId: 'AD_1' } });
+    expect(agent.statusCode).toBe(200);
+    expect(livekit.createDispatch).toHaveBeenCalledWith(ROOM, '', { metadata: JSON.stringify(DISPATCH) });
+  });
+
+  it('answers 502 when LiveKit refuses the dispatch', async () => {
+    livekit.createDispatch.mockRejectedValue(Object.assign(new Error('agent not allowed'), { status: 403 }));
+
+    const result = await redispatch(bearer(await joinToken(ROOM, 'user-1')));
+
+    expect(result.statusCode).toBe(502);
+    expect(result.body).toMatchObject({ code: 'DISPATCH_FAILED' });
+  });
+
+  it('rate limits by client IP like room creation', async () => {
+    const headers = bearer(await joinToken(ROOM, 'observer-1'));
+    for (let i = 0; i < 3; i++) {
+      expect((await redispatch(headers)).statusCode).toBe(403);
+    }
+
+    const result = await redispatch(headers);
+
+    expect(result.statusCode).toBe(429);
+    expect(result.headers['Retry-After']).toBeDefined();
+  });
+});
@@ -0,0 +1,99 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import handler from '../rooms/expire';
+import type { ApiRequest } from '../_lib/http';
+import { decodeMessage } from '../../shared/protocol';
+import { apiRequest, bearer, callHandler } from './helpers';
+
+const livekit = vi.hoisted(() => {
+  process.env.LIVEKIT_API_KEY = 'test-key';
+  process.env.LIVEKIT_API_SECRET = 'test-secret';
+  process.env.LIVEKIT_URL = 'https://example.livekit.cloud';
+  process.env.CRON_SECRET = 'cron-secret';
+
+  return {
+    listRooms: vi.fn(),
+    deleteRoom: vi.fn(),
+    sendData: vi.fn(),
+    updateRoomMetadata: vi.fn(),
+  };
+});
+
+vi.mock('livekit-server-sdk', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('livekit-server-sdk')>()),
+  RoomServiceClient: class {
+    listRooms = livekit.listRooms;
+    deleteRoom = livekit.deleteRoom;
+    sendData = livekit.sendData;
+    updateRoomMetadata = livekit.updateRoomMetadata;
+  },
+}));
+
+function sweep(headers: ApiRequest['headers'] = bearer('cron-secret')) {
+  return callHandler(handler, apiRequest({ method: 'GET', headers }));
+}
+
+// Room whose limit is secondsLeft away
+function room(name: string, secondsLeft: number | null, session: Record<string, unknown> = {}) {
+  return {
+    name,
+    metadata: JSON.stringify({
+      owner_id: 'user-1',
+      session: {
+        expires_at: secondsLeft === null ? null : Date.now() + secondsLeft * 1000,
+        wrap_up_seconds: 120,
+        allow_observer: false,
+        ...session,
+      },
+    }),
+  };
+}
+
+describe('/api/rooms/expire', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    livekit.deleteRoom.mockResolvedValue(undefined);
+    livekit.sendData.mockResolvedValue(undefined);
+    livekit.updateRoomMetadata.mockResolvedValue(undefined);
+  });
+
+  it('only runs for Vercel Cron and internal tools', async () => {
+    const result = await sweep(bearer('wrong'));
+
+    expect(result.statusCode).toBe(401);
+    expect(livekit.listRooms).not.toHaveBeenCalled();
+  });
+
+  it('asks the agent to wrap up once, then ends the room at the limit', async () => {
+    livekit.listRooms.mockResolvedValue([
+      room('momo-room-wrap', 90),
+      room('momo-room-told', 30, { wrap_up_sent: true }),
+      room('momo-room-over', -5),
+      room('momo-room-fresh', 1200),
+      room('momo-room-unlimited', null),
+      { name: 'other-room', metadata: '' },
+    ]);
+
+    const result = await sweep();
+
+    expect(result.statusCode).toBe(200);
+    expect(result.body).toEqual({ ended: ['momo-room-over'], wrapped_up: ['momo-room-wrap'], failed: [] });
+    expect(livekit.deleteRoom).toHaveBeenCalledTimes(1);
+
+    const [roomName, payload, , options] = livekit.sendData.mock.calls[0];
+    expect(roomName).toBe('momo-room-wrap');
+    expect(options).toEqual({ topic: 'mogenie.chat' });
+    expect(decodeMessage(payload)).toMatchObject({ type: 'wrap_up', seconds_left: 90 });
+
+    const [, metadata] = livekit.updateRoomMetadata.mock.calls[0];
+    expect(JSON.parse(metadata).session.wrap_up_sent).toBe(true);
+  });
+
+  it('keeps going when one room fails', async () => {
+    livekit.listRooms.mockResolvedValue([room('momo-room-a', 0), room('momo-room-b', 0)]);
+    livekit.deleteRoom.mockRejectedValueOnce(new Error('timeout'));
+
+    const result = await sweep();
+
+    expect(result.body).toEqual({ ended: ['momo-room-b'], wrapped_up: [], failed: ['momo-room-a'] });
+  });
+});
@@ -0,0 +1,62 @@
+// Shared by the route handler tests: a fake request/response pair, real LiveKit join tokens and host-app sessions
+import { createHmac } from 'node:crypto';
+import { AccessToken } from 'livekit-server-sdk';
+import type { ApiHandler, ApiRequest, ApiResponse } from '../_lib/http';
+
+export interface RecordedResponse {
+  statusCode: number;
+  body: unknown;
+  headers: Record<string, string>;
+}
+
+export function apiRequest(overrides: Partial<ApiRequest> = {}): ApiRequest {
+  return {
+    method: 'POST',
+    headers: {},
+    query: {},
+    body: undefined,
+    socket: { remoteAddress: '203.0.113.7' },
+    ...overrides,
+  };
+}
+
+export async function callHandler(handler: ApiHandler, req: ApiRequest): Promise<RecordedResponse> {
+  const recorded: RecordedResponse = { statusCode: 0, body: undefined, headers: {} };
+  const res: ApiResponse = {
+    status(code) {
+      recorded.statusCode = code;
+      return res;
+    },
+    json(body) {
+      recorded.body = body;
+      return res;
+    },
+    setHeader(name, value) {
+      recorded.headers[name] = value;
+      return res;
+    },
+    end() {
+      return res;
+    },
+  };
+  await handler(req, res);
+  return recorded;
+}
+
+// Join token signed with the test's LIVEKIT_API_KEY / LIVEKIT_API_SECRET, as /api/rooms/create issues it
+export function joinToken(roomName: string, identity: string, ttl: string | number = '10m') {
+  const token = new AccessToken(process.env.LIVEKIT_API_KEY, process.env.LIVEKIT_API_SECRET, { identity, name: identity, ttl });
+  token.addGrant({ room: roomName, roomJoin: true, canPublish: true, canSubscribe: true });
+  return token.toJwt();
+}
+
+export function bearer(token: string) {
+  return { authorization: `Bearer ${token}` };
+}
+
+// Host-app session JWT as HOST_SESSION_SECRET expects it; header overrides allow testing other algorithms
+export function sessionToken(claims: Record<string, unknown>, secret: string, header: Record<string, unknown> = { alg: 'HS256', typ: 'JWT' }) {
+  const encode = (part: Record<string, unknown>) => Buffer.from(JSON.stringify(part)).toString('base64url');
+  const unsigned = `${encode(header)}.${encode(claims)}`;
+  return `${unsigned}.${createHmac('sha256', secret).update(unsigned).digest('base64url')}`;
+}
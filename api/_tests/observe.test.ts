@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { TokenVerifier } from 'livekit-server-sdk';
+import handler from '../rooms/observe';
+import { apiRequest, bearer, callHandler, joinToken } from './helpers';
+
+const livekit = vi.hoisted(() => {
+  process.env.LIVEKIT_API_KEY = 'test-key';
+  process.env.LIVEKIT_API_SECRET = 'test-secret-test-secret-test-secret';
+  process.env.LIVEKIT_URL = 'https://example.livekit.cloud';
+  process.env.AGENT_API_KEY = 'agent-key';
+
+  return {
+    listRooms: vi.fn(),
+  };
+});
+
+vi.mock('livekit-server-sdk', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('livekit-server-sdk')>()),
+  RoomServiceClient: class {
+    listRooms = livekit.listRooms;
+  },
+}));
+
+const ROOM = 'momo-room-1';
+const AGENT_KEY = { 'x-agent-key': 'agent-key' };
+
+function room(session?: Record<string, unknown>) {
+  return { name: ROOM, numParticipants: 2, metadata: JSON.stringify({ owner_id: 'user-1', session }) };
+}
+
+function observe(headers: Record<string, string> = {}) {
+  return callHandler(handler, apiRequest({ headers, body: { room_name: ROOM, observer_name: 'Supervisor' } }));
+}
+
+describe('POST /api/rooms/observe', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    livekit.listRooms.mockResolvedValue([room({ allow_observer: true })]);
+  });
+
+  it('answers 401 without credentials and 403 to the room owner', async () => {
+    const anonymous = await observe();
+    const owner = await observe(bearer(await joinToken(ROOM, 'user-1')));
+
+    expect(anonymous.statusCode).toBe(401);
+    expect(owner.statusCode).toBe(403);
+    expect(livekit.listRooms).not.toHaveBeenCalled();
+  });
+
+  it('refuses rooms whose policy leaves no observer seat', async () => {
+    livekit.listRooms.mockResolvedValue([room({ allow_observer: false })]);
+
+    const result = await observe(AGENT_KEY);
+
+    expect(result.statusCode).toBe(403);
+    expect(result.body).toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('answers 404 for a room that does not exist', async () => {
+    livekit.listRooms.mockResolvedValue([]);
+
+    expect((await observe(AGENT_KEY)).statusCode).toBe(404);
+  });
+
+  it('issues a listen-only token with an observer identity', async () => {
+    const result = await observe(AGENT_KEY);
+
+    expect(result.statusCode).toBe(200);
+    const { token, identity } = result.body as { token: string; identity: string };
+    expect(identity).toMatch(/^observer-/);
+    const claims = await new TokenVerifier('test-key', 'test-secret-test-secret-test-secret').verify(token);
+    expect(claims.sub).toBe(identity);
+    expect(claims.video).toMatchObject({ room: ROOM, roomJoin: true, canPublish: false, hidden: true });
+  });
+
+  it('keeps allowing observers in rooms created before policies were recorded', async () => {
+    livekit.listRooms.mockResolvedValue([room()]);
+
+    expect((await observe(AGENT_KEY)).statusCode).toBe(200);
+  });
+});
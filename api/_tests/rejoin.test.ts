@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { TokenVerifier } from 'livekit-server-sdk';
+import handler from '../rooms/rejoin';
+import { MemoryRateLimitStore, setRateLimitStore } from '../_lib/rateLimit';
+import { apiRequest, bearer, callHandler, joinToken } from './helpers';
+
+const livekit = vi.hoisted(() => {
+  process.env.LIVEKIT_API_KEY = 'test-key';
+  process.env.LIVEKIT_API_SECRET = 'test-secret-test-secret-test-secret';
+  process.env.LIVEKIT_URL = 'https://example.livekit.cloud';
+  process.env.AGENT_API_KEY = 'agent-key';
+  process.env.CREATE_LIMIT_PER_IP = '3';
+
+  return {
+    listRooms: vi.fn(),
+    deleteRoom: vi.fn(),
+  };
+});
+
+vi.mock('livekit-server-sdk', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('livekit-server-sdk')>()),
+  RoomServiceClient: class {
+    listRooms = livekit.listRooms;
+    deleteRoom = livekit.deleteRoom;
+  },
+}));
+
+const ROOM = 'momo-room-1';
+
+function room(session: Record<string, unknown> = {}) {
+  return {
+    name: ROOM,
+    numParticipants: 2,
+    metadata: JSON.stringify({
+      owner_id: 'user-1',
+      text_chat: true,
+      session: { expires_at: null, wrap_up_seconds: 120, allow_observer: false, ...session },
+    }),
+  };
+}
+
+async function rejoin(headers: Record<string, string> = {}, body: unknown = { room_name: ROOM, user_name: 'Lan' }) {
+  return callHandler(handler, apiRequest({ headers, body }));
+}
+
+describe('POST /api/rooms/rejoin', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setRateLimitStore(new MemoryRateLimitStore());
+    livekit.listRooms.mockResolvedValue([room()]);
+    livekit.deleteRoom.mockResolvedValue(undefined);
+  });
+
+  it('answers 401 without the previous join token', async () => {
+    const result = await rejoin();
+
+    expect(result.statusCode).toBe(401);
+    expect(livekit.listRooms).not.toHaveBeenCalled();
+  });
+
+  it('answers 401 for a token of another room or a forged token', async () => {
+    const otherRoom = await rejoin(bearer(await joinToken('momo-room-2', 'user-1')));
+    const forged = await rejoin(bearer(`${await joinToken(ROOM, 'user-1')}x`));
+
+    expect(otherRoom.statusCode).toBe(401);
+    expect(forged.statusCode).toBe(401);
+  });
+
+  it('answers 403 when the token holder does not own the room', async () => {
+    const result = await rejoin(bearer(await joinToken(ROOM, 'observer-1')));
+
+    expect(result.statusCode).toBe(403);
+    expect(result.body).toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('answers 403 for the agent key, which has no seat to rejoin', async () => {
+    const result = await rejoin({ 'x-agent-key': 'agent-key' });
+
+    expect(result.statusCode).toBe(403);
+  });
+
+  it('issues a new token for the owner, taking the identity from the old token', async () => {
+    const result = await rejoin(bearer(await joinToken(ROOM, 'user-1', '-5m')), { room_name: ROOM, user_name: 'Lan', user_id: 'user-2' });
+
+    expect(result.statusCode).toBe(200);
+    expect(result.body).toMatchObject({ room_name: ROOM, user_id: 'user-1', livekit_url: 'https://example.livekit.cloud' });
+    const claims = await new TokenVerifier('test-key', 'test-secret-test-secret-test-secret')
+      .verify((result.body as { token: string }).token);
+    expect(claims.sub).toBe('user-1');
+    expect(claims.video).toMatchObject({ room: ROOM, roomJoin: true, canPublishData: true });
+  });
+
+  it('ends a room past its time limit instead of rejoining it', async () => {
+    livekit.listRooms.mockResolvedValue([room({ expires_at: Date.now() - 1000 })]);
+
+    const result = await rejoin(bearer(await joinToken(ROOM, 'user-1')));
+
+    expect(result.statusCode).toBe(404);
+    expect(livekit.deleteRoom).toHaveBeenCalledWith(ROOM);
+  });
+
+  it('rate limits by client IP like room creation', async () => {
+    const headers = bearer(await joinToken(ROOM, 'user-2'));
+    for (let i = 0; i < 3; i++) {
+      expect((await rejoin(headers)).statusCode).toBe(403);
+    }
+
+    const result = await rejoin(headers);
+
+    expect(result.statusCode).toBe(429);
+    expect(result.headers['Retry-After']).toBeDefined();
+  });
+});
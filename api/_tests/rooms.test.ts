@@ -0,0 +1,108 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import listHandler from '../rooms/index';
+import roomHandler from '../rooms/[name]';
+import { apiRequest, bearer, callHandler, joinToken } from './helpers';
+
+const livekit = vi.hoisted(() => {
+  process.env.LIVEKIT_API_KEY = 'test-key';
+  process.env.LIVEKIT_API_SECRET = 'test-secret-test-secret-test-secret';
+  process.env.LIVEKIT_URL = 'https://example.livekit.cloud';
+  process.env.AGENT_API_KEY = 'agent-key';
+  process.env.CRON_SECRET = 'cron-secret';
+
+  return {
+    listRooms: vi.fn(),
+    listParticipants: vi.fn(),
+    deleteRoom: vi.fn(),
+  };
+});
+
+vi.mock('livekit-server-sdk', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('livekit-server-sdk')>()),
+  RoomServiceClient: class {
+    listRooms = livekit.listRooms;
+    listParticipants = livekit.listParticipants;
+    deleteRoom = livekit.deleteRoom;
+  },
+}));
+
+const ROOM = 'momo-room-1';
+const AGENT_KEY = { 'x-agent-key': 'agent-key' };
+
+function room(name = ROOM) {
+  return { name, sid: 'RM_1', numParticipants: 2, metadata: JSON.stringify({ owner_id: 'user-1' }) };
+}
+
+function roomRequest(method: string, headers: Record<string, string> = {}) {
+  return apiRequest({ method, headers, query: { name: ROOM } });
+}
+
+describe('GET /api/rooms', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    livekit.listRooms.mockResolvedValue([room(), room('other-room')]);
+    livekit.listParticipants.mockResolvedValue([{ identity: 'user-1', name: 'Lan' }]);
+  });
+
+  it('answers 401 without the agent key or cron secret, even with a join token', async () => {
+    const anonymous = await callHandler(listHandler, apiRequest({ method: 'GET' }));
+    const participant = await callHandler(listHandler, apiRequest({ method: 'GET', headers: bearer(await joinToken(ROOM, 'user-1')) }));
+
+    expect(anonymous.statusCode).toBe(401);
+    expect(participant.statusCode).toBe(401);
+    expect(livekit.listRooms).not.toHaveBeenCalled();
+  });
+
+  it('lists the managed rooms for internal callers', async () => {
+    const byKey = await callHandler(listHandler, apiRequest({ method: 'GET', headers: AGENT_KEY }));
+    const byCron = await callHandler(listHandler, apiRequest({ method: 'GET', headers: bearer('cron-secret') }));
+
+    expect(byKey.statusCode).toBe(200);
+    expect(byCron.statusCode).toBe(200);
+    expect((byKey.body as { rooms: { room_name: string }[] }).rooms.map((summary) => summary.room_name)).toEqual([ROOM]);
+  });
+});
+
+describe('/api/rooms/:name', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    livekit.listRooms.mockResolvedValue([room()]);
+    livekit.listParticipants.mockResolvedValue([]);
+    livekit.deleteRoom.mockResolvedValue(undefined);
+  });
+
+  it('only lets internal callers inspect a room', async () => {
+    const owner = await callHandler(roomHandler, roomRequest('GET', bearer(await joinToken(ROOM, 'user-1'))));
+    const agent = await callHandler(roomHandler, roomRequest('GET', AGENT_KEY));
+
+    expect(owner.statusCode).toBe(401);
+    expect(agent.statusCode).toBe(200);
+    expect(agent.body).toMatchObject({ room_name: ROOM });
+  });
+
+  it('answers 401 to a delete without credentials or with a token of another room', async () => {
+    const anonymous = await callHandler(roomHandler, roomRequest('DELETE'));
+    const otherRoom = await callHandler(roomHandler, roomRequest('DELETE', bearer(await joinToken('momo-room-2', 'user-1'))));
+
+    expect(anonymous.statusCode).toBe(401);
+    expect(otherRoom.statusCode).toBe(401);
+    expect(livekit.deleteRoom).not.toHaveBeenCalled();
+  });
+
+  it('answers 403 when a participant other than the owner deletes the room', async () => {
+    const result = await callHandler(roomHandler, roomRequest('DELETE', bearer(await joinToken(ROOM, 'observer-1'))));
+
+    expect(result.statusCode).toBe(403);
+    expect(livekit.deleteRoom).not.toHaveBeenCalled();
+  });
+
+  it('lets the owner or the agent key end the call', async () => {
+    const owner = await callHandler(roomHandler, roomRequest('DELETE', bearer(await joinToken(ROOM, 'user-1'))));
+    const agent = await callHandler(roomHandler, roomRequest('DELETE', AGENT_KEY));
+
+    expect(owner.statusCode).toBe(200);
+    expect(agent.statusCode).toBe(200);
+    expect(livekit.deleteRoom).toHaveBeenCalledTimes(2);
+    expect(livekit.deleteRoom).toHaveBeenCalledWith(ROOM);
+  });
+});
@@ -0,0 +1,62 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import handler from '../transcripts/[room]';
+import { MemoryTranscriptStore, setTranscriptStore } from '../_lib/transcripts';
+import { apiRequest, bearer, callHandler, joinToken } from './helpers';
+
+vi.hoisted(() => {
+  process.env.LIVEKIT_API_KEY = 'test-key';
+  process.env.LIVEKIT_API_SECRET = 'test-secret-test-secret-test-secret';
+  process.env.AGENT_API_KEY = 'agent-key';
+});
+
+const ROOM = 'momo-room-1';
+
+function segment(speaker: 'user' | 'agent', segmentId: string, time: number) {
+  return { segment_id: segmentId, speaker, text: `${speaker} ${segmentId}`, final: true, time };
+}
+
+function upload(headers: Record<string, string>, segments: unknown[]) {
+  return callHandler(handler, apiRequest({ headers, query: { room: ROOM }, body: { segments } }));
+}
+
+describe('/api/transcripts/:room', () => {
+  beforeEach(() => {
+    setTranscriptStore(new MemoryTranscriptStore());
+  });
+
+  it('answers 401 without a token for the room', async () => {
+    const anonymous = await upload({}, [segment('user', 'u1', 1)]);
+    const otherRoom = await upload(bearer(await joinToken('momo-room-2', 'user-1')), [segment('user', 'u1', 1)]);
+
+    expect(anonymous.statusCode).toBe(401);
+    expect(otherRoom.statusCode).toBe(401);
+  });
+
+  it('rejects agent segments from a participant', async () => {
+    const result = await upload(bearer(await joinToken(ROOM, 'user-1')), [segment('user', 'u1', 1), segment('agent', 'a1', 2)]);
+
+    expect(result.statusCode).toBe(403);
+    expect(result.body).toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('rejects uploads from observers', async () => {
+    const result = await upload(bearer(await joinToken(ROOM, 'observer-1')), [segment('user', 'u1', 1)]);
+
+    expect(result.statusCode).toBe(403);
+  });
+
+  it('merges both sides into one ordered conversation', async () => {
+    const token = await joinToken(ROOM, 'user-1');
+    expect((await upload(bearer(token), [segment('user', 'u1', 1), segment('user', 'u2', 3)])).statusCode).toBe(200);
+    expect((await upload({ 'x-agent-key': 'agent-key' }, [segment('agent', 'a1', 2)])).statusCode).toBe(200);
+
+    const result = await callHandler(handler, apiRequest({ method: 'GET', headers: bearer(token), query: { room: ROOM } }));
+
+    expect(result.statusCode).toBe(200);
+    expect((result.body as { segments: unknown[] }).segments).toEqual([
+      expect.objectContaining({ segment_id: 'u1', speaker: 'user', submitted_by: 'user-1' }),
+      expect.objectContaining({ segment_id: 'a1', speaker: 'agent', submitted_by: 'agent-key' }),
+      expect.objectContaining({ segment_id: 'u2', speaker: 'user', submitted_by: 'user-1' }),
+    ]);
+  });
+});
@@ -0,0 +1,63 @@
+// api/rooms/[name].ts
+import type { ApiRequest, ApiResponse } from '../_lib/http';
+import { createRoomService, isManagedRoom, parseRoomMetadata, summarizeRoom } from '../_lib/livekit';
+import { authenticateRoomCaller, isInternalCaller } from '../_lib/auth';
+import { errorDetails, sendError } from '../_lib/errors';
+import { handleCors } from '../_lib/cors';
+import { requestLogger } from '../_lib/logger';
+
+// GET inspects a room (agents and internal tools). DELETE ends the call: the agent key, or the owner with
+// the join token of this room.
+export default async function handler(
+  req: ApiRequest,
+  res: ApiResponse
+) {
+  const log = requestLogger(req, res, 'rooms/[name]');
+  if (handleCors(req, res, 'GET, DELETE')) return;
+
+  if (req.method !== 'GET' && req.method !== 'DELETE') {
+    return sendError(res, 405, 'METHOD_NOT_ALLOWED', 'Method not allowed');
+  }
+
+  const roomName = typeof req.query.name === 'string' ? req.query.name : '';
+
+  // Only expose rooms created by /api/rooms/create
+  if (!roomName || !isManagedRoom(roomName)) {
+    return sendError(res, 404, 'NOT_FOUND', 'Room not found');
+  }
+
+  const caller = req.method === 'DELETE'
+    ? await authenticateRoomCaller(req, roomName)
+    : isInternalCaller(req) ? { kind: 'agent' as const } : null;
+  if (!caller) {
+    return sendError(res, 401, 'UNAUTHORIZED', 'Unauthorized');
+  }
+
+  try {
+    const roomService = createRoomService();
+    const [room] = await roomService.listRooms([roomName]);
+
+    if (!room) {
+      return sendError(res, 404, 'NOT_FOUND', 'Room not found');
+    }
+
+    if (req.method === 'DELETE') {
+      // Observers hold a join token for the room too, but only the owner may end the call
+      if (caller.kind === 'participant' && parseRoomMetadata(room)?.owner_id !== caller.identity) {
+        log.warn('Delete rejected, caller does not own room', { roomName, identity: caller.identity });
+        return sendError(res, 403, 'FORBIDDEN', 'Room belongs to another user');
+      }
+      await roomService.deleteRoom(roomName);
+      log.info('Room deleted', { roomName, sid: room.sid });
+      return res.status(200).json({ room_name: roomName, deleted: true });
+    }
+
+    const participants = await roomService.listParticipants(roomName);
+    return res.status(200).json(summarizeRoom(room, participants));
+
+  } catch (error) {
+    log.error('Failed to handle room request', { roomName, error });
+    const message = req.method === 'DELETE' ? 'Failed to delete room' : 'Failed to get room';
+    return sendError(res, 503, 'LIVEKIT_UNAVAILABLE', message, errorDetails(error));
+  }
+}
@@ -1,138 +1,215 @@
 // api/rooms/create.ts
-import { AccessToken, RoomServiceClient, AgentDispatchClient } from 'livekit-server-sdk';
-import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createHash } from 'node:crypto';
+import type { Room } from 'livekit-server-sdk';
+import type { ApiRequest, ApiResponse } from '../_lib/http';
+import {
+  LIVEKIT_URL,
+  ROOM_PREFIX,
+  createRoomService,
+  createParticipantToken,
+  isManagedRoom,
+  parseRoomMetadata,
+  serializeRoomMetadata,
+} from '../_lib/livekit';
+import {
+  DEFAULT_AGENT_PROFILE,
+  dispatchAgent,
+  dispatchExtraAgents,
+  resolveAgentProfile,
+  resolveExtraAgents,
+} from '../_lib/agents';
+import { resolveRoomPolicy, roomOptions, sessionLimits, sessionPolicy } from '../_lib/roomPolicy';
+import { authenticateCreateCaller, clientAddress, type CreateCaller } from '../_lib/auth';
+import { ROOM_IP_RATE_LIMIT, checkRateLimit, type RateLimitRule } from '../_lib/rateLimit';
+import { errorDetails, sendError, sendRateLimited } from '../_lib/errors';
+import { handleCors } from '../_lib/cors';
+import { requestLogger } from '../_lib/logger';
+import {
+  AGENT_PROFILE_RULE,
+  ENTRY_PAGE_RULE,
+  LOCALE_RULE,
+  USER_ID_RULE,
+  USER_NAME_RULE,
+  isJsonObject,
+  isReservedIdentity,
+  parseBody,
+} from '../_lib/validation';
 
-const LIVEKIT_API_KEY = process.env.LIVEKIT_API_KEY!;
-const LIVEKIT_API_SECRET = process.env.LIVEKIT_API_SECRET!;
-const LIVEKIT_URL = process.env.LIVEKIT_URL!;
-// Agent name - leave empty ("") to dispatch to any available agent
-const AGENT_NAME = process.env.AGENT_NAME || '';  
+// Rooms per minute, per client IP (ROOM_IP_RATE_LIMIT) and per user; API key callers share server IPs so
+// only the user limit applies
+const USER_RATE_LIMIT: RateLimitRule = { limit: Number(process.env.CREATE_LIMIT_PER_USER) || 5, windowMs: 60_000 };
+// Rooms a single user may hold at once, each with its own agent
+const MAX_ACTIVE_ROOMS_PER_USER = Number(process.env.MAX_ACTIVE_ROOMS_PER_USER) || 2;
+
+// Who the per-user rate limit and MAX_ACTIVE_ROOMS_PER_USER count against. Anonymous callers choose their
+// own user_id, so they are counted by address; hashed, as room metadata is visible to everyone in the room.
+function quotaKey(caller: CreateCaller, userId: string, req: ApiRequest) {
+  if (caller.kind !== 'anonymous') return `user:${userId}`;
+  return `ip:${createHash('sha256').update(clientAddress(req)).digest('hex').slice(0, 16)}`;
+}
+
+// Rooms created before quota keys were recorded count against their owner
+function roomQuotaKey(room: Room) {
+  const metadata = parseRoomMetadata(room);
+  if (!metadata) return null;
+  return metadata.quota_key ?? `user:${metadata.owner_id}`;
+}
 
 export default async function handler(
-  req: VercelRequest,
-  res: VercelResponse
+  req: ApiRequest,
+  res: ApiResponse
 ) {
+  const log = requestLogger(req, res, 'rooms/create');
+  if (handleCors(req, res, 'POST')) return;
+
   if (req.method !== 'POST') {
-    return res.status(405).json({ error: 'Method not allowed' });
+    return sendError(res, 405, 'METHOD_NOT_ALLOWED', 'Method not allowed');
+  }
+
+  const caller = await authenticateCreateCaller(req);
+  if (!caller) {
+    return sendError(res, 401, 'UNAUTHORIZED', 'Unauthorized');
+  }
+
+  const body = parseBody(req.body, {
+    user_name: USER_NAME_RULE,
+    user_id: USER_ID_RULE,
+    agent_profile: AGENT_PROFILE_RULE,
+    locale: LOCALE_RULE,
+    entry_page: ENTRY_PAGE_RULE,
+  });
+  if (!body.ok) {
+    return sendError(res, 400, 'INVALID_REQUEST', body.error, { field: body.field });
+  }
+  const { user_name, user_id, agent_profile, locale, entry_page } = body.value;
+
+  // Data channel publishing is only granted to sessions that use text chat
+  const textChat = isJsonObject(req.body) ? req.body.text_chat ?? false : false;
+  if (typeof textChat !== 'boolean') {
+    return sendError(res, 400, 'INVALID_REQUEST', 'text_chat must be a boolean', { field: 'text_chat' });
+  }
+
+  const agentProfile = agent_profile ?? DEFAULT_AGENT_PROFILE;
+  if (resolveAgentProfile(agentProfile) === null) {
+    return sendError(res, 400, 'INVALID_REQUEST', 'Unknown agent_profile', { field: 'agent_profile' });
+  }
+
+  // Even a trusted host app must not hand out identities the agent detection would match
+  if (caller.kind === 'session' && isReservedIdentity(caller.userId)) {
+    return sendError(res, 400, 'INVALID_REQUEST', 'Session user id uses a reserved prefix');
   }
 
   try {
-    const { user_name, user_id } = req.body;
 
-    if (!user_name || typeof user_name !== 'string') {
-      return res.status(400).json({ error: 'user_name is required' });
+    const roomName = `${ROOM_PREFIX}${Date.now()}-${Math.random().toString(36).substring(7)}`;
+    // Host-app sessions decide who the user is; other callers may pass their own id
+    const userId = caller.kind === 'session'
+      ? caller.userId
+      : user_id || `user-${Math.random().toString(36).substring(7)}`;
+
+    if (caller.kind !== 'api_key') {
+      const ipLimit = await checkRateLimit(`create:ip:${clientAddress(req)}`, ROOM_IP_RATE_LIMIT);
+      if (!ipLimit.allowed) {
+        log.warn('Room creation rate limited by IP', { caller: caller.kind });
+        return sendRateLimited(res, ipLimit.retryAfter);
+      }
+    }
+    const quota = quotaKey(caller, userId, req);
+    const userLimit = await checkRateLimit(`create:${quota}`, USER_RATE_LIMIT);
+    if (!userLimit.allowed) {
+      log.warn('Room creation rate limited by user', { userId, caller: caller.kind });
+      return sendRateLimited(res, userLimit.retryAfter);
     }
 
-    const roomName = `momo-room-${Date.now()}-${Math.random().toString(36).substring(7)}`;
-    const userId = user_id || `user-${Math.random().toString(36).substring(7)}`;
+    const roomService = createRoomService();
 
-    console.log('🏠 Creating room...', {
-      roomName,
-      userId,
-      userName: user_name,
-      livekitUrl: LIVEKIT_URL,
-      agentName: AGENT_NAME,
-    });
+    // Every room holds an agent, so cap how many one user can keep open
+    let activeRooms;
+    try {
+      activeRooms = (await roomService.listRooms())
+        .filter((room) => isManagedRoom(room.name) && roomQuotaKey(room) === quota);
+    } catch (error) {
+      log.error('LiveKit unavailable while listing rooms', { error });
+      return sendError(res, 503, 'LIVEKIT_UNAVAILABLE', 'Voice service is unavailable', errorDetails(error));
+    }
+    if (activeRooms.length >= MAX_ACTIVE_ROOMS_PER_USER) {
+      log.warn('Too many active rooms for user', { userId, activeRooms: activeRooms.length });
+      return sendError(res, 429, 'SESSION_LIMIT', 'Too many active sessions', {
+        max_active_rooms: MAX_ACTIVE_ROOMS_PER_USER,
+      });
+    }
 
-    const roomService = new RoomServiceClient(
-      LIVEKIT_URL,
-      LIVEKIT_API_KEY,
-      LIVEKIT_API_SECRET
-    );
+    log.info('Creating room', { roomName, userId, agentProfile, caller: caller.kind });
 
-    const roomResult = await roomService.createRoom({
-      name: roomName,
-      emptyTimeout: 600,
-      maxParticipants: 2,
-    });
-    
-    console.log('✅ Room created successfully:', {
-      roomName: roomResult.name,
-      sid: roomResult.sid,
-      numParticipants: roomResult.numParticipants,
-    });
+    const dispatchMetadata = {
+      user_name,
+      locale: locale ?? 'vi-VN',
+      persona: agentProfile,
+      entry_page: entry_page ?? null,
+    };
+    // Participant attributes the agent can read without parsing dispatch metadata
+    const attributes: Record<string, string> = { locale: dispatchMetadata.locale };
+    if (dispatchMetadata.entry_page) attributes.entry_page = dispatchMetadata.entry_page;
+    if (caller.kind === 'session' && caller.plan) attributes.plan = caller.plan;
 
-    // ✅ Dispatch agent to join the room
-    const wsUrl = LIVEKIT_URL.replace('https://', 'wss://').replace('http://', 'ws://');
-    const agentDispatch = new AgentDispatchClient(
-      wsUrl,
-      LIVEKIT_API_KEY,
-      LIVEKIT_API_SECRET
-    );
+    // Timeouts, seats and the call duration limit come from the agent profile's policy
+    const policy = resolveRoomPolicy(agentProfile);
+    const session = sessionPolicy(policy);
+    const extraAgents = resolveExtraAgents(agentProfile);
 
-    let dispatchStatus = { success: false, error: null as string | null, agentName: AGENT_NAME || '(any available)' };
-    
+    let roomResult;
     try {
-      console.log('📤 Attempting to dispatch agent...', {
-        roomName,
-        agentName: AGENT_NAME || '(empty - will pick any available agent)',
-        wsUrl,
-      });
-      const dispatchResult = await agentDispatch.createDispatch(roomName, AGENT_NAME);
-      console.log(`✅ Agent dispatched to room: ${roomName}`, {
-        dispatchResult: JSON.stringify(dispatchResult),
-        dispatchId: dispatchResult?.id,
-        dispatchAgentName: dispatchResult?.agentName,
+      roomResult = await roomService.createRoom({
+        name: roomName,
+        ...roomOptions(policy, extraAgents.length),
+        // Remember who owns the room and which agent it uses, for /api/rooms/rejoin and /api/rooms/dispatch,
+        // and its limits for /api/rooms/expire
+        metadata: serializeRoomMetadata({
+          owner_id: userId,
+          quota_key: quota,
+          agent_profile: agentProfile,
+          dispatch: dispatchMetadata,
+          text_chat: textChat,
+          attributes,
+          session,
+        }),
       });
-      dispatchStatus.success = true;
-    } catch (dispatchError: any) {
-      const errorMessage = dispatchError?.message || String(dispatchError);
-      console.error('❌ Agent dispatch failed:', {
-        error: errorMessage,
-        code: dispatchError?.code,
-        details: dispatchError?.details,
-        stack: dispatchError?.stack,
-        roomName,
-        agentName: AGENT_NAME,
-        wsUrl,
+    } catch (error) {
+      log.error('LiveKit unavailable while creating room', { roomName, error });
+      return sendError(res, 503, 'LIVEKIT_UNAVAILABLE', 'Voice service is unavailable', errorDetails(error));
+    }
+    
+    log.debug('Room created', { roomName: roomResult.name, sid: roomResult.sid });
+
+    // ✅ Dispatch agent to join the room and wait until it is actually there
+    const dispatchStatus = await dispatchAgent(roomService, roomName, agentProfile, dispatchMetadata, log);
+    // A dispatch that was never accepted means no agent will come - don't leave the user in an empty room.
+    // A dispatch that was accepted but hasn't joined yet is fine, the agent might still join late.
+    if (!dispatchStatus.dispatchId) {
+      // Awaited: the function may be frozen as soon as the response is sent
+      await roomService.deleteRoom(roomName).catch((error) => {
+        log.warn('Failed to delete room after dispatch failure', { roomName, error });
       });
-      dispatchStatus.error = errorMessage;
-      // Continue even if dispatch fails - agent might auto-join
+      return sendError(res, 502, 'DISPATCH_FAILED', 'Failed to dispatch agent', { agent_dispatch: dispatchStatus });
     }
 
-    const token = new AccessToken(
-      LIVEKIT_API_KEY,
-      LIVEKIT_API_SECRET,
-      {
-        identity: userId,
-        name: user_name,
-      }
-    );
+    // Supervisor or standby agents for failover, best effort
+    await dispatchExtraAgents(roomName, extraAgents, dispatchMetadata, log);
 
-    token.addGrant({
-      room: roomName,
-      roomJoin: true,
-      canPublish: true,
-      canSubscribe: true,
-    });
+    const jwt = await createParticipantToken(roomName, userId, user_name, { textChat, attributes });
 
-    const jwt = await token.toJwt();
-    
-    console.log('🎫 Token generated:', {
-      roomName,
-      userId,
-      tokenLength: jwt.length,
-      grants: {
-        room: roomName,
-        roomJoin: true,
-        canPublish: true,
-        canSubscribe: true,
-      },
-    });
-
-    console.log('📤 Sending response to client...', { dispatchStatus });
+    log.info('Room ready', { roomName, userId, agentJoined: dispatchStatus.agentJoined, attempts: dispatchStatus.attempts });
     return res.status(200).json({
       room_name: roomName,
       token: jwt,
       livekit_url: LIVEKIT_URL,
+      user_id: userId,
       agent_dispatch: dispatchStatus,
+      session_limits: sessionLimits(session),
     });
 
   } catch (error) {
-    console.error('Error creating room:', error);
-    return res.status(500).json({
-      error: 'Failed to create room',
-      details: error instanceof Error ? error.message : 'Unknown error',
-    });
+    log.error('Failed to create room', { error });
+    return sendError(res, 500, 'INTERNAL_ERROR', 'Failed to create room', errorDetails(error));
   }
 }
@@ -0,0 +1,97 @@
+// api/rooms/dispatch.ts
+import type { ApiRequest, ApiResponse } from '../_lib/http';
+import { createRoomService, isAgentIdentity, isManagedRoom, parseRoomMetadata } from '../_lib/livekit';
+import { DEFAULT_AGENT_PROFILE, dispatchAgent, resolveAgentProfile } from '../_lib/agents';
+import { authenticateRoomCaller, clientAddress } from '../_lib/auth';
+import { errorDetails, sendError, sendRateLimited } from '../_lib/errors';
+import { ROOM_IP_RATE_LIMIT, checkRateLimit } from '../_lib/rateLimit';
+import { handleCors } from '../_lib/cors';
+import { requestLogger } from '../_lib/logger';
+import { ROOM_NAME_RULE, parseBody } from '../_lib/validation';
+
+// Re-dispatches the room's agent when the client's watchdog gives up waiting for it
+export default async function handler(
+  req: ApiRequest,
+  res: ApiResponse
+) {
+  const log = requestLogger(req, res, 'rooms/dispatch');
+  if (handleCors(req, res, 'POST')) return;
+
+  if (req.method !== 'POST') {
+    return sendError(res, 405, 'METHOD_NOT_ALLOWED', 'Method not allowed');
+  }
+
+  // Each dispatch can start an agent, so it shares the room creation budget
+  const ipLimit = await checkRateLimit(`dispatch:ip:${clientAddress(req)}`, ROOM_IP_RATE_LIMIT);
+  if (!ipLimit.allowed) {
+    log.warn('Re-dispatch rate limited by IP');
+    return sendRateLimited(res, ipLimit.retryAfter);
+  }
+
+  const body = parseBody(req.body, { room_name: ROOM_NAME_RULE });
+  if (!body.ok) {
+    return sendError(res, 400, 'INVALID_REQUEST', body.error, { field: body.field });
+  }
+  const { room_name } = body.value;
+  if (!isManagedRoom(room_name)) {
+    return sendError(res, 404, 'NOT_FOUND', 'Room not found');
+  }
+
+  const caller = await authenticateRoomCaller(req, room_name);
+  if (!caller) {
+    return sendError(res, 401, 'UNAUTHORIZED', 'Unauthorized');
+  }
+
+  try {
+    const roomService = createRoomService();
+    const [room] = await roomService.listRooms([room_name]);
+
+    if (!room) {
+      return sendError(res, 404, 'NOT_FOUND', 'Room not found');
+    }
+
+    const metadata = parseRoomMetadata(room);
+    if (caller.kind === 'participant' && metadata?.owner_id !== caller.identity) {
+      return sendError(res, 403, 'FORBIDDEN', 'Room belongs to another user');
+    }
+
+    const profile = metadata?.agent_profile && resolveAgentProfile(metadata.agent_profile) !== null
+      ? metadata.agent_profile
+      : DEFAULT_AGENT_PROFILE;
+
+    // An agent may have joined between the client's last check and this request - don't add a second one
+    const participants = await roomService.listParticipants(room_name);
+    if (participants.some((p) => isAgentIdentity(p.identity))) {
+      log.info('Agent already in room, skipping re-dispatch', { roomName: room_name });
+      return res.status(200).json({
+        agent_dispatch: {
+          success: true,
+          error: null,
+          agentName: resolveAgentProfile(profile) || '(any available)',
+          profile,
+          dispatchId: null,
+          attempts: 0,
+          agentJoined: true,
+        },
+      });
+    }
+
+    log.info('Re-dispatching agent', { roomName: room_name, profile });
+    const dispatchStatus = await dispatchAgent(roomService, room_name, profile, metadata?.dispatch ?? {
+      user_name: caller.kind === 'participant' ? caller.name : '',
+      locale: 'vi-VN',
+      persona: profile,
+      entry_page: null,
+    }, log);
+
+    // Never accepted by LiveKit - the client keeps its retry button
+    if (!dispatchStatus.dispatchId) {
+      return sendError(res, 502, 'DISPATCH_FAILED', 'Failed to dispatch agent', { agent_dispatch: dispatchStatus });
+    }
+    return res.status(200).json({ agent_dispatch: dispatchStatus });
+
+  } catch (error) {
+    log.error('Failed to re-dispatch agent', { roomName: room_name, error });
+    return sendError(res, 503, 'LIVEKIT_UNAVAILABLE', 'Failed to dispatch agent', errorDetails(error));
+  }
+}
@@ -0,0 +1,77 @@
+// api/rooms/expire.ts
+import { DataPacket_Kind } from 'livekit-server-sdk';
+import type { ApiRequest, ApiResponse } from '../_lib/http';
+import {
+  createRoomService,
+  isManagedRoom,
+  parseRoomMetadata,
+  serializeRoomMetadata,
+} from '../_lib/livekit';
+import { isInternalCaller } from '../_lib/auth';
+import { errorDetails, sendError } from '../_lib/errors';
+import { requestLogger } from '../_lib/logger';
+import { secondsLeft } from '../_lib/roomPolicy';
+import { DATA_TOPIC, encodeMessage } from '../../shared/protocol';
+
+// Enforces the call duration limit of the room policy on the server: rooms inside their wrap-up window get a
+// wrap_up message for the agent (clients with the data grant send it too), rooms past their limit are ended.
+// Rooms with a limit need this to run every minute (Vercel Cron on Pro, or an external scheduler); the daily
+// cron in vercel.json only deploys on Hobby and cleans up leftovers, it does not enforce the limit.
+export default async function handler(
+  req: ApiRequest,
+  res: ApiResponse
+) {
+  const log = requestLogger(req, res, 'rooms/expire');
+  // Vercel Cron calls with GET
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return sendError(res, 405, 'METHOD_NOT_ALLOWED', 'Method not allowed');
+  }
+
+  if (!isInternalCaller(req)) {
+    return sendError(res, 401, 'UNAUTHORIZED', 'Unauthorized');
+  }
+
+  const roomService = createRoomService();
+  let rooms;
+  try {
+    rooms = (await roomService.listRooms()).filter((room) => isManagedRoom(room.name));
+  } catch (error) {
+    log.error('Failed to list rooms', { error });
+    return sendError(res, 503, 'LIVEKIT_UNAVAILABLE', 'Failed to list rooms', errorDetails(error));
+  }
+
+  const now = Date.now();
+  const ended: string[] = [];
+  const wrappedUp: string[] = [];
+  const failed: string[] = [];
+
+  // One room failing must not keep the others running past their limit
+  for (const room of rooms) {
+    const metadata = parseRoomMetadata(room);
+    const session = metadata?.session;
+    const left = session ? secondsLeft(session, now) : null;
+    if (!metadata || !session || left === null) continue;
+
+    try {
+      if (left === 0) {
+        await roomService.deleteRoom(room.name);
+        log.info('Room ended at session time limit', { roomName: room.name });
+        ended.push(room.name);
+      } else if (left <= session.wrap_up_seconds && !session.wrap_up_sent) {
+        const message = encodeMessage({ type: 'wrap_up', seconds_left: left });
+        await roomService.sendData(room.name, message, DataPacket_Kind.RELIABLE, { topic: DATA_TOPIC });
+        await roomService.updateRoomMetadata(room.name, serializeRoomMetadata({
+          ...metadata,
+          session: { ...session, wrap_up_sent: true },
+        }));
+        log.info('Agent asked to wrap up', { roomName: room.name, secondsLeft: left });
+        wrappedUp.push(room.name);
+      }
+    } catch (error) {
+      log.error('Failed to enforce session time limit', { roomName: room.name, error });
+      failed.push(room.name);
+    }
+  }
+
+  return res.status(200).json({ ended, wrapped_up: wrappedUp, failed });
+}
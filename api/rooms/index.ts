@@ -0,0 +1,40 @@
+// api/rooms/index.ts
+import type { ApiRequest, ApiResponse } from '../_lib/http';
+import { createRoomService, isManagedRoom, summarizeRoom } from '../_lib/livekit';
+import { isInternalCaller } from '../_lib/auth';
+import { errorDetails, sendError } from '../_lib/errors';
+import { handleCors } from '../_lib/cors';
+import { requestLogger } from '../_lib/logger';
+
+// Every managed room with its participants and owner - for agents and internal tools only
+export default async function handler(
+  req: ApiRequest,
+  res: ApiResponse
+) {
+  const log = requestLogger(req, res, 'rooms');
+  if (handleCors(req, res, 'GET')) return;
+
+  if (req.method !== 'GET') {
+    return sendError(res, 405, 'METHOD_NOT_ALLOWED', 'Method not allowed');
+  }
+
+  if (!isInternalCaller(req)) {
+    return sendError(res, 401, 'UNAUTHORIZED', 'Unauthorized');
+  }
+
+  try {
+    const roomService = createRoomService();
+    const rooms = (await roomService.listRooms()).filter((room) => isManagedRoom(room.name));
+
+    const summaries = await Promise.all(
+      rooms.map(async (room) => summarizeRoom(room, await roomService.listParticipants(room.name)))
+    );
+
+    log.debug('Listed live rooms', { count: summaries.length });
+    return res.status(200).json({ rooms: summaries });
+
+  } catch (error) {
+    log.error('Failed to list rooms', { error });
+    return sendError(res, 503, 'LIVEKIT_UNAVAILABLE', 'Failed to list rooms', errorDetails(error));
+  }
+}
@@ -0,0 +1,74 @@
+// api/rooms/observe.ts
+import type { ApiRequest, ApiResponse } from '../_lib/http';
+import {
+  LIVEKIT_URL,
+  OBSERVER_IDENTITY_PREFIX,
+  createRoomService,
+  createParticipantToken,
+  isManagedRoom,
+  parseRoomMetadata,
+} from '../_lib/livekit';
+import { authenticateRoomCaller } from '../_lib/auth';
+import { errorDetails, sendError } from '../_lib/errors';
+import { requestLogger } from '../_lib/logger';
+import { ROOM_NAME_RULE, USER_NAME_RULE, parseBody } from '../_lib/validation';
+
+// Issues a listen-only, hidden token so a supervisor can follow a live call. Internal tools only (X-Agent-Key).
+export default async function handler(
+  req: ApiRequest,
+  res: ApiResponse
+) {
+  const log = requestLogger(req, res, 'rooms/observe');
+  if (req.method !== 'POST') {
+    return sendError(res, 405, 'METHOD_NOT_ALLOWED', 'Method not allowed');
+  }
+
+  const body = parseBody(req.body, { room_name: ROOM_NAME_RULE, observer_name: USER_NAME_RULE });
+  if (!body.ok) {
+    return sendError(res, 400, 'INVALID_REQUEST', body.error, { field: body.field });
+  }
+  const { room_name, observer_name } = body.value;
+
+  if (!isManagedRoom(room_name)) {
+    return sendError(res, 404, 'NOT_FOUND', 'Room not found');
+  }
+
+  const caller = await authenticateRoomCaller(req, room_name);
+  if (!caller) {
+    return sendError(res, 401, 'UNAUTHORIZED', 'Unauthorized');
+  }
+  if (caller.kind !== 'agent') {
+    return sendError(res, 403, 'FORBIDDEN', 'Only internal tools may observe rooms');
+  }
+
+  try {
+    const roomService = createRoomService();
+    const [room] = await roomService.listRooms([room_name]);
+
+    if (!room) {
+      return sendError(res, 404, 'NOT_FOUND', 'Room not found');
+    }
+
+    // Without the extra seat of allow_observer the room would turn the observer away; rooms created
+    // before policies were recorded keep allowing it
+    if (parseRoomMetadata(room)?.session?.allow_observer === false) {
+      return sendError(res, 403, 'FORBIDDEN', 'Room policy does not allow observers');
+    }
+
+    const identity = `${OBSERVER_IDENTITY_PREFIX}${Math.random().toString(36).substring(2, 10)}`;
+    const jwt = await createParticipantToken(room_name, identity, observer_name, { profile: 'observer' });
+
+    log.info('Observer token issued', { roomName: room_name, identity });
+
+    return res.status(200).json({
+      room_name,
+      token: jwt,
+      livekit_url: LIVEKIT_URL,
+      identity,
+    });
+
+  } catch (error) {
+    log.error('Failed to create observer token', { roomName: room_name, error });
+    return sendError(res, 503, 'LIVEKIT_UNAVAILABLE', 'Failed to create observer token', errorDetails(error));
+  }
+}
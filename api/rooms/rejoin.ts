@@ -0,0 +1,106 @@
+// api/rooms/rejoin.ts
+import type { ApiRequest, ApiResponse } from '../_lib/http';
+import {
+  LIVEKIT_URL,
+  createRoomService,
+  createParticipantToken,
+  isManagedRoom,
+  parseRoomMetadata,
+} from '../_lib/livekit';
+import { authenticateRoomCaller, clientAddress } from '../_lib/auth';
+import { errorDetails, sendError, sendRateLimited } from '../_lib/errors';
+import { ROOM_IP_RATE_LIMIT, checkRateLimit } from '../_lib/rateLimit';
+import { isExpired, sessionLimits } from '../_lib/roomPolicy';
+import { handleCors } from '../_lib/cors';
+import { requestLogger } from '../_lib/logger';
+import { ROOM_NAME_RULE, USER_NAME_RULE, parseBody } from '../_lib/validation';
+
+// Issues a fresh join token for a room the caller already had a seat in. The caller proves it with its
+// previous join token (Authorization: Bearer, accepted within ROOM_API_TOKEN_GRACE of its expiry); the
+// new token is for the same identity, which must be the room's owner.
+export default async function handler(
+  req: ApiRequest,
+  res: ApiResponse
+) {
+  const log = requestLogger(req, res, 'rooms/rejoin');
+  if (handleCors(req, res, 'POST')) return;
+
+  if (req.method !== 'POST') {
+    return sendError(res, 405, 'METHOD_NOT_ALLOWED', 'Method not allowed');
+  }
+
+  // Same budget as room creation, so stolen or guessed tokens can't be tried at speed
+  const ipLimit = await checkRateLimit(`rejoin:ip:${clientAddress(req)}`, ROOM_IP_RATE_LIMIT);
+  if (!ipLimit.allowed) {
+    log.warn('Rejoin rate limited by IP');
+    return sendRateLimited(res, ipLimit.retryAfter);
+  }
+
+  const body = parseBody(req.body, {
+    room_name: ROOM_NAME_RULE,
+    user_name: USER_NAME_RULE,
+  });
+  if (!body.ok) {
+    return sendError(res, 400, 'INVALID_REQUEST', body.error, { field: body.field });
+  }
+  const { room_name, user_name } = body.value;
+
+  if (!isManagedRoom(room_name)) {
+    return sendError(res, 404, 'NOT_FOUND', 'Room not found');
+  }
+
+  const caller = await authenticateRoomCaller(req, room_name);
+  if (!caller) {
+    return sendError(res, 401, 'UNAUTHORIZED', 'Unauthorized');
+  }
+  if (caller.kind !== 'participant') {
+    return sendError(res, 403, 'FORBIDDEN', 'Only the room owner may rejoin');
+  }
+  const user_id = caller.identity;
+
+  try {
+    const roomService = createRoomService();
+    const [room] = await roomService.listRooms([room_name]);
+
+    // Room already closed (emptyTimeout fired or it was deleted) - client must start over
+    if (!room) {
+      return sendError(res, 404, 'NOT_FOUND', 'Room not found');
+    }
+
+    const metadata = parseRoomMetadata(room);
+    // Observers and other participants hold valid tokens for the room too
+    if (!metadata || metadata.owner_id !== user_id) {
+      log.warn('Rejoin rejected, user does not own room', { roomName: room_name, userId: user_id });
+      return sendError(res, 403, 'FORBIDDEN', 'Room belongs to another user');
+    }
+
+    // Rejoining must not extend a call past its limit; end the room in case the sweep has not yet
+    if (isExpired(metadata.session)) {
+      log.info('Rejoin rejected, session time limit reached', { roomName: room_name, userId: user_id });
+      await roomService.deleteRoom(room_name).catch((error) => {
+        log.warn('Failed to delete expired room', { roomName: room_name, error });
+      });
+      return sendError(res, 404, 'NOT_FOUND', 'Session time limit reached');
+    }
+
+    // Same grants as the original token; rooms created before grants were recorded keep data publishing
+    const jwt = await createParticipantToken(room_name, user_id, user_name, {
+      textChat: metadata.text_chat ?? true,
+      attributes: metadata.attributes,
+    });
+
+    log.info('Rejoin token issued', { roomName: room_name, userId: user_id, numParticipants: room.numParticipants });
+
+    return res.status(200).json({
+      room_name,
+      token: jwt,
+      livekit_url: LIVEKIT_URL,
+      user_id,
+      session_limits: sessionLimits(metadata.session),
+    });
+
+  } catch (error) {
+    log.error('Failed to rejoin room', { error });
+    return sendError(res, 503, 'LIVEKIT_UNAVAILABLE', 'Failed to rejoin room', errorDetails(error));
+  }
+}
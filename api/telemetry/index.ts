@@ -0,0 +1,44 @@
+// api/telemetry/index.ts
+import { headerValue, type ApiRequest, type ApiResponse } from '../_lib/http';
+import { isManagedRoom } from '../_lib/livekit';
+import { authenticateRoomCaller } from '../_lib/auth';
+import { parseTelemetry, writeTelemetry } from '../_lib/telemetry';
+import { sendError } from '../_lib/errors';
+import { handleCors } from '../_lib/cors';
+import { requestLogger } from '../_lib/logger';
+
+// Call quality summary, posted once by the client when a call ends (see TELEMETRY_SINKS)
+export default async function handler(
+  req: ApiRequest,
+  res: ApiResponse
+) {
+  const log = requestLogger(req, res, 'telemetry');
+  if (handleCors(req, res, 'POST')) return;
+
+  if (req.method !== 'POST') {
+    return sendError(res, 405, 'METHOD_NOT_ALLOWED', 'Method not allowed');
+  }
+
+  const summary = parseTelemetry(req.body);
+  if (typeof summary === 'string') {
+    return sendError(res, 400, 'INVALID_REQUEST', summary);
+  }
+  if (!isManagedRoom(summary.room_name)) {
+    return sendError(res, 404, 'NOT_FOUND', 'Room not found');
+  }
+
+  const caller = await authenticateRoomCaller(req, summary.room_name);
+  if (!caller) {
+    return sendError(res, 401, 'UNAUTHORIZED', 'Unauthorized');
+  }
+
+  const failed = await writeTelemetry({
+    ...summary,
+    identity: caller.kind === 'agent' ? 'agent-key' : caller.identity,
+    user_agent: headerValue(req, 'user-agent')?.slice(0, 256) ?? null,
+    received_at: Date.now(),
+  }, log);
+
+  // Telemetry is best effort: a broken sink is logged, the client has nothing to retry
+  return res.status(202).json({ accepted: true, failed_sinks: failed });
+}
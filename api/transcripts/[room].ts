@@ -0,0 +1,73 @@
+// api/transcripts/[room].ts
+import type { ApiRequest, ApiResponse } from '../_lib/http';
+import { isManagedRoom } from '../_lib/livekit';
+import { authenticateRoomCaller } from '../_lib/auth';
+import { isReservedIdentity } from '../_lib/validation';
+import { collapseSegments, getTranscriptStore, parseSegments } from '../_lib/transcripts';
+import { errorDetails, sendError } from '../_lib/errors';
+import { handleCors } from '../_lib/cors';
+import { requestLogger } from '../_lib/logger';
+
+// Participants may only upload their own speech; agent segments need the agent key, so a caller can't put
+// words in the agent's mouth
+export default async function handler(
+  req: ApiRequest,
+  res: ApiResponse
+) {
+  const log = requestLogger(req, res, 'transcripts/[room]');
+  if (handleCors(req, res, 'GET, POST')) return;
+
+  if (req.method !== 'POST' && req.method !== 'GET') {
+    return sendError(res, 405, 'METHOD_NOT_ALLOWED', 'Method not allowed');
+  }
+
+  const roomName = typeof req.query.room === 'string' ? req.query.room : '';
+  if (!roomName || !isManagedRoom(roomName)) {
+    return sendError(res, 404, 'NOT_FOUND', 'Room not found');
+  }
+
+  const caller = await authenticateRoomCaller(req, roomName);
+  if (!caller) {
+    return sendError(res, 401, 'UNAUTHORIZED', 'Unauthorized');
+  }
+
+  try {
+    const store = getTranscriptStore();
+
+    if (req.method === 'GET') {
+      const segments = collapseSegments(await store.read(roomName));
+      return res.status(200).json({ room_name: roomName, segments });
+    }
+
+    const segments = parseSegments(req.body);
+    if (typeof segments === 'string') {
+      return sendError(res, 400, 'INVALID_REQUEST', segments);
+    }
+
+    if (caller.kind === 'participant') {
+      if (isReservedIdentity(caller.identity)) {
+        return sendError(res, 403, 'FORBIDDEN', 'Observers may not upload transcript segments');
+      }
+      if (segments.some((segment) => segment.speaker !== 'user')) {
+        log.warn('Rejected agent segments from a participant', { roomName, identity: caller.identity });
+        return sendError(res, 403, 'FORBIDDEN', 'Only the agent may upload agent segments');
+      }
+    }
+
+    const submittedBy = caller.kind === 'agent' ? 'agent-key' : caller.identity;
+    const receivedAt = Date.now();
+    await store.append(roomName, segments.map((segment) => ({
+      ...segment,
+      submitted_by: submittedBy,
+      received_at: receivedAt,
+    })));
+
+    log.info('Transcript segments stored', { roomName, count: segments.length, submittedBy });
+    return res.status(200).json({ room_name: roomName, accepted: segments.length });
+
+  } catch (error) {
+    log.error('Failed to handle transcript request', { roomName, error });
+    const message = req.method === 'GET' ? 'Failed to read transcript' : 'Failed to store transcript';
+    return sendError(res, 500, 'INTERNAL_ERROR', message, errorDetails(error));
+  }
+}
@@ -0,0 +1,98 @@
+// src/components/ConversationHistory.tsx
+import { useEffect, useState } from 'react';
+import { deleteConversation, listConversations, type ConversationRecord } from '../lib/history';
+import { downloadConversation, type ExportFormat } from '../lib/export';
+import { formatTimestamp } from '../lib/transcript';
+import { getLocale, type MessageKey } from '../lib/i18n';
+import { createLogger } from '../lib/logger';
+import { useLanguage } from '../hooks/useLanguage';
+
+const log = createLogger('history');
+
+const EXPORT_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'json', label: 'JSON' },
+  { format: 'md', label: 'Markdown' },
+  { format: 'srt', label: 'SRT' },
+  { format: 'vtt', label: 'WebVTT' },
+];
+
+interface ConversationHistoryProps {
+  onClose: () => void;
+}
+
+export default function ConversationHistory({ onClose }: ConversationHistoryProps) {
+  const { language, t } = useLanguage();
+  const [conversations, setConversations] = useState<ConversationRecord[] | null>(null);
+  // Catalog key, so the message follows a language switch
+  const [error, setError] = useState<MessageKey | null>(null);
+
+  useEffect(() => {
+    listConversations()
+      .then(setConversations)
+      .catch((err) => {
+        log.error('Failed to load conversation history', err);
+        setError('history.loadFailed');
+      });
+  }, []);
+
+  const remove = async (roomName: string) => {
+    try {
+      await deleteConversation(roomName);
+      setConversations(prev => prev?.filter((c) => c.room_name !== roomName) ?? null);
+    } catch (err) {
+      log.error('Failed to delete conversation', err);
+      setError('history.deleteFailed');
+    }
+  };
+
+  return (
+    <div className="history-section">
+      <div className="history-header">
+        <h2>{t('history.title')}</h2>
+        <button onClick={onClose} className="btn-link">{t('common.close')}</button>
+      </div>
+
+      {error && (
+        <div className="error-box">
+          <p className="error-message">{t(error)}</p>
+        </div>
+      )}
+
+      {conversations === null && !error && <p className="hint">{t('common.loading')}</p>}
+
+      {conversations?.length === 0 && <p className="hint">{t('history.empty')}</p>}
+
+      {conversations && conversations.length > 0 && (
+        <ul className="history-list">
+          {conversations.map((conversation) => {
+            const minutes = conversation.ended_at
+              ? Math.max(1, Math.round((conversation.ended_at - conversation.started_at) / 60000))
+              : null;
+
+            return (
+              <li key={conversation.room_name} className="history-item">
+                <div className="history-meta">
+                  <span className="history-date">{formatTimestamp(new Date(conversation.started_at), getLocale(language))}</span>
+                  <span>
+                    {t('history.messages', { count: conversation.messages.length })}
+                    {minutes !== null && ` · ${t('history.minutes', { count: minutes })}`}
+                  </span>
+                </div>
+                <div className="history-actions">
+                  {EXPORT_FORMATS.map(({ format, label }) => (
+                    <button key={format} onClick={() => downloadConversation(conversation, format)} className="btn-chip">
+                      {label}
+                    </button>
+                  ))}
+                  <button onClick={() => remove(conversation.room_name)} className="btn-chip danger" title={t('history.delete')}>
+                    {t('history.delete')}
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+// src/components/DeviceSettings.tsx
+import { useEffect, useState } from 'react';
+import {
+  MicrophoneError,
+  checkMicrophone,
+  playTestSound,
+  supportsOutputSelection,
+  toMicrophoneError,
+  type AudioDevicePreferences,
+} from '../lib/audioDevices';
+import type { VoiceSession } from '../lib/voiceSession';
+import { useAudioDevices } from '../hooks/useAudioDevices';
+import { useMicrophoneLevel } from '../hooks/useMicrophoneLevel';
+import { useAudioLevels } from '../hooks/useAudioLevels';
+import { useLanguage } from '../hooks/useLanguage';
+import { createLogger } from '../lib/logger';
+
+const log = createLogger('devices');
+
+interface DeviceSettingsProps {
+  session: VoiceSession;
+  audioDevices: AudioDevicePreferences;
+  // In a call the microphone is already open, so the permission check is skipped
+  inCall: boolean;
+  onClose: () => void;
+}
+
+type MicCheck =
+  | { status: 'checking' }
+  | { status: 'ok' }
+  | { status: 'failed'; error: MicrophoneError };
+
+// The selected id may belong to a device that is unplugged right now
+function selectedDevice(devices: MediaDeviceInfo[], deviceId: string | undefined) {
+  return devices.some((device) => device.deviceId === deviceId) ? deviceId : devices[0]?.deviceId ?? '';
+}
+
+export default function DeviceSettings({ session, audioDevices, inCall, onClose }: DeviceSettingsProps) {
+  const { t } = useLanguage();
+  const [check, setCheck] = useState<MicCheck>(inCall ? { status: 'ok' } : { status: 'checking' });
+  const [attempt, setAttempt] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const ready = check.status === 'ok';
+  const { inputs, outputs } = useAudioDevices(ready);
+  // In a call the session already meters the published microphone track
+  const preCallLevel = useMicrophoneLevel(ready && !inCall, audioDevices.audioinput);
+  const callLevels = useAudioLevels(session);
+  const level = inCall ? callLevels.user : preCallLevel;
+
+  useEffect(() => {
+    if (inCall) return;
+
+    let cancelled = false;
+    checkMicrophone(audioDevices.audioinput)
+      .then(() => {
+        if (!cancelled) setCheck({ status: 'ok' });
+      })
+      .catch((err) => {
+        log.warn('Microphone check failed', err);
+        if (!cancelled) setCheck({ status: 'failed', error: err instanceof MicrophoneError ? err : toMicrophoneError(err) });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [inCall, audioDevices.audioinput, attempt]);
+
+  const retry = () => {
+    setCheck({ status: 'checking' });
+    setAttempt((n) => n + 1);
+  };
+
+  const testSound = async () => {
+    setPlaying(true);
+    try {
+      await playTestSound(audioDevices.audiooutput);
+    } catch (err) {
+      log.warn('Test sound failed', err);
+    } finally {
+      setPlaying(false);
+    }
+  };
+
+  return (
+    <div className={`device-settings${inCall ? ' in-call' : ''}`}>
+      <div className="history-header">
+        <h2>{t('devices.title')}</h2>
+        <button onClick={onClose} className="btn-link">{t('common.close')}</button>
+      </div>
+
+      {check.status === 'checking' && <p className="hint">{t('devices.checking')}</p>}
+
+      {check.status === 'failed' && (
+        <div className="error-box">
+          <p className="error-title">{t('error.microphoneTitle')}</p>
+          <p className="error-message">{t(`microphone.${check.error.code}`)}</p>
+          <button onClick={retry} className="btn-retry">{t('common.retry')}</button>
+        </div>
+      )}
+
+      {ready && (
+        <>
+          <label className="device-field">
+            {t('devices.microphone')}
+            <select
+              value={selectedDevice(inputs, audioDevices.audioinput)}
+              onChange={(e) => session.setAudioDevice('audioinput', e.target.value)}
+            >
+              {inputs.map((device) => (
+                <option key={device.deviceId} value={device.deviceId}>{device.label || t('devices.microphone')}</option>
+              ))}
+            </select>
+          </label>
+
+          <div className="input-meter" role="meter" aria-label={t('devices.inputLevel')} aria-valuemin={0} aria-valuemax={1} aria-valuenow={level}>
+            <div className="input-meter-fill" style={{ width: `${Math.min(100, level * 250)}%` }} />
+          </div>
+          <p className="hint">{t('devices.speakHint')}</p>
+
+          {supportsOutputSelection() && outputs.length > 0 && (
+            <label className="device-field">
+              {t('devices.speaker')}
+              <select
+                value={selectedDevice(outputs, audioDevices.audiooutput)}
+                onChange={(e) => session.setAudioDevice('audiooutput', e.target.value)}
+              >
+                {outputs.map((device) => (
+                  <option key={device.deviceId} value={device.deviceId}>{device.label || t('devices.speaker')}</option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          <button onClick={testSound} disabled={playing} className="btn-secondary">
+            {playing ? t('devices.playing') : t('devices.testSound')}
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,355 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ComponentProps } from 'react';
+import { act, cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { DisconnectReason, RoomEvent, Track } from 'livekit-client';
+import VoiceChat from './VoiceChat';
+import { ApiError, createRoom, endRoom, uploadTranscript } from '../lib/api';
+import { encodeMessage, type AgentMessage } from '../lib/protocol';
+import { MicrophoneError, checkMicrophone } from '../lib/audioDevices';
+import { setLanguage } from '../lib/i18n';
+import { formatTimestamp } from '../lib/transcript';
+import { FakeParticipant, fakeRooms } from '../test/fakeLivekit';
+
+vi.mock('livekit-client', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('livekit-client')>()),
+  Room: (await import('../test/fakeLivekit')).FakeRoom,
+}));
+
+vi.mock('../lib/api', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../lib/api')>()),
+  createRoom: vi.fn(),
+  endRoom: vi.fn(),
+  uploadTranscript: vi.fn(),
+  sendTelemetry: vi.fn(async () => undefined),
+  redispatchAgent: vi.fn(),
+}));
+
+// jsdom has no IndexedDB
+vi.mock('../lib/history', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../lib/history')>()),
+  saveConversation: vi.fn(async () => undefined),
+  getConversation: vi.fn(async () => null),
+  listConversations: vi.fn(async () => []),
+}));
+
+// jsdom has no getUserMedia; the pre-call check passes unless a test says otherwise
+vi.mock('../lib/audioDevices', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../lib/audioDevices')>()),
+  checkMicrophone: vi.fn(async () => undefined),
+}));
+
+const createRoomMock = vi.mocked(createRoom);
+
+async function startCall(props: ComponentProps<typeof VoiceChat> = {}) {
+  render(<VoiceChat {...props} />);
+  await act(async () => {
+    fireEvent.click(screen.getByText('Bắt Đầu Cuộc Trò chuyện'));
+  });
+  const room = fakeRooms[fakeRooms.length - 1];
+  return room;
+}
+
+function send(participant: FakeParticipant, message: AgentMessage) {
+  act(() => {
+    participant.emit('dataReceived', encodeMessage(message));
+  });
+}
+
+describe('VoiceChat', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    fakeRooms.length = 0;
+    sessionStorage.clear();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(HTMLMediaElement.prototype, 'play').mockResolvedValue(undefined);
+    vi.mocked(endRoom).mockResolvedValue(undefined);
+    vi.mocked(uploadTranscript).mockResolvedValue(undefined);
+    createRoomMock.mockResolvedValue({
+      room_name: 'momo-room-1',
+      token: 'token',
+      livekit_url: 'ws://localhost:7880',
+      user_id: 'user-1',
+    });
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.useRealTimers();
+    setLanguage('vi');
+    vi.restoreAllMocks();
+    document.querySelectorAll('audio').forEach((element) => element.remove());
+  });
+
+  it('waits for the agent, then becomes usable once its audio arrives', async () => {
+    const room = await startCall();
+    const agent = new FakeParticipant('agent-A');
+
+    act(() => room.emit(RoomEvent.Connected));
+    expect(screen.getByText('Đang chờ Mogenie tham gia...')).toBeTruthy();
+
+    act(() => {
+      room.addParticipant(agent);
+      room.emit(RoomEvent.ParticipantConnected, agent);
+    });
+    expect(screen.getByText('Mogenie đang chuẩn bị...')).toBeTruthy();
+
+    act(() => {
+      room.subscribeAudio(agent);
+    });
+    expect(screen.getByText('Bắt đầu nói')).toBeTruthy();
+    expect(document.querySelectorAll('audio')).toHaveLength(1);
+  });
+
+  it('renders agent and user transcript segments', async () => {
+    const room = await startCall();
+    const agent = new FakeParticipant('agent-A');
+    room.addParticipant(agent);
+    act(() => room.emit(RoomEvent.Connected));
+
+    send(agent, { type: 'user_transcript', text: 'Xin chào', segment_id: 'u1', final: true });
+    send(agent, { type: 'bot_message', text: 'Chào bạn, mình là Mogenie', segment_id: 'b1', final: false });
+    send(agent, { type: 'bot_message', text: 'Chào bạn, mình là Mogenie!', segment_id: 'b1', final: true });
+
+    const messages = document.querySelectorAll('.transcript-message');
+    expect(messages).toHaveLength(2);
+    expect(messages[0].className).toContain('user');
+    expect(messages[0].textContent).toContain('Xin chào');
+    expect(messages[1].className).toContain('agent');
+    expect(messages[1].className).not.toContain('interim');
+    expect(messages[1].textContent).toContain('Chào bạn, mình là Mogenie!');
+  });
+
+  it('formats transcript times in the current language, also after switching it', async () => {
+    vi.useFakeTimers({ now: Date.UTC(2026, 0, 25, 9, 30, 0), toFake: ['Date'] });
+    const room = await startCall();
+    const agent = new FakeParticipant('agent-A');
+    room.addParticipant(agent);
+    act(() => room.emit(RoomEvent.Connected));
+    send(agent, { type: 'user_transcript', text: 'Xin chào', segment_id: 'u1', final: true });
+    const time = new Date(Date.UTC(2026, 0, 25, 9, 30, 0));
+    const timestamp = () => document.querySelector('.transcript-timestamp')?.textContent;
+    expect(timestamp()).toBe(`Bạn · ${formatTimestamp(time, 'vi-VN')}`);
+
+    fireEvent.change(screen.getByLabelText('Ngôn ngữ'), { target: { value: 'en' } });
+
+    expect(timestamp()).toBe(`You · ${formatTimestamp(time, 'en-US')}`);
+  });
+
+  it('only plays and shows the primary agent', async () => {
+    const room = await startCall();
+    const primary = new FakeParticipant('agent-A');
+    const second = new FakeParticipant('agent-B');
+    room.addParticipant(primary);
+    room.addParticipant(second);
+    act(() => room.emit(RoomEvent.Connected));
+
+    act(() => {
+      room.subscribeAudio(primary);
+      room.subscribeAudio(second);
+    });
+    expect(document.querySelectorAll('audio')).toHaveLength(1);
+
+    send(second, { type: 'bot_message', text: 'Tin nhắn trùng lặp', segment_id: 'x1' });
+    expect(screen.queryByText('Tin nhắn trùng lặp')).toBeNull();
+
+    act(() => room.emit(RoomEvent.ActiveSpeakersChanged, [second]));
+    expect(screen.queryByText('Agent đang suy nghĩ và trả lời...')).toBeNull();
+
+    act(() => room.emit(RoomEvent.ActiveSpeakersChanged, [primary]));
+    expect(screen.getByText('Agent đang suy nghĩ và trả lời...')).toBeTruthy();
+  });
+
+  it('hands the call to the standby agent when the primary leaves', async () => {
+    const room = await startCall();
+    const primary = new FakeParticipant('agent-A');
+    const standby = new FakeParticipant('agent-B');
+    room.addParticipant(primary);
+    room.addParticipant(standby);
+    act(() => room.emit(RoomEvent.Connected));
+    act(() => {
+      room.subscribeAudio(primary);
+      room.subscribeAudio(standby);
+    });
+
+    act(() => {
+      room.remoteParticipants.delete(primary.identity);
+      room.emit(RoomEvent.ParticipantDisconnected, primary);
+    });
+
+    expect(screen.getByText('Đã chuyển cuộc trò chuyện sang agent khác')).toBeTruthy();
+    expect(document.querySelectorAll('audio')).toHaveLength(2);
+
+    send(standby, { type: 'bot_message', text: 'Mình tiếp tục hỗ trợ bạn nhé', segment_id: 'b2' });
+    expect(screen.getByText('Mình tiếp tục hỗ trợ bạn nhé')).toBeTruthy();
+  });
+
+  it('removes agent audio elements and returns to the start screen when the call ends', async () => {
+    const room = await startCall();
+    const agent = new FakeParticipant('agent-A');
+    room.addParticipant(agent);
+    act(() => room.emit(RoomEvent.Connected));
+    act(() => {
+      room.subscribeAudio(agent);
+    });
+    expect(document.querySelectorAll('audio')).toHaveLength(1);
+
+    await act(async () => {
+      fireEvent.click(screen.getByTitle('Kết thúc'));
+    });
+
+    expect(document.querySelectorAll('audio')).toHaveLength(0);
+    expect(screen.getByText('Bắt Đầu Cuộc Trò chuyện')).toBeTruthy();
+    expect(screen.queryByText('Tiếp Tục Cuộc Trò Chuyện')).toBeNull();
+  });
+
+  it('offers to resume when the connection drops', async () => {
+    const room = await startCall();
+    act(() => room.emit(RoomEvent.Connected));
+
+    act(() => room.emit(RoomEvent.Disconnected, DisconnectReason.SIGNAL_CLOSE));
+
+    expect(screen.getByText('Tiếp Tục Cuộc Trò Chuyện')).toBeTruthy();
+  });
+
+  it('ignores tracks other than audio', async () => {
+    const room = await startCall();
+    const agent = new FakeParticipant('agent-A');
+    room.addParticipant(agent);
+    act(() => room.emit(RoomEvent.Connected));
+
+    act(() => room.emit(RoomEvent.TrackSubscribed, { kind: Track.Kind.Video, sid: 'TR_v' }, {}, agent));
+
+    expect(document.querySelectorAll('audio')).toHaveLength(0);
+    expect(screen.getByText('Mogenie đang chuẩn bị...')).toBeTruthy();
+  });
+
+  it('talks while the space bar is held in push-to-talk mode', async () => {
+    render(<VoiceChat />);
+    fireEvent.change(screen.getByLabelText('Chế độ micro'), { target: { value: 'push_to_talk' } });
+    await act(async () => {
+      fireEvent.click(screen.getByText('Bắt Đầu Cuộc Trò chuyện'));
+    });
+    const room = fakeRooms[0];
+    const agent = new FakeParticipant('agent-A');
+    room.addParticipant(agent);
+    act(() => room.emit(RoomEvent.Connected));
+    act(() => {
+      room.subscribeAudio(agent);
+    });
+    expect(screen.getByText('Giữ nút hoặc phím cách để nói')).toBeTruthy();
+
+    fireEvent.keyDown(window, { code: 'Space' });
+    expect(screen.getByText('Đang nghe bạn nói...')).toBeTruthy();
+
+    fireEvent.keyUp(window, { code: 'Space' });
+    expect(screen.getByText('Giữ nút hoặc phím cách để nói')).toBeTruthy();
+  });
+
+  it('interrupts the agent with the Escape key', async () => {
+    const room = await startCall();
+    const agent = new FakeParticipant('agent-A');
+    room.addParticipant(agent);
+    act(() => room.emit(RoomEvent.Connected));
+    act(() => {
+      room.subscribeAudio(agent);
+    });
+    send(agent, { type: 'bot_message', text: 'Túi Thần Tài là', segment_id: 'b1', final: false });
+    act(() => room.emit(RoomEvent.ActiveSpeakersChanged, [agent]));
+    expect(screen.getByText('✋ Ngắt lời')).toBeTruthy();
+
+    fireEvent.keyDown(window, { key: 'Escape' });
+
+    expect(screen.queryByText('✋ Ngắt lời')).toBeNull();
+    expect(screen.getByText('(đã ngắt lời)', { exact: false })).toBeTruthy();
+    expect(document.querySelector('audio')?.muted).toBe(true);
+  });
+
+  it('hides the agent controls that need the data channel in a voice-only call', async () => {
+    const room = await startCall({ textChat: false });
+    const agent = new FakeParticipant('agent-A');
+    room.addParticipant(agent);
+    act(() => room.emit(RoomEvent.Connected));
+    act(() => {
+      room.subscribeAudio(agent);
+    });
+    act(() => room.emit(RoomEvent.ActiveSpeakersChanged, [agent]));
+
+    expect(screen.queryByText('✋ Ngắt lời')).toBeNull();
+    fireEvent.keyDown(window, { key: 'Escape' });
+    expect(document.querySelector('audio')?.muted).toBe(false);
+    const languageSwitcher = screen.getByLabelText('Ngôn ngữ') as HTMLSelectElement;
+    expect(languageSwitcher.disabled).toBe(true);
+    expect(languageSwitcher.title).toBe('Không thể đổi ngôn ngữ trong cuộc gọi chỉ có giọng nói');
+  });
+
+  it('keeps push-to-talk in a voice-only call without telling the agent', async () => {
+    render(<VoiceChat textChat={false} />);
+    fireEvent.change(screen.getByLabelText('Chế độ micro'), { target: { value: 'push_to_talk' } });
+    await act(async () => {
+      fireEvent.click(screen.getByText('Bắt Đầu Cuộc Trò chuyện'));
+    });
+    const room = fakeRooms[0];
+    const agent = new FakeParticipant('agent-A');
+    room.addParticipant(agent);
+    act(() => room.emit(RoomEvent.Connected));
+    act(() => {
+      room.subscribeAudio(agent);
+    });
+
+    fireEvent.keyDown(window, { code: 'Space' });
+
+    expect(screen.getByText('Đang nghe bạn nói...')).toBeTruthy();
+    expect(room.localParticipant.publishData).not.toHaveBeenCalled();
+  });
+
+  it('shows the connection health of the user', async () => {
+    const room = await startCall();
+    act(() => room.emit(RoomEvent.Connected));
+    expect(screen.getByText('Đang đo kết nối...')).toBeTruthy();
+
+    act(() => room.emit(RoomEvent.ConnectionQualityChanged, 'excellent', room.localParticipant));
+    expect(screen.getByText('Kết nối tốt')).toBeTruthy();
+
+    act(() => room.emit(RoomEvent.ConnectionQualityChanged, 'poor', room.localParticipant));
+    expect(screen.getByText('Kết nối yếu')).toBeTruthy();
+  });
+
+  it('explains a blocked microphone without creating a room', async () => {
+    vi.mocked(checkMicrophone).mockRejectedValueOnce(new MicrophoneError('Permission denied', 'BLOCKED'));
+
+    await startCall();
+
+    expect(screen.getByText('🎤 Không dùng được microphone')).toBeTruthy();
+    expect(screen.getByText(/Trình duyệt đang chặn microphone/)).toBeTruthy();
+    expect(createRoomMock).not.toHaveBeenCalled();
+  });
+
+  it('shows the request id of a failed API call', async () => {
+    createRoomMock.mockRejectedValueOnce(new ApiError('Boom', 500, 'INTERNAL_ERROR', null, 'req-0123456789'));
+
+    await startCall();
+
+    expect(screen.getByText('Máy chủ gặp sự cố, vui lòng thử lại')).toBeTruthy();
+    expect(screen.getByText('req-0123456789')).toBeTruthy();
+  });
+
+  it('switches the UI to English and starts the call in that language', async () => {
+    render(<VoiceChat />);
+    fireEvent.change(screen.getByLabelText('Ngôn ngữ'), { target: { value: 'en' } });
+
+    expect(screen.getByText('Mogenie Assistant')).toBeTruthy();
+    expect(localStorage.getItem('mogenie-language')).toBe('en');
+
+    await act(async () => {
+      fireEvent.click(screen.getByText('Start Conversation'));
+    });
+
+    act(() => fakeRooms[0].emit(RoomEvent.Connected));
+
+    expect(createRoomMock.mock.calls[0][2]).toMatchObject({ locale: 'en-US' });
+    expect(screen.getByText('Waiting for Mogenie to join...')).toBeTruthy();
+  });
+});
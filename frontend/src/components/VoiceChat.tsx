@@ -1,461 +1,280 @@
 // src/components/VoiceChat.tsx
-import { useEffect, useState, useRef } from 'react';
-import { Room, RoomEvent, Track } from 'livekit-client';
-import { createRoom } from '../lib/api';
+import { useEffect, useState, type FormEvent } from 'react';
+import { ApiError, type ApiErrorCode } from '../lib/api';
+import { MicrophoneError } from '../lib/audioDevices';
+import { LANGUAGES, LANGUAGE_NAMES, getLocale, isLanguage, type MessageKey } from '../lib/i18n';
+import { INPUT_MODES, type InputMode } from '../lib/protocol';
+import { healthLevel, type ConnectionHealth } from '../lib/telemetry';
+import { formatTimestamp } from '../lib/transcript';
+import { isInCall, type VoiceSession } from '../lib/voiceSession';
+import { useVoiceSession } from '../hooks/useVoiceSession';
+import { useAudioLevels } from '../hooks/useAudioLevels';
+import { useLanguage } from '../hooks/useLanguage';
+import type { AgentWatchdogOptions } from '../lib/agentPresence';
+import ConversationHistory from './ConversationHistory';
+import DeviceSettings from './DeviceSettings';
 
-type ConnectionStatus = 'disconnected' | 'connecting' | 'connected';
+interface VoiceChatProps {
+  // Overrides for how long to wait for the agent before re-dispatching / showing the retry button
+  watchdog?: Partial<AgentWatchdogOptions>;
+  // Play and show supervisor agents (participant attribute role=supervisor) alongside the primary agent
+  allowSupervisor?: boolean;
+  // Offer the text chat input and text-only mode (the room token only allows data publishing when on)
+  textChat?: boolean;
+  // Session JWT issued by the host app, identifying the user to /api/rooms/create
+  sessionToken?: string;
+  // Captcha / proof-of-work hook for anonymous users, called before each new room
+  getChallengeToken?: () => Promise<string | undefined>;
+  // Barge-in: cut the agent off as soon as the user starts speaking over it
+  autoInterrupt?: boolean;
+  // Session created and controlled by the embedding code (widget SDK, iframe bridge); the props above
+  // that configure the session are then ignored in favour of its own options
+  session?: VoiceSession;
+}
 
-interface BotMessage {
-  text: string;
-  timestamp: string;
+interface ConnectError {
+  message: string;
+  // Whether trying again can help, i.e. whether to show the retry button
+  retryable: boolean;
 }
 
-export default function VoiceChat() {
-  const [room, setRoom] = useState<Room | null>(null);
-  const [status, setStatus] = useState<ConnectionStatus>('disconnected');
-  const [error, setError] = useState<string | null>(null);
-  const [agentSpeaking, setAgentSpeaking] = useState(false);
-  const [messages, setMessages] = useState<BotMessage[]>([]);
-  const [isPaused, setIsPaused] = useState(false);
-  const [audioLevel, setAudioLevel] = useState(0);
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const analyserRef = useRef<AnalyserNode | null>(null);
-  const animationFrameRef = useRef<number | undefined>(undefined);
-  // Track the primary agent to avoid duplicate audio from multiple agents
-  const primaryAgentRef = useRef<string | null>(null);
-
-  const connect = async () => {
-    setStatus('connecting');
-    setError(null);
-    // Reset primary agent on new connection
-    primaryAgentRef.current = null;
-
-    try {
-      const userName = `User-${Date.now()}`;
-      const credentials = await createRoom(userName);
-
-      const newRoom = new Room({
-        adaptiveStream: true,
-        dynacast: true,
-      });
-
-      // Helper function to setup data listener for a participant (only for primary agent)
-      const setupParticipantDataListener = (participant: any) => {
-        // Only process data from the primary agent to avoid duplicates
-        if (primaryAgentRef.current && participant.identity !== primaryAgentRef.current) {
-          console.log('⏭️ Skipping data listener for non-primary agent:', participant.identity);
-          return;
-        }
-        
-        // Set this as primary agent if not already set
-        if (!primaryAgentRef.current && participant.identity.startsWith('agent-')) {
-          primaryAgentRef.current = participant.identity;
-          console.log('🎯 Set primary agent:', participant.identity);
-        }
-        
-        console.log('🔧 Setting up data listener for:', participant.identity);
-        participant.on('dataReceived', (payload: Uint8Array) => {
-          // Double-check this is still the primary agent
-          if (primaryAgentRef.current && participant.identity !== primaryAgentRef.current) {
-            console.log('⏭️ Ignoring data from non-primary agent:', participant.identity);
-            return;
-          }
-          
-          try {
-            const text = new TextDecoder().decode(payload);
-            console.log('📨 [Participant] DataReceived from:', participant.identity);
-            console.log('📨 [Participant] Raw payload:', text);
-            
-            const message = JSON.parse(text);
-            console.log('📝 [Participant] Parsed message:', message);
-            
-            if (message.type === 'bot_message') {
-              console.log('✅ [Participant] Adding bot message to transcript');
-              
-              // Create timestamp in Vietnam timezone (GMT+7)
-              const now = new Date();
-              const vnTimestamp = new Intl.DateTimeFormat('vi-VN', {
-                year: 'numeric',
-                month: '2-digit',
-                day: '2-digit',
-                hour: '2-digit',
-                minute: '2-digit',
-                second: '2-digit',
-                hour12: false,
-                timeZone: 'Asia/Ho_Chi_Minh'
-              }).format(now);
-              
-              setMessages(prev => [...prev, {
-                text: message.text,
-                timestamp: vnTimestamp
-              }]);
-            }
-          } catch (error) {
-            console.error('❌ [Participant] Error parsing data message:', error);
-          }
-        });
-      };
-
-      newRoom.on(RoomEvent.Connected, () => {
-        console.log('✅ Connected to room');
-        console.log('📊 Room state:', {
-          name: newRoom.name,
-          state: newRoom.state,
-          numParticipants: newRoom.numParticipants,
-          localParticipant: newRoom.localParticipant?.identity,
-        });
-        setStatus('connected');
-        
-        // Setup listeners for already-connected participants (e.g., agent)
-        console.log('🔍 Remote participants count:', newRoom.remoteParticipants.size);
-        
-        // First, find and set the primary agent (first agent found)
-        const agents = Array.from(newRoom.remoteParticipants.values())
-          .filter(p => p.identity.startsWith('agent-'));
-        
-        if (agents.length > 0 && !primaryAgentRef.current) {
-          primaryAgentRef.current = agents[0].identity;
-          console.log('🎯 Set primary agent on connect:', primaryAgentRef.current);
-          if (agents.length > 1) {
-            console.warn(`⚠️ Multiple agents found (${agents.length}), only using: ${primaryAgentRef.current}`);
-          }
-        }
-        
-        newRoom.remoteParticipants.forEach(participant => {
-          console.log('🔍 Found existing participant:', {
-            identity: participant.identity,
-            isPrimaryAgent: participant.identity === primaryAgentRef.current,
-            audioTracks: participant.audioTrackPublications.size,
-            videoTracks: participant.videoTrackPublications.size,
-            trackPublications: Array.from(participant.trackPublications.values()).map(t => ({
-              kind: t.kind,
-              trackSid: t.trackSid,
-              isSubscribed: t.isSubscribed,
-              isMuted: t.isMuted,
-            })),
-          });
-          setupParticipantDataListener(participant);
-        });
-      });
-
-      newRoom.on(RoomEvent.Disconnected, () => {
-        console.log('❌ Disconnected from room');
-        setStatus('disconnected');
-        setAgentSpeaking(false);
-      });
-
-      newRoom.on(RoomEvent.ParticipantConnected, (participant) => {
-        console.log('👤 Participant joined:', {
-          identity: participant.identity,
-          sid: participant.sid,
-          audioTracks: participant.audioTrackPublications.size,
-          metadata: participant.metadata,
-        });
-        setupParticipantDataListener(participant);
-      });
-
-      // Add more detailed event listeners for debugging
-      newRoom.on(RoomEvent.TrackPublished, (publication, participant) => {
-        console.log('📢 Track Published:', {
-          participantIdentity: participant.identity,
-          trackKind: publication.kind,
-          trackSid: publication.trackSid,
-          trackName: publication.trackName,
-          isSubscribed: publication.isSubscribed,
-          isMuted: publication.isMuted,
-        });
-      });
-
-      newRoom.on(RoomEvent.ActiveSpeakersChanged, (speakers) => {
-        console.log('🎙️ Active speakers changed:', speakers.map(s => ({
-          identity: s.identity,
-          isSpeaking: s.isSpeaking,
-          audioLevel: s.audioLevel,
-        })));
-        // Only consider primary agent as speaking
-        const agentIsSpeaking = speakers.some(s => 
-          s.identity !== newRoom.localParticipant.identity && 
-          s.identity === primaryAgentRef.current
-        );
-        setAgentSpeaking(agentIsSpeaking);
-      });
-
-      newRoom.on(RoomEvent.TrackSubscribed, (track, publication, participant) => {
-        console.log('🎧 Track Subscribed:', {
-          participantIdentity: participant.identity,
-          trackKind: track.kind,
-          trackSid: track.sid,
-          trackSource: track.source,
-          isPrimaryAgent: participant.identity === primaryAgentRef.current,
-          mediaStreamTrack: track.mediaStreamTrack ? {
-            enabled: track.mediaStreamTrack.enabled,
-            muted: track.mediaStreamTrack.muted,
-            readyState: track.mediaStreamTrack.readyState,
-          } : null,
-          publicationState: {
-            isSubscribed: publication.isSubscribed,
-            isMuted: publication.isMuted,
-            isEnabled: publication.isEnabled,
-            trackName: publication.trackName,
-          },
-        });
-
-        if (track.kind === Track.Kind.Audio) {
-          // Set primary agent if not set yet
-          if (!primaryAgentRef.current && participant.identity.startsWith('agent-')) {
-            primaryAgentRef.current = participant.identity;
-            console.log('🎯 Set primary agent from audio track:', participant.identity);
-          }
-          
-          // Only setup audio for primary agent to avoid duplicate voices
-          if (primaryAgentRef.current && participant.identity !== primaryAgentRef.current) {
-            console.log('⏭️ Skipping audio setup for non-primary agent:', participant.identity);
-            return;
-          }
-          
-          console.log('🔊 Setting up audio for PRIMARY agent:', participant.identity);
-          const audioElement = track.attach();
-          
-          // Log audio element state
-          console.log('🔊 Audio element created:', {
-            paused: audioElement.paused,
-            muted: audioElement.muted,
-            volume: audioElement.volume,
-            readyState: audioElement.readyState,
-            srcObject: audioElement.srcObject ? 'MediaStream exists' : 'No MediaStream',
-          });
-          
-          // ✅ FIX: Attach to DOM for better browser compatibility
-          audioElement.style.display = 'none';
-          document.body.appendChild(audioElement);
-          
-          // Add event listeners to audio element for debugging
-          audioElement.addEventListener('playing', () => {
-            console.log('🎵 Audio element is playing from:', participant.identity);
-          });
-          audioElement.addEventListener('pause', () => {
-            console.log('⏸️ Audio element paused for:', participant.identity);
-          });
-          audioElement.addEventListener('ended', () => {
-            console.log('🔚 Audio element ended for:', participant.identity);
-          });
-          audioElement.addEventListener('error', (e) => {
-            console.error('❌ Audio element error:', e);
-          });
-          audioElement.addEventListener('volumechange', () => {
-            console.log('🔉 Volume changed:', audioElement.volume, 'muted:', audioElement.muted);
-          });
-          
-          // ✅ FIX: Handle autoplay with error handling
-          audioElement.play()
-            .then(() => {
-              console.log('🔊 Audio playing successfully from', participant.identity);
-              console.log('🔊 Audio playback state:', {
-                paused: audioElement.paused,
-                currentTime: audioElement.currentTime,
-                volume: audioElement.volume,
-              });
-            })
-            .catch((err) => {
-              console.warn('⚠️ Autoplay blocked, will retry on user interaction:', err);
-              // Retry play on next user interaction
-              const resumeAudio = () => {
-                audioElement.play()
-                  .then(() => console.log('🔊 Audio resumed after user interaction'))
-                  .catch(e => console.error('❌ Still cannot play audio:', e));
-                document.removeEventListener('click', resumeAudio);
-              };
-              document.addEventListener('click', resumeAudio);
-            });
-          
-          console.log('🔊 Subscribed to audio track from', participant.identity);
-        }
-      });
-
-      // ✅ Cleanup audio elements when track unsubscribed
-      newRoom.on(RoomEvent.TrackUnsubscribed, (track) => {
-        if (track.kind === Track.Kind.Audio) {
-          const elements = track.detach();
-          elements.forEach((el) => {
-            el.remove();
-          });
-          console.log('🔇 Audio track detached and removed');
-        }
-      });
-
-      newRoom.on(RoomEvent.TrackMuted, (publication) => {
-        if (publication.kind === Track.Kind.Audio) {
-          setAgentSpeaking(false);
-        }
-      });
-
-      newRoom.on(RoomEvent.TrackUnmuted, (publication) => {
-        if (publication.kind === Track.Kind.Audio) {
-          console.log('🔊 Track unmuted:', publication.trackSid, 'kind:', publication.kind);
-          setAgentSpeaking(true);
-        }
-      });
-
-      // Add Data Received at Room level
-      newRoom.on(RoomEvent.DataReceived, (payload, participant) => {
-        console.log('📥 [Room] DataReceived:', {
-          from: participant?.identity || 'unknown',
-          payloadSize: payload.byteLength,
-        });
-      });
-
-      // Track subscription failed
-      newRoom.on(RoomEvent.TrackSubscriptionFailed, (trackSid, participant, reason) => {
-        console.error('❌ Track subscription failed:', {
-          trackSid,
-          participantIdentity: participant?.identity,
-          reason,
-        });
-      });
-
-      console.log('🔗 Connecting to LiveKit...', {
-        url: credentials.livekit_url,
-        roomName: credentials.room_name,
-        tokenPreview: credentials.token.substring(0, 50) + '...',
-      });
-
-      await newRoom.connect(credentials.livekit_url, credentials.token);
-      
-      console.log('✅ Room connected, enabling microphone...');
-      await newRoom.localParticipant.setMicrophoneEnabled(true);
-      
-      console.log('🎤 Microphone enabled, local participant:', {
-        identity: newRoom.localParticipant.identity,
-        audioTracks: newRoom.localParticipant.audioTrackPublications.size,
-      });
-
-      setRoom(newRoom);
-      
-      // Log remote participants after connection
-      console.log('👥 Remote participants after connect:', newRoom.remoteParticipants.size);
-      newRoom.remoteParticipants.forEach((p, sid) => {
-        console.log('👤 Remote participant:', {
-          identity: p.identity,
-          sid: sid,
-          audioTracks: p.audioTrackPublications.size,
-          tracks: Array.from(p.trackPublications.values()).map(t => ({
-            kind: t.kind,
-            isSubscribed: t.isSubscribed,
-            isMuted: t.isMuted,
-          })),
-        });
-      });
-      
-      // Setup audio visualization
-      setupAudioVisualization();
-    } catch (err) {
-      console.error('❌ Connection error:', err);
-      setError(err instanceof Error ? err.message : 'Không thể kết nối');
-      setStatus('disconnected');
+type Translate = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+// Whether trying again can help; the messages are the error.<code> catalog entries
+const API_ERROR_RETRYABLE: Record<ApiErrorCode, boolean> = {
+  INVALID_REQUEST: false,
+  METHOD_NOT_ALLOWED: false,
+  UNAUTHORIZED: false,
+  FORBIDDEN: false,
+  NOT_FOUND: true,
+  RATE_LIMITED: true,
+  SESSION_LIMIT: false,
+  LIVEKIT_UNAVAILABLE: true,
+  DISPATCH_FAILED: true,
+  INTERNAL_ERROR: true,
+  NETWORK_ERROR: true,
+};
+
+function describeConnectError(err: unknown, t: Translate): ConnectError {
+  if (err instanceof ApiError) {
+    if (err.code === 'RATE_LIMITED' && err.retryAfter) {
+      return { message: t('error.RATE_LIMITED_AFTER', { seconds: err.retryAfter }), retryable: true };
     }
-  };
+    // Codes from a newer API than this build fall back to the generic message
+    const code = err.code && Object.prototype.hasOwnProperty.call(API_ERROR_RETRYABLE, err.code) ? err.code : 'INTERNAL_ERROR';
+    return { message: t(`error.${code}`), retryable: API_ERROR_RETRYABLE[code] };
+  }
+  // From the pre-call check; the room was never created
+  if (err instanceof MicrophoneError) {
+    return { message: t(`microphone.${err.code}`), retryable: true };
+  }
+  // LiveKit connection or microphone failures
+  return { message: err instanceof Error ? err.message : t('error.connect'), retryable: true };
+}
+
+const LEVEL_METERS = [
+  { who: 'user', label: 'speaker.user' },
+  { who: 'agent', label: 'speaker.agent' },
+] as const;
+
+// m:ss for the countdown to the call's duration limit
+function formatCountdown(seconds: number) {
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+// Tooltip with the numbers behind the health indicator
+function describeHealth({ rttMs, jitterMs, packetLossPct }: ConnectionHealth, t: Translate) {
+  const parts = [
+    rttMs !== null && t('health.rtt', { ms: rttMs }),
+    jitterMs !== null && t('health.jitter', { ms: jitterMs }),
+    packetLossPct !== null && t('health.packetLoss', { pct: packetLossPct }),
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : undefined;
+}
+
+// Typing a space in the text chat must not open the microphone
+function isTypingTarget(target: EventTarget | null) {
+  return target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+}
 
-  const setupAudioVisualization = async () => {
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      const audioContext = new AudioContext();
-      const analyser = audioContext.createAnalyser();
-      const microphone = audioContext.createMediaStreamSource(stream);
-      
-      analyser.smoothingTimeConstant = 0.8;
-      analyser.fftSize = 1024;
-      
-      microphone.connect(analyser);
-      
-      audioContextRef.current = audioContext;
-      analyserRef.current = analyser;
-      
-      updateAudioLevel();
-    } catch (err) {
-      console.error('Error setting up audio visualization:', err);
+export default function VoiceChat({
+  watchdog,
+  allowSupervisor = false,
+  textChat = true,
+  sessionToken,
+  getChallengeToken,
+  autoInterrupt = false,
+  session: externalSession,
+}: VoiceChatProps = {}) {
+  const { language, setLanguage, t } = useLanguage();
+  const locale = getLocale(language);
+  const {
+    session,
+    state,
+    agentPresence,
+    agentSpeaking,
+    messages,
+    micMuted,
+    inputMode,
+    talking,
+    agentMuted,
+    audioDevices,
+    connectionHealth,
+    textOnly,
+    sessionSecondsLeft,
+    timeLimitReached,
+    error,
+    resumable,
+  } = useVoiceSession({
+    watchdog,
+    allowSupervisor,
+    textChat,
+    sessionToken,
+    getChallengeToken,
+    autoInterrupt,
+    // e.g. ?agent=support to talk to a specific agent profile
+    agentProfile: new URLSearchParams(window.location.search).get('agent') ?? undefined,
+    locale,
+    entryPage: window.location.pathname,
+  }, externalSession);
+  const [draft, setDraft] = useState('');
+  const [showHistory, setShowHistory] = useState(false);
+  const [showDevices, setShowDevices] = useState(false);
+  const inCall = isInCall(state);
+  const pushToTalk = inCall && !textOnly && inputMode === 'push_to_talk';
+  const levels = useAudioLevels(session);
+  const connecting = state === 'creating-room' || state === 'connecting';
+  const connectError = state === 'failed' && error ? describeConnectError(error, t) : null;
+
+  // Sessions owned by the embedding code don't get our options, so their locale is set here
+  useEffect(() => {
+    session.setLocale(locale);
+  }, [session, locale]);
+
+  // Space bar as the push-to-talk key
+  useEffect(() => {
+    if (!pushToTalk) return;
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.code !== 'Space' || isTypingTarget(event.target)) return;
+      event.preventDefault();
+      if (!event.repeat) session.setTalking(true);
+    };
+    const onKeyUp = (event: KeyboardEvent) => {
+      if (event.code !== 'Space' || isTypingTarget(event.target)) return;
+      session.setTalking(false);
+    };
+    // The key-up is lost when the window loses focus while the key is held
+    const release = () => session.setTalking(false);
+
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', release);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', release);
+      release();
+    };
+  }, [pushToTalk, session]);
+
+  // Escape interrupts the agent, even while typing. Interrupting needs the text chat data grant.
+  useEffect(() => {
+    if (!inCall || !textChat) return;
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape' && session.interrupt()) {
+        event.preventDefault();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [inCall, textChat, session]);
+
+  const sendText = async (event: FormEvent) => {
+    event.preventDefault();
+
+    const text = draft.trim();
+    if (!text) return;
+
+    setDraft('');
+    // Put the text back so the user can retry instead of losing it
+    if (!(await session.sendText(text))) {
+      setDraft(text);
     }
   };
 
-  const updateAudioLevel = () => {
-    if (!analyserRef.current) return;
-    
-    const bufferLength = analyserRef.current.frequencyBinCount;
-    const dataArray = new Uint8Array(bufferLength);
-    analyserRef.current.getByteFrequencyData(dataArray);
-    
-    const average = dataArray.reduce((a, b) => a + b) / bufferLength;
-    setAudioLevel(average / 255);
-    
-    animationFrameRef.current = requestAnimationFrame(updateAudioLevel);
+  const hangUp = async () => {
+    await session.end();
+    setDraft('');
   };
 
-  const togglePause = async () => {
-    if (!room) return;
-    
-    const newPausedState = !isPaused;
-    setIsPaused(newPausedState);
-    await room.localParticipant.setMicrophoneEnabled(!newPausedState);
-  };
+  const getRecordingStatus = () => {
+    if (state === 'reconnecting') return t('call.reconnecting');
 
-  const disconnect = async () => {
-    if (room) {
-      await room.disconnect();
-      setRoom(null);
-      setStatus('disconnected');
-      setAgentSpeaking(false);
-      setMessages([]);
-      setIsPaused(false);
-      
-      // ✅ Cancel animation frame
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current);
-        animationFrameRef.current = undefined;
-      }
-      
-      // ✅ FIX: Check state before closing AudioContext
-      if (audioContextRef.current) {
-        const ctx = audioContextRef.current;
-        
-        if (ctx.state !== 'closed') {
-          try {
-            await ctx.close();
-            console.log('✅ AudioContext closed successfully');
-          } catch (err) {
-            console.warn('⚠️ AudioContext close error:', err);
-          }
-        }
-        
-        audioContextRef.current = null;
-      }
-      
-      analyserRef.current = null;
+    switch (agentPresence) {
+      case 'waiting':
+        return t('call.agentWaiting');
+      case 'joined':
+        return t('call.agentJoined');
+      case 'left':
+        return t('call.agentLeft');
+      case 'unavailable':
+        return t('call.agentUnavailable');
     }
+
+    if (agentSpeaking) return t('call.agentSpeaking');
+    if (textOnly) return t('call.typeBelow');
+    if (micMuted) return t('call.micPaused');
+    if (inputMode === 'push_to_talk') return talking ? t('call.listening') : t('call.holdToTalkHint');
+    return t('call.startSpeaking');
   };
 
-  useEffect(() => {
-    return () => {
-      // ✅ Cleanup: Only cancel animation and disconnect room
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current);
-      }
-      
-      // ✅ Only disconnect room if still connected
-      if (room && room.state === 'connected') {
-        room.disconnect();
-      }
-      
-      // ✅ FIX: Do NOT close AudioContext here - disconnect() handles it
-    };
-  }, [room]);
+  // Without the data grant an agent already in the call can't be told to switch, so the language is fixed
+  const languageLocked = inCall && !textChat;
+  const languageSwitcher = (
+    <select
+      className="language-switcher"
+      value={language}
+      aria-label={t('app.language')}
+      disabled={languageLocked}
+      title={languageLocked ? t('app.languageLocked') : undefined}
+      onChange={(e) => {
+        if (isLanguage(e.target.value)) setLanguage(e.target.value);
+      }}
+    >
+      {LANGUAGES.map((option) => (
+        <option key={option} value={option} lang={option}>{LANGUAGE_NAMES[option]}</option>
+      ))}
+    </select>
+  );
 
   return (
     <div className="voice-chat-container">
-      {status === 'connected' ? (
+      {inCall ? (
         // Recording UI with wave animation
         <div className="recording-view">
+          {languageSwitcher}
+
+          <div
+            className={`connection-health ${healthLevel(connectionHealth)}`}
+            role="status"
+            title={describeHealth(connectionHealth, t)}
+          >
+            <span className="connection-health-dot" />
+            {t(`health.${healthLevel(connectionHealth)}`)}
+          </div>
+
+          {sessionSecondsLeft !== null && (
+            <div className="session-countdown" role="timer" aria-live="polite">
+              {t('call.countdown', { time: formatCountdown(sessionSecondsLeft) })}
+            </div>
+          )}
+
           <div className="wave-container">
             <div className="wave-circle">
-              <div className="wave-animation" style={{ transform: `scale(${1 + audioLevel * 0.3})` }}>
+              {/* The waves follow Mogenie's voice */}
+              <div className="wave-animation" style={{ transform: `scale(${1 + levels.agent * 0.3})` }}>
                 {[...Array(3)].map((_, i) => (
                   <div
                     key={i}
@@ -469,84 +288,209 @@ export default function VoiceChat() {
               </div>
             </div>
             
-            <div className="audio-bars">
-              {[...Array(5)].map((_, i) => (
-                <div
-                  key={i}
-                  className="audio-bar"
-                  style={{
-                    height: i === 0 ? '12px' : `${Math.max(8, audioLevel * 40 * (1 - i * 0.15))}px`,
-                    opacity: i === 0 ? 0.5 : (audioLevel > 0.1 ? 1 : 0.3)
-                  }}
-                />
+            <div className="level-meters">
+              {LEVEL_METERS.map(({ who, label }) => (
+                <div key={who} className={`level-meter ${who}`}>
+                  <div className="audio-bars" role="meter" aria-label={t(label)} aria-valuemin={0} aria-valuemax={1} aria-valuenow={levels[who]}>
+                    {[...Array(5)].map((_, i) => (
+                      <div
+                        key={i}
+                        className="audio-bar"
+                        style={{
+                          // Tallest in the middle
+                          height: `${Math.max(8, levels[who] * 40 * (1 - Math.abs(i - 2) * 0.25))}px`,
+                          opacity: levels[who] > 0.05 ? 1 : 0.3
+                        }}
+                      />
+                    ))}
+                  </div>
+                  <span className="level-label">{t(label)}</span>
+                </div>
               ))}
             </div>
             
-            <p className="recording-status">
-              {agentSpeaking ? 'Agent đang suy nghĩ và trả lời...' : isPaused ? 'Đã dừng thu âm' : 'Bắt đầu nói'}
-            </p>
+            <p className="recording-status">{getRecordingStatus()}</p>
+
+            {agentSpeaking && textChat && (
+              <button onClick={() => session.interrupt()} className="btn-retry" title={t('call.interruptTitle')}>{t('call.interrupt')}</button>
+            )}
+
+            {agentPresence === 'unavailable' && (
+              <button onClick={() => session.retryAgent()} className="btn-retry">{t('common.retry')}</button>
+            )}
           </div>
           
           <div className="recording-controls">
-            <button onClick={togglePause} className="btn-pause" title={isPaused ? 'Tiếp tục' : 'Tạm dừng'}>
-              {isPaused ? (
-                <svg width="24" height="24" viewBox="0 0 24 24" fill="none">
-                  <path d="M8 5v14l11-7z" fill="currentColor"/>
-                </svg>
-              ) : (
-                <svg width="24" height="24" viewBox="0 0 24 24" fill="none">
-                  <rect x="6" y="4" width="4" height="16" fill="currentColor"/>
-                  <rect x="14" y="4" width="4" height="16" fill="currentColor"/>
-                </svg>
-              )}
+            {textOnly ? (
+              <button onClick={() => session.setAgentMuted(!agentMuted)} className="btn-pause" title={agentMuted ? t('call.unmuteAgent') : t('call.muteAgent')}>
+                {agentMuted ? (
+                  <svg width="24" height="24" viewBox="0 0 24 24" fill="none">
+                    <path d="M4 9v6h4l5 5V4L8 9H4z" fill="currentColor"/>
+                    <path d="M16 9l5 6M21 9l-5 6" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
+                  </svg>
+                ) : (
+                  <svg width="24" height="24" viewBox="0 0 24 24" fill="none">
+                    <path d="M4 9v6h4l5 5V4L8 9H4z" fill="currentColor"/>
+                    <path d="M16 8.5a5 5 0 010 7M18.5 6a8.5 8.5 0 010 12" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
+                  </svg>
+                )}
+              </button>
+            ) : (
+              <button onClick={() => session.setMicMuted(!micMuted)} className="btn-pause" title={micMuted ? t('call.resume') : t('call.pause')}>
+                {micMuted ? (
+                  <svg width="24" height="24" viewBox="0 0 24 24" fill="none">
+                    <path d="M8 5v14l11-7z" fill="currentColor"/>
+                  </svg>
+                ) : (
+                  <svg width="24" height="24" viewBox="0 0 24 24" fill="none">
+                    <rect x="6" y="4" width="4" height="16" fill="currentColor"/>
+                    <rect x="14" y="4" width="4" height="16" fill="currentColor"/>
+                  </svg>
+                )}
+              </button>
+            )}
+
+            <button onClick={() => setShowDevices(!showDevices)} className="btn-pause" title={t('call.devices')}>
+              <svg width="24" height="24" viewBox="0 0 24 24" fill="none">
+                <path d="M4 18a8 8 0 0116 0" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
+                <rect x="2" y="14" width="4" height="7" rx="1.5" fill="currentColor"/>
+                <rect x="18" y="14" width="4" height="7" rx="1.5" fill="currentColor"/>
+              </svg>
             </button>
             
-            <button onClick={disconnect} className="btn-stop" title="Kết thúc">
+            <button onClick={hangUp} className="btn-stop" title={t('call.end')}>
               <svg width="24" height="24" viewBox="0 0 24 24" fill="none">
                 <path d="M18 6L6 18M6 6l12 12" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
               </svg>
             </button>
           </div>
+
+          {pushToTalk && (
+            <button
+              className={`btn-talk${talking ? ' active' : ''}`}
+              disabled={micMuted}
+              onPointerDown={() => session.setTalking(true)}
+              onPointerUp={() => session.setTalking(false)}
+              onPointerLeave={() => session.setTalking(false)}
+              onPointerCancel={() => session.setTalking(false)}
+              onContextMenu={(e) => e.preventDefault()}
+            >
+              {talking ? t('call.releaseToSend') : t('call.holdToTalk')}
+            </button>
+          )}
+
+          {showDevices && (
+            <DeviceSettings session={session} audioDevices={audioDevices} inCall onClose={() => setShowDevices(false)} />
+          )}
           
           {messages.length > 0 && (
             <div className="transcript-box-recording">
               <div className="transcript-header">
-                <span>📝 Realtime Bot's transcript</span>
+                <span>{t('call.transcript')}</span>
               </div>
               <div className="transcript-messages">
-                {messages.map((msg, index) => (
-                  <div key={index} className="transcript-message">
-                    <div className="transcript-timestamp">{msg.timestamp}</div>
-                    <div className="transcript-text">{msg.text}</div>
+                {messages.map((msg) => (
+                  <div key={msg.id} className={`transcript-message ${msg.speaker}${msg.final ? '' : ' interim'}${msg.interrupted ? ' interrupted' : ''}`}>
+                    <div className="transcript-timestamp">
+                      {t(`speaker.${msg.speaker}`)} · {formatTimestamp(new Date(msg.time), locale)}
+                    </div>
+                    <div className="transcript-text">{msg.text}{msg.interrupted && <span className="transcript-interrupted"> {t('call.interrupted')}</span>}</div>
                   </div>
                 ))}
               </div>
             </div>
           )}
+
+          {textChat && (
+            <form className="text-chat-form" onSubmit={sendText}>
+              <input
+                type="text"
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                placeholder={t('call.messagePlaceholder')}
+                aria-label={t('call.message')}
+              />
+              <button type="submit" className="btn-send" disabled={!draft.trim()} title={t('call.send')}>
+                <svg width="20" height="20" viewBox="0 0 24 24" fill="none">
+                  <path d="M3 20l18-8L3 4v6l12 2-12 2z" fill="currentColor"/>
+                </svg>
+              </button>
+            </form>
+          )}
         </div>
       ) : (
         <div className="voice-chat-card">
-          <h1 className="title">Trợ Lý Mogenie</h1>
-          <p className="subtitle">Sẵn sàng hỗ trợ 24/7</p>
+          {languageSwitcher}
+          <h1 className="title">{t('app.title')}</h1>
+          <p className="subtitle">{t('app.subtitle')}</p>
+
+          {!inCall && !connecting && showHistory && (
+            <ConversationHistory onClose={() => setShowHistory(false)} />
+          )}
 
-          {status === 'disconnected' && (
+          {!inCall && !connecting && showDevices && (
+            <DeviceSettings session={session} audioDevices={audioDevices} inCall={false} onClose={() => setShowDevices(false)} />
+          )}
+
+          {!inCall && !connecting && !showHistory && !showDevices && (
             <div className="input-section">
-              <button onClick={connect} className="btn-primary">Bắt Đầu Cuộc Trò chuyện</button>
-              <p className="hint">Bạn sẽ cần cho phép truy cập microphone</p>
+              {timeLimitReached && (
+                <p className="hint">{t('start.timeLimitReached')}</p>
+              )}
+              {resumable && (
+                <button onClick={() => session.resume()} className="btn-primary">{t('start.resume')}</button>
+              )}
+              <button onClick={() => session.start()} className={resumable ? 'btn-secondary' : 'btn-primary'}>
+                {t('start.begin')}
+              </button>
+              {textChat && (
+                <label className="mode-toggle">
+                  <input type="checkbox" checked={textOnly} onChange={(e) => session.setTextOnly(e.target.checked)} />
+                  {t('start.textOnly')}
+                </label>
+              )}
+              {/* Gating the microphone is local; the agent is only told the mode when the call has text chat */}
+              {!textOnly && (
+                <label className="input-mode">
+                  {t('start.inputMode')}
+                  <select value={inputMode} onChange={(e) => session.setInputMode(e.target.value as InputMode)}>
+                    {INPUT_MODES.map((mode) => (
+                      <option key={mode} value={mode}>{t(`inputMode.${mode}`)}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              <p className="hint">
+                {textOnly ? t('start.textOnlyHint') : t('start.microphoneHint')}
+              </p>
+              {!textOnly && (
+                <button onClick={() => setShowDevices(true)} className="btn-link">{t('start.checkDevices')}</button>
+              )}
+              <button onClick={() => setShowHistory(true)} className="btn-link">{t('start.history')}</button>
             </div>
           )}
 
-          {status === 'connecting' && (
+          {connecting && (
             <div className="loading-section">
               <div className="spinner"></div>
-              <p>Đang kết nối...</p>
+              <p>{t('start.connecting')}</p>
             </div>
           )}
 
-          {error && (
+          {connectError && !showDevices && (
             <div className="error-box">
-              <p className="error-title">❌ Có lỗi xảy ra</p>
-              <p className="error-message">{error}</p>
+              <p className="error-title">{error instanceof MicrophoneError ? t('error.microphoneTitle') : t('error.title')}</p>
+              <p className="error-message">{connectError.message}</p>
+              {/* Lets support find the failed request in the server logs */}
+              {error instanceof ApiError && error.requestId && (
+                <p className="error-reference">{t('error.requestId')} <code>{error.requestId}</code></p>
+              )}
+              {connectError.retryable && (
+                <button onClick={() => session.start()} className="btn-retry">{t('common.retry')}</button>
+              )}
+              {error instanceof MicrophoneError && (
+                <button onClick={() => setShowDevices(true)} className="btn-retry">{t('start.checkDevices')}</button>
+              )}
             </div>
           )}
         </div>
@@ -0,0 +1,27 @@
+// src/embed.tsx
+// Entry of embed.html, the page the widget loads in iframe mode
+import { StrictMode } from 'react'
+import { createRoot } from 'react-dom/client'
+import './index.css'
+import './embed.css'
+import VoiceChat from './components/VoiceChat'
+import { VoiceSession, type VoiceSessionOptions } from './lib/voiceSession'
+import { bindDocumentLanguage, getLocale } from './lib/i18n'
+import { connectEmbedBridge } from './widget/embedBridge'
+
+const options: VoiceSessionOptions = {
+  textChat: true,
+  // e.g. embed.html?agent=support to talk to a specific agent profile
+  agentProfile: new URLSearchParams(window.location.search).get('agent') ?? undefined,
+  locale: getLocale(),
+  entryPage: window.location.pathname,
+}
+const session = new VoiceSession(options)
+connectEmbedBridge(session, options)
+bindDocumentLanguage()
+
+createRoot(document.getElementById('root')!).render(
+  <StrictMode>
+    <VoiceChat session={session} />
+  </StrictMode>,
+)
@@ -0,0 +1,43 @@
+// src/hooks/useAudioDevices.ts
+// Microphones and speakers currently plugged in, refreshed on devicechange (headsets, Bluetooth)
+
+import { useEffect, useState } from 'react';
+import { listAudioDevices } from '../lib/audioDevices';
+import { createLogger } from '../lib/logger';
+
+const log = createLogger('devices');
+
+export interface AudioDeviceLists {
+  inputs: MediaDeviceInfo[];
+  outputs: MediaDeviceInfo[];
+}
+
+const EMPTY: AudioDeviceLists = { inputs: [], outputs: [] };
+
+// enabled: list only once microphone permission is granted, before that the labels are empty
+export function useAudioDevices(enabled: boolean) {
+  const [devices, setDevices] = useState<AudioDeviceLists>(EMPTY);
+
+  useEffect(() => {
+    if (!enabled || !navigator.mediaDevices) return;
+
+    let cancelled = false;
+    const refresh = async () => {
+      try {
+        const [inputs, outputs] = await Promise.all([listAudioDevices('audioinput'), listAudioDevices('audiooutput')]);
+        if (!cancelled) setDevices({ inputs, outputs });
+      } catch (err) {
+        log.warn('Failed to list audio devices', err);
+      }
+    };
+
+    refresh();
+    navigator.mediaDevices.addEventListener('devicechange', refresh);
+    return () => {
+      cancelled = true;
+      navigator.mediaDevices.removeEventListener('devicechange', refresh);
+    };
+  }, [enabled]);
+
+  return enabled ? devices : EMPTY;
+}
@@ -0,0 +1,9 @@
+// src/hooks/useAudioLevels.ts
+// User and agent audio levels of a VoiceSession, updated while in a call
+
+import { useSyncExternalStore } from 'react';
+import type { VoiceSession } from '../lib/voiceSession';
+
+export function useAudioLevels(session: VoiceSession) {
+  return useSyncExternalStore(session.subscribeLevels, session.getLevels);
+}
@@ -0,0 +1,15 @@
+// src/hooks/useLanguage.ts
+// The UI language and a t() bound to it; every component using it re-renders when the user switches
+
+import { useCallback, useSyncExternalStore } from 'react';
+import { getLanguage, setLanguage, subscribeLanguage, translate, type MessageKey } from '../lib/i18n';
+
+export function useLanguage() {
+  const language = useSyncExternalStore(subscribeLanguage, getLanguage);
+  const t = useCallback(
+    (key: MessageKey, params?: Record<string, string | number>) => translate(language, key, params),
+    [language],
+  );
+
+  return { language, setLanguage, t };
+}
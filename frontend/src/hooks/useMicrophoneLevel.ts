@@ -0,0 +1,68 @@
+// src/hooks/useMicrophoneLevel.ts
+// Level of the user's microphone (0..1) for the pre-call input meter. In a call use useAudioLevels,
+// which meters the published track instead of opening the microphone again.
+
+import { useEffect, useState } from 'react';
+import { openMicrophone } from '../lib/audioDevices';
+import { createLogger } from '../lib/logger';
+
+const log = createLogger('devices');
+
+export function useMicrophoneLevel(enabled: boolean, deviceId?: string) {
+  const [level, setLevel] = useState(0);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+    let audioContext: AudioContext | null = null;
+    let animationFrame: number | undefined;
+
+    const setup = async () => {
+      try {
+        stream = await openMicrophone(deviceId);
+        if (cancelled) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        audioContext = new AudioContext();
+        const analyser = audioContext.createAnalyser();
+        const microphone = audioContext.createMediaStreamSource(stream);
+
+        analyser.smoothingTimeConstant = 0.8;
+        analyser.fftSize = 1024;
+
+        microphone.connect(analyser);
+
+        const dataArray = new Uint8Array(analyser.frequencyBinCount);
+        const updateAudioLevel = () => {
+          analyser.getByteFrequencyData(dataArray);
+          const average = dataArray.reduce((a, b) => a + b) / dataArray.length;
+          setLevel(average / 255);
+          animationFrame = requestAnimationFrame(updateAudioLevel);
+        };
+        updateAudioLevel();
+      } catch (err) {
+        log.error('Could not meter the microphone', err);
+      }
+    };
+    setup();
+
+    return () => {
+      cancelled = true;
+      if (animationFrame) {
+        cancelAnimationFrame(animationFrame);
+      }
+      stream?.getTracks().forEach((track) => track.stop());
+      // ✅ FIX: Check state before closing AudioContext
+      if (audioContext && audioContext.state !== 'closed') {
+        audioContext.close().catch((err) => {
+          log.warn('AudioContext close error', err);
+        });
+      }
+    };
+  }, [enabled, deviceId]);
+
+  return enabled ? level : 0;
+}
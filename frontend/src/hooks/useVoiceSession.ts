@@ -0,0 +1,23 @@
+// src/hooks/useVoiceSession.ts
+// React binding for VoiceSession: one session per component, re-rendered on every snapshot change
+
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import { VoiceSession, type VoiceSessionOptions } from '../lib/voiceSession';
+
+// Pass an existing session to render one that is also driven from outside React (e.g. the widget SDK);
+// its owner configures and disposes it, so options are ignored then.
+export function useVoiceSession(options: VoiceSessionOptions = {}, external?: VoiceSession) {
+  const [session] = useState(() => external ?? new VoiceSession(options));
+  const snapshot = useSyncExternalStore(session.subscribe, session.getSnapshot);
+
+  // Options are read when a room is created, so later prop changes apply to the next call
+  useEffect(() => {
+    if (!external) session.setOptions(options);
+  });
+
+  useEffect(() => () => {
+    if (!external) session.dispose();
+  }, [session, external]);
+
+  return { session, ...snapshot };
+}
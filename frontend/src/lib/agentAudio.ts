@@ -0,0 +1,101 @@
+// src/lib/agentAudio.ts
+// Plays the agent's audio tracks. VoiceSession only talks to AgentAudioOutput, so it runs without a DOM in tests.
+
+import type { RemoteParticipant, RemoteTrack } from 'livekit-client';
+import { createLogger } from './logger';
+
+const log = createLogger('audio');
+
+export interface AgentAudioOutput {
+  attach(track: RemoteTrack, participant: RemoteParticipant): void;
+  // Called when a track is unsubscribed
+  detach(track: RemoteTrack): void;
+  setMuted(muted: boolean): void;
+  // Stops and removes everything at the end of a call
+  clear(): void;
+}
+
+export class DomAudioOutput implements AgentAudioOutput {
+  private elements = new Set<HTMLMediaElement>();
+  private muted = false;
+
+  attach(track: RemoteTrack, participant: RemoteParticipant) {
+    const audioElement = track.attach();
+    audioElement.muted = this.muted;
+    this.elements.add(audioElement);
+
+    log.debug('Audio element created', {
+      identity: participant.identity,
+      paused: audioElement.paused,
+      muted: audioElement.muted,
+      volume: audioElement.volume,
+      readyState: audioElement.readyState,
+      srcObject: audioElement.srcObject ? 'MediaStream exists' : 'No MediaStream',
+    });
+
+    // ✅ FIX: Attach to DOM for better browser compatibility
+    audioElement.style.display = 'none';
+    document.body.appendChild(audioElement);
+
+    // Add event listeners to audio element for debugging
+    audioElement.addEventListener('playing', () => {
+      log.debug('Audio element playing', { identity: participant.identity });
+    });
+    audioElement.addEventListener('pause', () => {
+      log.debug('Audio element paused', { identity: participant.identity });
+    });
+    audioElement.addEventListener('ended', () => {
+      log.debug('Audio element ended', { identity: participant.identity });
+    });
+    audioElement.addEventListener('error', (e) => {
+      log.error('Audio element error', audioElement.error ?? e);
+    });
+    audioElement.addEventListener('volumechange', () => {
+      log.debug('Volume changed', { volume: audioElement.volume, muted: audioElement.muted });
+    });
+
+    // ✅ FIX: Handle autoplay with error handling
+    audioElement.play()
+      .then(() => {
+        log.debug('Audio playing', {
+          identity: participant.identity,
+          paused: audioElement.paused,
+          currentTime: audioElement.currentTime,
+          volume: audioElement.volume,
+        });
+      })
+      .catch((err) => {
+        log.warn('Autoplay blocked, will retry on user interaction', err);
+        // Retry play on next user interaction
+        const resumeAudio = () => {
+          audioElement.play()
+            .then(() => log.info('Audio resumed after user interaction'))
+            .catch(e => log.error('Still cannot play audio', e));
+          document.removeEventListener('click', resumeAudio);
+        };
+        document.addEventListener('click', resumeAudio);
+      });
+
+    log.info('Subscribed to agent audio', { identity: participant.identity });
+  }
+
+  detach(track: RemoteTrack) {
+    track.detach().forEach((el) => {
+      this.elements.delete(el);
+      el.remove();
+    });
+    log.debug('Audio track detached and removed');
+  }
+
+  setMuted(muted: boolean) {
+    this.muted = muted;
+    this.elements.forEach((el) => {
+      el.muted = muted;
+    });
+  }
+
+  clear() {
+    this.elements.forEach((el) => el.remove());
+    this.elements.clear();
+  }
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_WATCHDOG_OPTIONS,
+  nextAgentPresence,
+  pickPrimaryAgent,
+  watchdogTimeout,
+  type AgentPresence,
+  type AgentPresenceEvent,
+} from './agentPresence';
+
+const run = (events: AgentPresenceEvent['type'][], start: AgentPresence = 'waiting') =>
+  events.reduce((state, type) => nextAgentPresence(state, { type } as AgentPresenceEvent), start);
+
+describe('nextAgentPresence', () => {
+  it('follows the happy path from waiting to audio', () => {
+    expect(run(['agent_joined'])).toBe('joined');
+    expect(run(['agent_joined', 'audio_subscribed'])).toBe('audio');
+  });
+
+  it('does not downgrade audio when agent_joined arrives late', () => {
+    expect(run(['audio_subscribed', 'agent_joined'])).toBe('audio');
+  });
+
+  it('becomes unavailable when the watchdog fires before audio', () => {
+    expect(run(['timeout'])).toBe('unavailable');
+    expect(run(['agent_joined', 'timeout'])).toBe('unavailable');
+    expect(run(['agent_joined', 'audio_subscribed', 'timeout'])).toBe('audio');
+  });
+
+  it('tracks an agent leaving and a replacement joining', () => {
+    expect(run(['agent_joined', 'audio_subscribed', 'agent_left'])).toBe('left');
+    expect(run(['agent_left', 'agent_joined', 'audio_subscribed'], 'audio')).toBe('audio');
+  });
+
+  it('only retries from unavailable or left', () => {
+    expect(run(['timeout', 'retry'])).toBe('waiting');
+    expect(run(['retry'], 'left')).toBe('waiting');
+    expect(run(['retry'], 'audio')).toBe('audio');
+  });
+});
+
+describe('watchdogTimeout', () => {
+  it('watches states that are waiting on the agent', () => {
+    expect(watchdogTimeout('waiting', DEFAULT_WATCHDOG_OPTIONS)).toBe(DEFAULT_WATCHDOG_OPTIONS.joinTimeoutMs);
+    expect(watchdogTimeout('left', DEFAULT_WATCHDOG_OPTIONS)).toBe(DEFAULT_WATCHDOG_OPTIONS.joinTimeoutMs);
+    expect(watchdogTimeout('joined', DEFAULT_WATCHDOG_OPTIONS)).toBe(DEFAULT_WATCHDOG_OPTIONS.audioTimeoutMs);
+    expect(watchdogTimeout('audio', DEFAULT_WATCHDOG_OPTIONS)).toBeNull();
+    expect(watchdogTimeout('unavailable', DEFAULT_WATCHDOG_OPTIONS)).toBeNull();
+  });
+});
+
+describe('pickPrimaryAgent', () => {
+  const participant = (identity: string, attributes: Record<string, string> = {}) => ({ identity, attributes });
+
+  it('picks the first regular agent', () => {
+    expect(pickPrimaryAgent([participant('user-1'), participant('agent-A'), participant('agent-B')])).toBe('agent-A');
+  });
+
+  it('skips the agent that just left and supervisors', () => {
+    const participants = [
+      participant('agent-A'),
+      participant('agent-S', { role: 'supervisor' }),
+      participant('agent-B'),
+    ];
+
+    expect(pickPrimaryAgent(participants, 'agent-A')).toBe('agent-B');
+  });
+
+  it('returns null when no other agent is in the room', () => {
+    expect(pickPrimaryAgent([participant('agent-A'), participant('agent-S', { role: 'supervisor' })], 'agent-A')).toBeNull();
+  });
+});
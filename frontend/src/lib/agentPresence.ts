@@ -0,0 +1,88 @@
+// src/lib/agentPresence.ts
+// Client-side state machine tracking whether the agent is actually in the call
+
+export type AgentPresence =
+  | 'waiting'      // connected, no agent yet
+  | 'joined'       // agent participant is in the room
+  | 'audio'        // agent audio track is subscribed - the call is usable
+  | 'left'         // the agent disconnected mid-call
+  | 'unavailable'; // watchdog gave up (after automatic re-dispatch)
+
+export type AgentPresenceEvent =
+  | { type: 'agent_joined' }
+  | { type: 'audio_subscribed' }
+  | { type: 'agent_left' }
+  | { type: 'timeout' }
+  | { type: 'retry' };
+
+export interface AgentWatchdogOptions {
+  // How long to wait for an agent to join (or rejoin after leaving)
+  joinTimeoutMs: number;
+  // How long a joined agent may take to publish audio
+  audioTimeoutMs: number;
+  // Automatic re-dispatches before showing the retry button
+  maxAutoRedispatch: number;
+}
+
+export const DEFAULT_WATCHDOG_OPTIONS: AgentWatchdogOptions = {
+  joinTimeoutMs: 15000,
+  audioTimeoutMs: 10000,
+  maxAutoRedispatch: 1,
+};
+
+export function nextAgentPresence(state: AgentPresence, event: AgentPresenceEvent): AgentPresence {
+  switch (event.type) {
+    case 'agent_joined':
+      // A late agent_joined (e.g. Connected after TrackSubscribed) must not downgrade 'audio'
+      return state === 'audio' ? 'audio' : 'joined';
+    case 'audio_subscribed':
+      return 'audio';
+    case 'agent_left':
+      return 'left';
+    case 'timeout':
+      return state === 'audio' ? 'audio' : 'unavailable';
+    case 'retry':
+      return state === 'unavailable' || state === 'left' ? 'waiting' : state;
+  }
+}
+
+// Time until the watchdog fires for a state, or null when nothing needs watching
+export function watchdogTimeout(state: AgentPresence, options: AgentWatchdogOptions): number | null {
+  switch (state) {
+    case 'waiting':
+    case 'left':
+      return options.joinTimeoutMs;
+    case 'joined':
+      return options.audioTimeoutMs;
+    default:
+      return null;
+  }
+}
+
+export const AGENT_IDENTITY_PREFIX = 'agent-';
+
+// Minimal view of a LiveKit participant, so selection logic stays testable without a Room
+export interface AgentCandidate {
+  identity: string;
+  attributes: Readonly<Record<string, string>>;
+}
+
+export function isAgentParticipant(participant: AgentCandidate) {
+  return participant.identity.startsWith(AGENT_IDENTITY_PREFIX);
+}
+
+// Supervisor agents announce themselves with the participant attribute role=supervisor
+export function isSupervisorAgent(participant: AgentCandidate) {
+  return isAgentParticipant(participant) && participant.attributes.role === 'supervisor';
+}
+
+// First non-supervisor agent, skipping the identity that just left (its participant may still be listed)
+export function pickPrimaryAgent(participants: Iterable<AgentCandidate>, excludeIdentity?: string): string | null {
+  for (const participant of participants) {
+    if (participant.identity === excludeIdentity) continue;
+    if (isAgentParticipant(participant) && !isSupervisorAgent(participant)) {
+      return participant.identity;
+    }
+  }
+  return null;
+}
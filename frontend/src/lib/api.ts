@@ -1,55 +1,275 @@
 // src/lib/api.ts
+import { createLogger } from './logger';
+import type { TelemetrySummary } from './telemetry';
+
+const log = createLogger('api');
+
+// Mirrors ErrorCode in api/_lib/errors.ts, plus NETWORK_ERROR for requests that never got a response
+export type ApiErrorCode =
+  | 'INVALID_REQUEST'
+  | 'METHOD_NOT_ALLOWED'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'RATE_LIMITED'
+  | 'SESSION_LIMIT'
+  | 'LIVEKIT_UNAVAILABLE'
+  | 'DISPATCH_FAILED'
+  | 'INTERNAL_ERROR'
+  | 'NETWORK_ERROR';
+
+// Error response from the API, keeping the HTTP status and the server's error code
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: ApiErrorCode | null;
+  // Seconds to wait before retrying, from Retry-After on 429 responses
+  readonly retryAfter: number | null;
+  // X-Request-Id of the failed request, to find it in the server logs
+  readonly requestId: string | null;
+
+  constructor(
+    message: string,
+    status: number,
+    code: ApiErrorCode | null = null,
+    retryAfter: number | null = null,
+    requestId: string | null = null
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.retryAfter = retryAfter;
+    this.requestId = requestId;
+  }
+}
+
+// Empty for the app itself (same origin); the script widget points it at the Mogenie deployment
+let apiBaseUrl = '';
+
+export function setApiBaseUrl(url: string) {
+  apiBaseUrl = url.replace(/\/+$/, '');
+}
+
+// fetch() that reports network failures as ApiError too, so callers only handle one error type
+async function request(input: string, init?: RequestInit) {
+  try {
+    return await fetch(apiBaseUrl + input, init);
+  } catch (err) {
+    log.error(`Network error: ${input}`, err);
+    throw new ApiError(err instanceof Error ? err.message : 'Network error', 0, 'NETWORK_ERROR');
+  }
+}
+
+async function toApiError(response: Response, fallback: string) {
+  // Proxies and platform errors may not answer with JSON
+  const body = await response.json().catch(() => ({}));
+  const retryAfter = Number(response.headers.get('Retry-After')) || body.retry_after || null;
+  const error = new ApiError(body.error || fallback, response.status, body.code ?? null, retryAfter, response.headers.get('X-Request-Id'));
+  log.error(fallback, { status: error.status, code: error.code, message: error.message, requestId: error.requestId });
+  return error;
+}
+
 export interface AgentDispatchStatus {
+  // True only once the agent has actually joined the room
   success: boolean;
   error: string | null;
   agentName: string;
+  profile: string;
+  dispatchId: string | null;
+  attempts: number;
+  agentJoined: boolean;
+}
+
+export interface CreateRoomOptions {
+  // Must be one of the profiles allowlisted on the server (AGENT_PROFILES)
+  agentProfile?: string;
+  locale?: string;
+  entryPage?: string;
+  // Requests permission to publish on the data channel; without it text messages are rejected by LiveKit
+  textChat?: boolean;
+  // Session JWT from the host app, sent as Authorization: Bearer
+  sessionToken?: string;
+  // Captcha / proof-of-work token for anonymous callers, sent as X-Challenge-Token
+  challengeToken?: string;
+}
+
+// Mirrors SessionLimits in api/_lib/roomPolicy.ts
+export interface SessionLimits {
+  // Seconds until the server ends the call; null = no limit
+  ends_in_seconds: number | null;
+  // The last seconds in which the countdown is shown
+  wrap_up_seconds: number;
 }
 
 export interface RoomCredentials {
   room_name: string;
   token: string;
   livekit_url: string;
+  user_id: string;
   agent_dispatch?: AgentDispatchStatus;
+  // Absent from servers without room policies
+  session_limits?: SessionLimits;
 }
 
 export async function createRoom(
   userName: string,
-  userId?: string
+  userId?: string,
+  options: CreateRoomOptions = {}
 ): Promise<RoomCredentials> {
-  console.log('📡 Creating room...', { userName, userId });
-  
-  const response = await fetch('/api/rooms/create', {
+  log.info('Creating room', { userId, agentProfile: options.agentProfile });
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (options.sessionToken) {
+    headers.Authorization = `Bearer ${options.sessionToken}`;
+  }
+  if (options.challengeToken) {
+    headers['X-Challenge-Token'] = options.challengeToken;
+  }
+
+  const response = await request('/api/rooms/create', {
     method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
+    headers,
     body: JSON.stringify({
       user_name: userName,
       user_id: userId,
+      agent_profile: options.agentProfile,
+      locale: options.locale,
+      entry_page: options.entryPage,
+      text_chat: options.textChat,
     }),
   });
 
-  console.log('📡 Room creation response status:', response.status);
-
   if (!response.ok) {
-    const error = await response.json();
-    console.error('❌ Room creation failed:', error);
-    throw new Error(error.error || 'Failed to create room');
+    throw await toApiError(response, 'Failed to create room');
   }
 
   const credentials = await response.json();
-  console.log('✅ Room created:', {
+  log.info('Room created', {
     room_name: credentials.room_name,
     livekit_url: credentials.livekit_url,
-    tokenLength: credentials.token?.length,
     agent_dispatch: credentials.agent_dispatch,
+    requestId: response.headers.get('X-Request-Id'),
   });
 
   // Warn if agent dispatch failed
   if (credentials.agent_dispatch && !credentials.agent_dispatch.success) {
-    console.warn('⚠️ Agent dispatch failed:', credentials.agent_dispatch.error);
-    console.warn('⚠️ Agent name configured:', credentials.agent_dispatch.agentName);
+    log.warn('Agent dispatch failed', {
+      error: credentials.agent_dispatch.error,
+      agentName: credentials.agent_dispatch.agentName,
+    });
   }
 
   return credentials;
 }
+
+// Authenticated with the previous LiveKit token of the room; the server answers with a new one
+export async function rejoinRoom(
+  roomName: string,
+  token: string,
+  userName: string
+): Promise<RoomCredentials> {
+  log.info('Rejoining room', { roomName });
+
+  const response = await request('/api/rooms/rejoin', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify({
+      room_name: roomName,
+      user_name: userName,
+    }),
+  });
+
+  if (!response.ok) {
+    throw await toApiError(response, 'Failed to rejoin room');
+  }
+
+  return response.json();
+}
+
+// Asks the server to dispatch the room's agent again; authenticated with the participant's LiveKit token
+export async function redispatchAgent(roomName: string, token: string): Promise<AgentDispatchStatus> {
+  log.info('Re-dispatching agent', { roomName });
+
+  const response = await request('/api/rooms/dispatch', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify({ room_name: roomName }),
+  });
+
+  if (!response.ok) {
+    throw await toApiError(response, 'Failed to dispatch agent');
+  }
+
+  const { agent_dispatch } = await response.json();
+  return agent_dispatch;
+}
+
+export interface TranscriptSegmentUpload {
+  segment_id: string;
+  speaker: 'user' | 'agent';
+  text: string;
+  final: boolean;
+  time: number;
+}
+
+// Authenticated with the participant's LiveKit token; the server upserts by segment id so re-uploads are safe
+export async function uploadTranscript(
+  roomName: string,
+  token: string,
+  segments: TranscriptSegmentUpload[]
+): Promise<void> {
+  const response = await request(`/api/transcripts/${encodeURIComponent(roomName)}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify({ segments }),
+  });
+
+  if (!response.ok) {
+    throw await toApiError(response, 'Failed to upload transcript');
+  }
+}
+
+// Call quality summary at the end of a call; keepalive lets it finish when the page is being closed
+export async function sendTelemetry(token: string, summary: TelemetrySummary): Promise<void> {
+  const response = await request('/api/telemetry', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify(summary),
+    keepalive: true,
+  });
+
+  if (!response.ok) {
+    throw await toApiError(response, 'Failed to send telemetry');
+  }
+}
+
+// Only the owner may end the room, so the room's join token goes along
+export async function endRoom(roomName: string, token: string): Promise<void> {
+  log.info('Ending room', { roomName });
+
+  const response = await request(`/api/rooms/${encodeURIComponent(roomName)}`, {
+    method: 'DELETE',
+    headers: { Authorization: `Bearer ${token}` },
+  });
+
+  // Room already gone (e.g. emptyTimeout fired) - nothing left to tear down
+  if (response.status === 404) {
+    return;
+  }
+
+  if (!response.ok) {
+    throw await toApiError(response, 'Failed to end room');
+  }
+}
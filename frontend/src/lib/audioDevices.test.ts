@@ -0,0 +1,68 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { checkMicrophone, loadDevicePreferences, toMicrophoneError } from './audioDevices';
+
+function domError(name: string) {
+  const error = new Error(`${name} happened`);
+  error.name = name;
+  return error;
+}
+
+describe('toMicrophoneError', () => {
+  it('tells a refused prompt from a blocked permission', () => {
+    expect(toMicrophoneError(domError('NotAllowedError'), 'prompt').code).toBe('DENIED');
+    expect(toMicrophoneError(domError('NotAllowedError')).code).toBe('DENIED');
+    expect(toMicrophoneError(domError('NotAllowedError'), 'denied').code).toBe('BLOCKED');
+  });
+
+  it('maps missing and busy devices', () => {
+    expect(toMicrophoneError(domError('NotFoundError')).code).toBe('NO_DEVICE');
+    expect(toMicrophoneError(domError('OverconstrainedError')).code).toBe('NO_DEVICE');
+    expect(toMicrophoneError(domError('NotReadableError')).code).toBe('IN_USE');
+    expect(toMicrophoneError(domError('SecurityError')).code).toBe('UNSUPPORTED');
+    expect(toMicrophoneError('boom').code).toBe('UNKNOWN');
+  });
+});
+
+describe('checkMicrophone', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reports browsers without getUserMedia as unsupported', async () => {
+    vi.stubGlobal('navigator', {});
+
+    await expect(checkMicrophone()).rejects.toMatchObject({ name: 'MicrophoneError', code: 'UNSUPPORTED' });
+  });
+
+  it('asks for the remembered device and releases it again', async () => {
+    const stop = vi.fn();
+    const getUserMedia = vi.fn(async () => ({ getTracks: () => [{ stop }] }));
+    vi.stubGlobal('navigator', { mediaDevices: { getUserMedia } });
+
+    await checkMicrophone('headset');
+
+    expect(getUserMedia).toHaveBeenCalledWith({ audio: { deviceId: { ideal: 'headset' } } });
+    expect(stop).toHaveBeenCalled();
+  });
+
+  it('classifies a denied prompt using the permission state', async () => {
+    vi.stubGlobal('navigator', {
+      mediaDevices: { getUserMedia: vi.fn(async () => { throw domError('NotAllowedError'); }) },
+      permissions: { query: vi.fn(async () => ({ state: 'denied' })) },
+    });
+
+    await expect(checkMicrophone()).rejects.toMatchObject({ code: 'BLOCKED' });
+  });
+});
+
+describe('loadDevicePreferences', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('keeps only string device ids', () => {
+    vi.stubGlobal('localStorage', { getItem: () => JSON.stringify({ audioinput: 'headset', audiooutput: 3 }) });
+
+    expect(loadDevicePreferences()).toEqual({ audioinput: 'headset' });
+  });
+});
@@ -0,0 +1,155 @@
+// src/lib/audioDevices.ts
+// Microphone / speaker selection (remembered across visits) and the pre-call microphone check
+
+import { Room } from 'livekit-client';
+import { createLogger } from './logger';
+
+const log = createLogger('devices');
+
+const STORAGE_KEY = 'mogenie-audio-devices';
+
+export type AudioDeviceKind = 'audioinput' | 'audiooutput';
+
+// deviceIds picked by the user; a missing entry means the browser default
+export type AudioDevicePreferences = Partial<Record<AudioDeviceKind, string>>;
+
+export function loadDevicePreferences(): AudioDevicePreferences {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return {};
+
+    const prefs = JSON.parse(raw);
+    const result: AudioDevicePreferences = {};
+    for (const kind of ['audioinput', 'audiooutput'] as const) {
+      if (typeof prefs?.[kind] === 'string') result[kind] = prefs[kind];
+    }
+    return result;
+  } catch {
+    return {};
+  }
+}
+
+export function saveDevicePreferences(prefs: AudioDevicePreferences) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(prefs));
+  } catch (err) {
+    log.warn('Could not persist audio devices', err);
+  }
+}
+
+// Labels stay empty until microphone permission has been granted, so list after checkMicrophone()
+export function listAudioDevices(kind: AudioDeviceKind): Promise<MediaDeviceInfo[]> {
+  return Room.getLocalDevices(kind, false);
+}
+
+// Speaker selection needs HTMLMediaElement.setSinkId (missing in older Firefox and Safari)
+export function supportsOutputSelection() {
+  return typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype;
+}
+
+export type MicrophoneErrorCode =
+  // The user dismissed or refused the permission prompt
+  | 'DENIED'
+  // The browser remembers the refusal; only the site settings can undo it
+  | 'BLOCKED'
+  | 'NO_DEVICE'
+  // Another app (or tab) holds the microphone exclusively
+  | 'IN_USE'
+  // No getUserMedia, e.g. a page served over plain http
+  | 'UNSUPPORTED'
+  | 'UNKNOWN';
+
+export class MicrophoneError extends Error {
+  readonly code: MicrophoneErrorCode;
+
+  constructor(message: string, code: MicrophoneErrorCode) {
+    super(message);
+    this.name = 'MicrophoneError';
+    this.code = code;
+  }
+}
+
+// permission: navigator.permissions state for 'microphone', where the browser supports querying it
+export function toMicrophoneError(err: unknown, permission?: PermissionState): MicrophoneError {
+  const name = err instanceof Error ? err.name : '';
+  const message = err instanceof Error ? err.message : String(err);
+
+  switch (name) {
+    case 'NotAllowedError':
+    case 'PermissionDeniedError':
+      return new MicrophoneError(message, permission === 'denied' ? 'BLOCKED' : 'DENIED');
+    case 'NotFoundError':
+    case 'DevicesNotFoundError':
+    case 'OverconstrainedError':
+      return new MicrophoneError(message, 'NO_DEVICE');
+    case 'NotReadableError':
+    case 'TrackStartError':
+    case 'AbortError':
+      return new MicrophoneError(message, 'IN_USE');
+    case 'SecurityError':
+    case 'TypeError':
+      return new MicrophoneError(message, 'UNSUPPORTED');
+    default:
+      return new MicrophoneError(message, 'UNKNOWN');
+  }
+}
+
+async function queryMicrophonePermission(): Promise<PermissionState | undefined> {
+  try {
+    // 'microphone' is not in every browser's PermissionName (Firefox throws)
+    const status = await navigator.permissions?.query({ name: 'microphone' as PermissionName });
+    return status?.state;
+  } catch {
+    return undefined;
+  }
+}
+
+// Opens the microphone, preferring deviceId but falling back to another one if it is gone
+export async function openMicrophone(deviceId?: string): Promise<MediaStream> {
+  if (!navigator.mediaDevices?.getUserMedia) {
+    throw new MicrophoneError('getUserMedia is not available', 'UNSUPPORTED');
+  }
+  try {
+    return await navigator.mediaDevices.getUserMedia({ audio: deviceId ? { deviceId: { ideal: deviceId } } : true });
+  } catch (err) {
+    throw toMicrophoneError(err, await queryMicrophonePermission());
+  }
+}
+
+// Pre-call check: makes sure the microphone can be opened (asking for permission) before a room is created
+export async function checkMicrophone(deviceId?: string) {
+  const stream = await openMicrophone(deviceId);
+  stream.getTracks().forEach((track) => track.stop());
+}
+
+// Short two-tone chime through the chosen speaker, so the user can check they hear the agent
+export async function playTestSound(outputDeviceId?: string) {
+  const context = new AudioContext();
+  const destination = context.createMediaStreamDestination();
+  const oscillator = context.createOscillator();
+  const gain = context.createGain();
+  const start = context.currentTime;
+
+  oscillator.frequency.setValueAtTime(660, start);
+  oscillator.frequency.setValueAtTime(880, start + 0.25);
+  gain.gain.setValueAtTime(0.2, start);
+  gain.gain.exponentialRampToValueAtTime(0.001, start + 0.6);
+  oscillator.connect(gain).connect(destination);
+
+  const element = new Audio();
+  element.srcObject = destination.stream;
+  try {
+    if (outputDeviceId && supportsOutputSelection()) {
+      await element.setSinkId(outputDeviceId);
+    }
+    await element.play();
+    await new Promise((resolve) => {
+      oscillator.onended = resolve;
+      oscillator.start(start);
+      oscillator.stop(start + 0.6);
+    });
+  } finally {
+    element.srcObject = null;
+    await context.close();
+  }
+}
@@ -0,0 +1,50 @@
+// src/lib/audioLevels.ts
+// Energy meters on live audio tracks (the user's published microphone and the agent's subscribed track)
+
+import { createLogger } from './logger';
+
+const log = createLogger('audio');
+
+export interface LevelMeter {
+  // Current energy, 0..1
+  getLevel(): number;
+  // Disconnects the nodes and closes the audio context; the track itself belongs to the caller
+  dispose(): void;
+}
+
+export type CreateLevelMeter = (track: MediaStreamTrack) => LevelMeter;
+
+export interface AudioLevels {
+  user: number;
+  agent: number;
+}
+
+export const SILENT_LEVELS: AudioLevels = { user: 0, agent: 0 };
+
+// Average of the analyser's frequency bins, the same measure the wave animation has always used
+export function createAnalyserMeter(track: MediaStreamTrack): LevelMeter {
+  const context = new AudioContext();
+  const source = context.createMediaStreamSource(new MediaStream([track]));
+  const analyser = context.createAnalyser();
+  analyser.smoothingTimeConstant = 0.8;
+  analyser.fftSize = 1024;
+  source.connect(analyser);
+  // Created after the user clicked start, but a context may still begin suspended
+  context.resume().catch(() => {});
+
+  const data = new Uint8Array(analyser.frequencyBinCount);
+  return {
+    getLevel() {
+      analyser.getByteFrequencyData(data);
+      return data.reduce((a, b) => a + b, 0) / data.length / 255;
+    },
+    dispose() {
+      source.disconnect();
+      if (context.state !== 'closed') {
+        context.close().catch((err) => {
+          log.warn('AudioContext close error', err);
+        });
+      }
+    },
+  };
+}
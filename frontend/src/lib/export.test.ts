@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { toJSON, toMarkdown, toSRT, toWebVTT } from './export';
+import type { ConversationRecord } from './history';
+import { setLanguage } from './i18n';
+import { formatTimestamp, type TranscriptEntry } from './transcript';
+
+const STARTED_AT = Date.UTC(2026, 0, 25, 9, 30, 0);
+
+const entry = (id: string, speaker: TranscriptEntry['speaker'], text: string, offsetMs: number, final = true): TranscriptEntry => ({
+  id,
+  speaker,
+  text,
+  final,
+  time: STARTED_AT + offsetMs,
+});
+
+const record: ConversationRecord = {
+  room_name: 'momo-room-1737797400000-abc123',
+  started_at: STARTED_AT,
+  ended_at: STARTED_AT + 60000,
+  agent_identity: 'agent-AJ_123',
+  messages: [
+    entry('user:1', 'user', 'Túi thần tài là gì?', 2000),
+    entry('agent:1', 'agent', 'Dạ, Túi Thần Tài là sản phẩm tiết kiệm của MoMo ạ.', 3000),
+    entry('user:2', 'user', 'Cảm ơn', 30000),
+    entry('agent:2', 'agent', 'Dạ em', 31000, false),
+  ],
+};
+
+describe('toSRT', () => {
+  it('writes numbered cues relative to the call start and skips interim segments', () => {
+    expect(toSRT(record)).toBe([
+      '1',
+      '00:00:02,000 --> 00:00:03,000',
+      'Bạn: Túi thần tài là gì?',
+      '',
+      '2',
+      '00:00:03,000 --> 00:00:06,000',
+      'Mogenie: Dạ, Túi Thần Tài là sản phẩm tiết kiệm của MoMo ạ.',
+      '',
+      '3',
+      '00:00:30,000 --> 00:00:31,500',
+      'Bạn: Cảm ơn',
+      '',
+    ].join('\n'));
+  });
+});
+
+describe('toWebVTT', () => {
+  it('writes a WEBVTT header and voice tags', () => {
+    const vtt = toWebVTT(record);
+
+    expect(vtt.startsWith('WEBVTT\n\n00:00:02.000 --> 00:00:03.000\n<v Bạn>Túi thần tài là gì?')).toBe(true);
+    expect(vtt).toContain('<v Mogenie>Dạ, Túi Thần Tài là sản phẩm tiết kiệm của MoMo ạ.');
+    expect(vtt).not.toContain('Dạ em');
+  });
+});
+
+describe('cue text', () => {
+  const tricky: ConversationRecord = {
+    ...record,
+    messages: [entry('user:1', 'user', 'a < b && c --> d\n\nsecond line\nthird', 2000)],
+  };
+
+  it('escapes WebVTT markup and keeps each cue on one line', () => {
+    expect(toWebVTT(tricky)).toBe([
+      'WEBVTT',
+      '',
+      '00:00:02.000 --> 00:00:04.100',
+      '<v Bạn>a &lt; b &amp;&amp; c --&gt; d second line third',
+      '',
+    ].join('\n'));
+  });
+
+  it('collapses blank lines in SRT cues', () => {
+    expect(toSRT(tricky)).toBe([
+      '1',
+      '00:00:02,000 --> 00:00:04,100',
+      'Bạn: a < b && c --> d second line third',
+      '',
+    ].join('\n'));
+  });
+});
+
+describe('toMarkdown', () => {
+  afterEach(() => {
+    setLanguage('vi');
+  });
+
+  const at = (offsetMs: number, locale: string) => formatTimestamp(new Date(STARTED_AT + offsetMs), locale);
+
+  it('writes the time of each turn with its offset from the call start', () => {
+    const markdown = toMarkdown(record);
+
+    expect(markdown).toContain('- Room: `momo-room-1737797400000-abc123`');
+    expect(markdown).toContain('- Agent: `agent-AJ_123`');
+    expect(markdown).toContain(`**Bạn** · ${at(2000, 'vi-VN')} (+00:00:02)\n\nTúi thần tài là gì?`);
+    expect(markdown).toContain(`**Mogenie** · ${at(3000, 'vi-VN')} (+00:00:03)`);
+  });
+
+  it('formats the times in the language chosen at download, not when the call was recorded', () => {
+    setLanguage('en');
+
+    expect(toMarkdown(record)).toContain(`**You** · ${at(2000, 'en-US')} (+00:00:02)`);
+  });
+});
+
+describe('toJSON', () => {
+  it('keeps the full record including interim segments', () => {
+    expect(JSON.parse(toJSON(record))).toEqual(record);
+  });
+});
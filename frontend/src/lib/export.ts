@@ -0,0 +1,131 @@
+// src/lib/export.ts
+// Converts a stored conversation into downloadable JSON, Markdown and subtitle files
+
+import type { ConversationRecord } from './history';
+import { t } from './i18n';
+import { formatTimestamp, type Speaker, type TranscriptEntry } from './transcript';
+
+export type ExportFormat = 'json' | 'md' | 'srt' | 'vtt';
+
+// Exports are written in the UI language, and its locale, at the time of download
+function speakerLabel(speaker: Speaker) {
+  return t(`speaker.${speaker}`);
+}
+
+// Subtitle cues last roughly as long as it takes to read them, bounded so one cue never fills the screen for long
+const MS_PER_CHAR = 60;
+const MIN_CUE_MS = 1500;
+const MAX_CUE_MS = 10000;
+
+interface Cue {
+  start: number;
+  end: number;
+  entry: TranscriptEntry;
+}
+
+function finalEntries(record: ConversationRecord) {
+  return record.messages.filter((entry) => entry.final && entry.text.trim());
+}
+
+function buildCues(record: ConversationRecord): Cue[] {
+  // System notes are not speech, so they never become subtitles
+  const entries = finalEntries(record).filter((entry) => entry.speaker !== 'system');
+
+  return entries.map((entry, index) => {
+    const start = Math.max(0, entry.time - record.started_at);
+    const estimated = Math.min(MAX_CUE_MS, Math.max(MIN_CUE_MS, entry.text.length * MS_PER_CHAR));
+    const next = entries[index + 1];
+    const nextStart = next ? Math.max(0, next.time - record.started_at) : Infinity;
+    // Stop at the next cue so subtitles never overlap, but keep every cue visible for at least a moment
+    const end = Math.max(start + 1, Math.min(start + estimated, nextStart));
+    return { start, end, entry };
+  });
+}
+
+function formatOffset(ms: number, fractionSeparator: string) {
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  const hours = Math.floor(ms / 3600000);
+  const minutes = Math.floor((ms % 3600000) / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${fractionSeparator}${pad(ms % 1000, 3)}`;
+}
+
+// A blank line ends a cue in both subtitle formats, so a cue's text is kept on one line
+function cueText(text: string) {
+  return text.trim().replace(/\s*\n\s*/g, ' ');
+}
+
+// WebVTT cue text is markup: & and < start entities and tags, and --> must never appear in it
+function escapeVTT(text: string) {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export function toJSON(record: ConversationRecord) {
+  return JSON.stringify(record, null, 2);
+}
+
+export function toMarkdown(record: ConversationRecord) {
+  const lines = [
+    `# ${t('export.title')}`,
+    '',
+    `- Room: \`${record.room_name}\``,
+    `- ${t('export.started')}: ${formatTimestamp(new Date(record.started_at))}`,
+  ];
+  if (record.ended_at) {
+    lines.push(`- ${t('export.ended')}: ${formatTimestamp(new Date(record.ended_at))}`);
+  }
+  if (record.agent_identity) {
+    lines.push(`- Agent: \`${record.agent_identity}\``);
+  }
+
+  for (const entry of finalEntries(record)) {
+    if (entry.speaker === 'system') {
+      lines.push('', `_${entry.text} · ${formatTimestamp(new Date(entry.time))}_`);
+      continue;
+    }
+    const offset = formatOffset(Math.max(0, entry.time - record.started_at), '.').slice(0, 8);
+    lines.push('', `**${speakerLabel(entry.speaker)}** · ${formatTimestamp(new Date(entry.time))} (+${offset})`, '', entry.text);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+export function toSRT(record: ConversationRecord) {
+  return buildCues(record)
+    .map((cue, index) => [
+      String(index + 1),
+      `${formatOffset(cue.start, ',')} --> ${formatOffset(cue.end, ',')}`,
+      `${speakerLabel(cue.entry.speaker)}: ${cueText(cue.entry.text)}`,
+    ].join('\n'))
+    .join('\n\n') + '\n';
+}
+
+export function toWebVTT(record: ConversationRecord) {
+  const cues = buildCues(record).map((cue) => [
+    `${formatOffset(cue.start, '.')} --> ${formatOffset(cue.end, '.')}`,
+    `<v ${escapeVTT(speakerLabel(cue.entry.speaker))}>${escapeVTT(cueText(cue.entry.text))}`,
+  ].join('\n'));
+
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+}
+
+const FORMATS: Record<ExportFormat, { render: (record: ConversationRecord) => string; mime: string }> = {
+  json: { render: toJSON, mime: 'application/json' },
+  md: { render: toMarkdown, mime: 'text/markdown' },
+  srt: { render: toSRT, mime: 'application/x-subrip' },
+  vtt: { render: toWebVTT, mime: 'text/vtt' },
+};
+
+export function downloadConversation(record: ConversationRecord, format: ExportFormat) {
+  const { render, mime } = FORMATS[format];
+  const blob = new Blob([render(record)], { type: `${mime};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${record.room_name}.${format}`;
+  link.click();
+
+  // Revoke on the next tick so the browser has started the download
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
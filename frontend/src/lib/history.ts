@@ -0,0 +1,84 @@
+// src/lib/history.ts
+// Stores finished (and in-progress) conversations locally in IndexedDB
+
+import type { TranscriptEntry } from './transcript';
+
+const DB_NAME = 'mogenie';
+const DB_VERSION = 1;
+const STORE = 'conversations';
+
+export interface ConversationRecord {
+  // Room names are unique per conversation, so they double as the key
+  room_name: string;
+  started_at: number;
+  ended_at: number | null;
+  agent_identity: string | null;
+  messages: TranscriptEntry[];
+}
+
+export function createConversation(roomName: string): ConversationRecord {
+  return {
+    room_name: roomName,
+    started_at: Date.now(),
+    ended_at: null,
+    agent_identity: null,
+    messages: [],
+  };
+}
+
+export function finishConversation(record: ConversationRecord): ConversationRecord {
+  return { ...record, ended_at: Date.now() };
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'room_name' });
+        store.createIndex('started_at', 'started_at');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed (e.g. storage blocked)
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function saveConversation(record: ConversationRecord): Promise<void> {
+  await withStore('readwrite', (store) => store.put(record));
+}
+
+export async function getConversation(roomName: string): Promise<ConversationRecord | null> {
+  const record = await withStore<ConversationRecord | undefined>('readonly', (store) => store.get(roomName));
+  return record ?? null;
+}
+
+// Newest conversation first
+export async function listConversations(): Promise<ConversationRecord[]> {
+  const records = await withStore<ConversationRecord[]>('readonly', (store) => store.index('started_at').getAll());
+  return records.reverse();
+}
+
+export async function deleteConversation(roomName: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(roomName));
+}
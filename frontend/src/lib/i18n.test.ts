@@ -0,0 +1,54 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getLanguage, getLocale, setLanguage, subscribeLanguage, t, translate } from './i18n';
+import { en } from './locales/en';
+import { vi as viCatalog } from './locales/vi';
+import { formatTimestamp } from './transcript';
+
+describe('catalogs', () => {
+  it('translates every Vietnamese key and keeps the placeholders', () => {
+    const placeholders = (text: string) => (text.match(/\{\w+\}/g) ?? []).sort();
+
+    expect(Object.keys(en).sort()).toEqual(Object.keys(viCatalog).sort());
+    for (const [key, text] of Object.entries(viCatalog)) {
+      expect(placeholders(en[key as keyof typeof en]), key).toEqual(placeholders(text));
+    }
+  });
+});
+
+describe('translate', () => {
+  it('fills in placeholders', () => {
+    expect(translate('en', 'error.RATE_LIMITED_AFTER', { seconds: 30 })).toBe('Too many attempts, please try again in 30 seconds');
+    expect(translate('vi', 'call.countdown', { time: '1:05' })).toBe('Cuộc gọi sẽ kết thúc sau 1:05');
+  });
+});
+
+describe('language choice', () => {
+  afterEach(() => {
+    setLanguage('vi');
+    localStorage.clear();
+  });
+
+  it('defaults to Vietnamese, remembers the switch and notifies subscribers', () => {
+    const onChange = vi.fn();
+    const unsubscribe = subscribeLanguage(onChange);
+
+    expect(getLanguage()).toBe('vi');
+    setLanguage('en');
+    setLanguage('en');
+    unsubscribe();
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(localStorage.getItem('mogenie-language')).toBe('en');
+    expect(getLocale()).toBe('en-US');
+    expect(t('speaker.user')).toBe('You');
+  });
+
+  it('formats timestamps in the locale of the UI language', () => {
+    const date = new Date(2026, 0, 25, 16, 30, 2);
+
+    expect(formatTimestamp(date)).toContain('25/01/2026');
+    setLanguage('en');
+    expect(formatTimestamp(date)).toContain('01/25/2026');
+  });
+});
@@ -0,0 +1,104 @@
+// src/lib/i18n.ts
+// UI language: message catalogs, the user's choice (remembered across visits) and the locale passed to
+// the agent so it speaks the same language. ?lang=en in the page URL picks a language as well.
+
+import { createLogger } from './logger';
+import { en } from './locales/en';
+import { vi, type MessageKey } from './locales/vi';
+
+export type { MessageKey } from './locales/vi';
+
+const log = createLogger('i18n');
+
+const STORAGE_KEY = 'mogenie-language';
+
+export const LANGUAGES = ['vi', 'en'] as const;
+export type Language = typeof LANGUAGES[number];
+
+export const DEFAULT_LANGUAGE: Language = 'vi';
+
+// Shown in the switcher in their own language
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  vi: 'Tiếng Việt',
+  en: 'English',
+};
+
+// BCP 47 locale for dates and numbers, and the locale sent to /api/rooms/create and the agent
+export const LANGUAGE_LOCALES: Record<Language, string> = {
+  vi: 'vi-VN',
+  en: 'en-US',
+};
+
+const CATALOGS: Record<Language, Record<MessageKey, string>> = { vi, en };
+
+export function isLanguage(value: unknown): value is Language {
+  return typeof value === 'string' && (LANGUAGES as readonly string[]).includes(value);
+}
+
+function initialLanguage(): Language {
+  try {
+    const param = new URLSearchParams(window.location.search).get('lang');
+    if (isLanguage(param)) {
+      localStorage.setItem(STORAGE_KEY, param);
+      return param;
+    }
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isLanguage(stored)) return stored;
+  } catch {
+    // Storage blocked (sandboxed iframe, privacy mode) - the choice lasts until the page is closed
+  }
+  return DEFAULT_LANGUAGE;
+}
+
+let current: Language = initialLanguage();
+const listeners = new Set<() => void>();
+
+export function getLanguage() {
+  return current;
+}
+
+export function setLanguage(language: Language) {
+  if (language === current) return;
+
+  current = language;
+  try {
+    localStorage.setItem(STORAGE_KEY, language);
+  } catch (err) {
+    log.warn('Could not persist language', err);
+  }
+  listeners.forEach((listener) => listener());
+}
+
+// For useSyncExternalStore
+export function subscribeLanguage(onChange: () => void) {
+  listeners.add(onChange);
+  return () => {
+    listeners.delete(onChange);
+  };
+}
+
+export function getLocale(language: Language = current) {
+  return LANGUAGE_LOCALES[language];
+}
+
+// Catalog text with {name} placeholders filled in; unknown placeholders are left as they are
+export function translate(language: Language, key: MessageKey, params?: Record<string, string | number>) {
+  const text = CATALOGS[language][key];
+  if (!params) return text;
+  return text.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+}
+
+// In the current language, for code outside React (exports, transcript notes)
+export function t(key: MessageKey, params?: Record<string, string | number>) {
+  return translate(current, key, params);
+}
+
+// Keeps <html lang> in sync for screen readers and the browser's translate prompt. Only for pages
+// Mogenie owns; the widget's script mode must not touch the host page.
+export function bindDocumentLanguage() {
+  const apply = () => {
+    document.documentElement.lang = current;
+  };
+  apply();
+  return subscribeLanguage(apply);
+}
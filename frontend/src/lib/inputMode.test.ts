@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_VAD_OPTIONS, INITIAL_VAD_STATE, isMicOpen, nextVadState, type VadState } from './inputMode';
+
+const options = { threshold: 0.1, hangoverMs: 500 };
+
+const feed = (levels: [level: number, at: number][], start: VadState = INITIAL_VAD_STATE) =>
+  levels.reduce((state, [level, at]) => nextVadState(state, level, at, options), start);
+
+describe('nextVadState', () => {
+  it('opens as soon as the level crosses the threshold', () => {
+    expect(feed([[0.05, 0]]).speaking).toBe(false);
+    expect(feed([[0.05, 0], [0.2, 16]]).speaking).toBe(true);
+  });
+
+  it('keeps speaking through pauses shorter than the hangover', () => {
+    expect(feed([[0.2, 0], [0.01, 300], [0.01, 499]]).speaking).toBe(true);
+    expect(feed([[0.2, 0], [0.01, 300], [0.3, 450], [0.01, 900]]).speaking).toBe(true);
+  });
+
+  it('closes once the hangover has passed', () => {
+    expect(feed([[0.2, 0], [0.01, 500]]).speaking).toBe(false);
+  });
+
+  it('uses a threshold above silence by default', () => {
+    expect(nextVadState(INITIAL_VAD_STATE, 0.02, 0, DEFAULT_VAD_OPTIONS).speaking).toBe(false);
+  });
+});
+
+describe('isMicOpen', () => {
+  const idle = { paused: false, talking: false, voiceActive: false };
+
+  it('follows the input mode', () => {
+    expect(isMicOpen('open_mic', idle)).toBe(true);
+    expect(isMicOpen('push_to_talk', idle)).toBe(false);
+    expect(isMicOpen('push_to_talk', { ...idle, talking: true })).toBe(true);
+    expect(isMicOpen('vad', { ...idle, voiceActive: true })).toBe(true);
+  });
+
+  it('stays closed while paused', () => {
+    expect(isMicOpen('open_mic', { ...idle, paused: true })).toBe(false);
+    expect(isMicOpen('push_to_talk', { paused: true, talking: true, voiceActive: true })).toBe(false);
+  });
+});
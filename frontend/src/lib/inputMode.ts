@@ -0,0 +1,56 @@
+// src/lib/inputMode.ts
+// Gating of the published microphone track per input mode: open mic, push-to-talk, or client-side VAD
+
+import type { InputMode } from './protocol';
+
+export interface VadOptions {
+  // Analyser energy (0..1, the same level that drives the wave animation) above which the user is speaking
+  threshold: number;
+  // How long the mic stays open after the energy drops, so word endings and short pauses are not cut off
+  hangoverMs: number;
+}
+
+export const DEFAULT_VAD_OPTIONS: VadOptions = {
+  threshold: 0.1,
+  hangoverMs: 600,
+};
+
+export interface VadState {
+  speaking: boolean;
+  // Time of the last level above the threshold
+  lastVoiceAt: number;
+}
+
+export const INITIAL_VAD_STATE: VadState = { speaking: false, lastVoiceAt: 0 };
+
+export function nextVadState(state: VadState, level: number, now: number, options: VadOptions): VadState {
+  if (level >= options.threshold) {
+    return { speaking: true, lastVoiceAt: now };
+  }
+  if (state.speaking && now - state.lastVoiceAt >= options.hangoverMs) {
+    return { ...state, speaking: false };
+  }
+  return state;
+}
+
+export interface MicGateInput {
+  // Paused by the user; wins over every mode
+  paused: boolean;
+  // Push-to-talk button or key held
+  talking: boolean;
+  // VAD currently detects speech
+  voiceActive: boolean;
+}
+
+// Whether the published microphone track should be live
+export function isMicOpen(mode: InputMode, { paused, talking, voiceActive }: MicGateInput) {
+  if (paused) return false;
+  switch (mode) {
+    case 'open_mic':
+      return true;
+    case 'push_to_talk':
+      return talking;
+    case 'vad':
+      return voiceActive;
+  }
+}
@@ -0,0 +1,118 @@
+// src/lib/locales/en.ts
+// English UI strings; keys are checked against the Vietnamese catalog
+
+import type { MessageKey } from './vi';
+
+export const en: Record<MessageKey, string> = {
+  'app.title': 'Mogenie Assistant',
+  'app.subtitle': 'Here to help 24/7',
+  'app.language': 'Language',
+  'app.languageLocked': 'The language cannot be changed during a voice-only call',
+
+  'common.close': 'Close',
+  'common.retry': 'Try again',
+  'common.loading': 'Loading...',
+
+  'speaker.user': 'You',
+  'speaker.agent': 'Mogenie',
+  'speaker.system': 'System',
+
+  'start.resume': 'Continue Conversation',
+  'start.begin': 'Start Conversation',
+  'start.textOnly': 'Text only (no microphone)',
+  'start.inputMode': 'Microphone mode',
+  'start.textOnlyHint': 'Type your messages, Mogenie will answer in text',
+  'start.microphoneHint': 'You will need to allow microphone access',
+  'start.checkDevices': 'Check microphone & speaker',
+  'start.history': 'Conversation history',
+  'start.timeLimitReached': 'Your last call ended because it reached the maximum duration',
+  'start.connecting': 'Connecting...',
+
+  'inputMode.open_mic': 'Always-on microphone',
+  'inputMode.push_to_talk': 'Hold to talk',
+  'inputMode.vad': 'Automatic voice detection',
+
+  'error.title': '❌ Something went wrong',
+  'error.microphoneTitle': '🎤 Microphone unavailable',
+  'error.requestId': 'Request ID:',
+  'error.connect': 'Could not connect',
+  'error.INVALID_REQUEST': 'The request was not valid',
+  'error.METHOD_NOT_ALLOWED': 'This request is not supported',
+  'error.UNAUTHORIZED': 'Your session is not valid, please reload the page',
+  'error.FORBIDDEN': 'You are not allowed to join this conversation',
+  'error.NOT_FOUND': 'The conversation has ended, please start a new one',
+  'error.RATE_LIMITED': 'Too many attempts, please try again in a few minutes',
+  'error.RATE_LIMITED_AFTER': 'Too many attempts, please try again in {seconds} seconds',
+  'error.SESSION_LIMIT': 'You have too many open conversations, end one and try again',
+  'error.LIVEKIT_UNAVAILABLE': 'The voice service is temporarily unavailable, please try again later',
+  'error.DISPATCH_FAILED': 'Mogenie is busy, please try again',
+  'error.INTERNAL_ERROR': 'The server ran into a problem, please try again',
+  'error.NETWORK_ERROR': 'No network connection, please check it and try again',
+
+  'microphone.DENIED': 'You have not allowed the microphone yet. Click "Try again" and choose "Allow" when the browser asks.',
+  'microphone.BLOCKED': 'The browser blocks the microphone on this page. Click the lock icon next to the address bar, allow the microphone and reload the page.',
+  'microphone.NO_DEVICE': 'No microphone found. Plug in a headset or microphone and try again.',
+  'microphone.IN_USE': 'The microphone is used by another application. Close it (Zoom, Meet...) and try again.',
+  'microphone.UNSUPPORTED': 'This browser does not support the microphone on this page. Use a recent Chrome, Edge or Safari over https.',
+  'microphone.UNKNOWN': 'Could not open the microphone. Check your device and try again.',
+
+  'health.good': 'Good connection',
+  'health.weak': 'Weak connection',
+  'health.lost': 'Connection lost',
+  'health.unknown': 'Measuring connection...',
+  'health.rtt': 'Latency {ms} ms',
+  'health.jitter': 'Jitter {ms} ms',
+  'health.packetLoss': 'Packet loss {pct}%',
+
+  'call.countdown': 'The call ends in {time}',
+  'call.reconnecting': 'Connection lost, reconnecting...',
+  'call.agentWaiting': 'Waiting for Mogenie to join...',
+  'call.agentJoined': 'Mogenie is getting ready...',
+  'call.agentLeft': 'Mogenie left the conversation, reconnecting...',
+  'call.agentUnavailable': 'Mogenie is not available right now',
+  'call.agentSpeaking': 'The agent is thinking and answering...',
+  'call.typeBelow': 'Type your message below',
+  'call.micPaused': 'Recording paused',
+  'call.listening': 'Listening...',
+  'call.holdToTalkHint': 'Hold the button or the space bar to talk',
+  'call.startSpeaking': 'Start speaking',
+  'call.interrupt': '✋ Interrupt',
+  'call.interruptTitle': 'Interrupt (Esc)',
+  'call.unmuteAgent': 'Unmute',
+  'call.muteAgent': 'Mute',
+  'call.resume': 'Resume',
+  'call.pause': 'Pause',
+  'call.devices': 'Microphone & speaker',
+  'call.end': 'End call',
+  'call.releaseToSend': 'Release to send',
+  'call.holdToTalk': 'Hold to talk',
+  'call.transcript': '📝 Realtime transcript',
+  'call.interrupted': '(interrupted)',
+  'call.messagePlaceholder': 'Type a message for Mogenie...',
+  'call.message': 'Message',
+  'call.send': 'Send',
+  'call.agentHandoff': 'The conversation was handed over to another agent',
+
+  'devices.title': 'Microphone & speaker',
+  'devices.checking': 'Checking the microphone...',
+  'devices.microphone': 'Microphone',
+  'devices.speaker': 'Speaker',
+  'devices.inputLevel': 'Microphone level',
+  'devices.speakHint': 'Say something, the bar above should move',
+  'devices.playing': 'Playing...',
+  'devices.testSound': '🔊 Play test sound',
+
+  'history.title': 'Conversation history',
+  'history.loadFailed': 'Could not load the conversation history',
+  'history.deleteFailed': 'Could not delete the conversation',
+  'history.empty': 'No conversations yet',
+  'history.messages': '{count} messages',
+  'history.minutes': '{count} min',
+  'history.delete': 'Delete',
+
+  'export.title': 'Conversation with Mogenie',
+  'export.started': 'Started',
+  'export.ended': 'Ended',
+
+  'widget.launcher': 'Chat with Mogenie',
+};
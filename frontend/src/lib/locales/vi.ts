@@ -0,0 +1,119 @@
+// src/lib/locales/vi.ts
+// Vietnamese UI strings, the reference catalog: every other language must translate each key.
+// {name} placeholders are filled in by t().
+
+export const vi = {
+  'app.title': 'Trợ Lý Mogenie',
+  'app.subtitle': 'Sẵn sàng hỗ trợ 24/7',
+  'app.language': 'Ngôn ngữ',
+  'app.languageLocked': 'Không thể đổi ngôn ngữ trong cuộc gọi chỉ có giọng nói',
+
+  'common.close': 'Đóng',
+  'common.retry': 'Thử lại',
+  'common.loading': 'Đang tải...',
+
+  'speaker.user': 'Bạn',
+  'speaker.agent': 'Mogenie',
+  'speaker.system': 'Hệ thống',
+
+  'start.resume': 'Tiếp Tục Cuộc Trò Chuyện',
+  'start.begin': 'Bắt Đầu Cuộc Trò chuyện',
+  'start.textOnly': 'Chỉ nhắn tin (không dùng microphone)',
+  'start.inputMode': 'Chế độ micro',
+  'start.textOnlyHint': 'Bạn có thể gõ tin nhắn, Mogenie sẽ trả lời bằng chữ',
+  'start.microphoneHint': 'Bạn sẽ cần cho phép truy cập microphone',
+  'start.checkDevices': 'Kiểm tra micro & loa',
+  'start.history': 'Lịch sử trò chuyện',
+  'start.timeLimitReached': 'Cuộc gọi trước đã kết thúc vì đạt thời lượng tối đa',
+  'start.connecting': 'Đang kết nối...',
+
+  'inputMode.open_mic': 'Mở mic liên tục',
+  'inputMode.push_to_talk': 'Giữ để nói',
+  'inputMode.vad': 'Tự động nhận giọng nói',
+
+  'error.title': '❌ Có lỗi xảy ra',
+  'error.microphoneTitle': '🎤 Không dùng được microphone',
+  'error.requestId': 'Mã yêu cầu:',
+  'error.connect': 'Không thể kết nối',
+  'error.INVALID_REQUEST': 'Thông tin gửi lên không hợp lệ',
+  'error.METHOD_NOT_ALLOWED': 'Yêu cầu không được hỗ trợ',
+  'error.UNAUTHORIZED': 'Phiên đăng nhập không hợp lệ, vui lòng tải lại trang',
+  'error.FORBIDDEN': 'Bạn không có quyền vào cuộc trò chuyện này',
+  'error.NOT_FOUND': 'Cuộc trò chuyện đã kết thúc, hãy bắt đầu cuộc mới',
+  'error.RATE_LIMITED': 'Bạn thao tác quá nhanh, vui lòng thử lại sau ít phút',
+  'error.RATE_LIMITED_AFTER': 'Bạn thao tác quá nhanh, vui lòng thử lại sau {seconds} giây',
+  'error.SESSION_LIMIT': 'Bạn đang mở quá nhiều cuộc trò chuyện, hãy kết thúc bớt rồi thử lại',
+  'error.LIVEKIT_UNAVAILABLE': 'Dịch vụ thoại đang gián đoạn, vui lòng thử lại sau',
+  'error.DISPATCH_FAILED': 'Mogenie đang bận, vui lòng thử lại',
+  'error.INTERNAL_ERROR': 'Máy chủ gặp sự cố, vui lòng thử lại',
+  'error.NETWORK_ERROR': 'Không có kết nối mạng, vui lòng kiểm tra và thử lại',
+
+  'microphone.DENIED': 'Bạn chưa cho phép dùng microphone. Hãy bấm "Thử lại" và chọn "Cho phép" khi trình duyệt hỏi.',
+  'microphone.BLOCKED': 'Trình duyệt đang chặn microphone cho trang này. Bấm biểu tượng ổ khoá cạnh thanh địa chỉ, cho phép Microphone rồi tải lại trang.',
+  'microphone.NO_DEVICE': 'Không tìm thấy microphone. Hãy cắm tai nghe hoặc micro rồi thử lại.',
+  'microphone.IN_USE': 'Microphone đang được ứng dụng khác sử dụng. Hãy đóng ứng dụng đó (Zoom, Meet...) rồi thử lại.',
+  'microphone.UNSUPPORTED': 'Trình duyệt không hỗ trợ microphone trên trang này. Hãy dùng Chrome, Edge hoặc Safari bản mới qua https.',
+  'microphone.UNKNOWN': 'Không thể mở microphone. Hãy kiểm tra thiết bị rồi thử lại.',
+
+  'health.good': 'Kết nối tốt',
+  'health.weak': 'Kết nối yếu',
+  'health.lost': 'Mất kết nối',
+  'health.unknown': 'Đang đo kết nối...',
+  'health.rtt': 'Độ trễ {ms} ms',
+  'health.jitter': 'Jitter {ms} ms',
+  'health.packetLoss': 'Mất gói {pct}%',
+
+  'call.countdown': 'Cuộc gọi sẽ kết thúc sau {time}',
+  'call.reconnecting': 'Mất kết nối, đang kết nối lại...',
+  'call.agentWaiting': 'Đang chờ Mogenie tham gia...',
+  'call.agentJoined': 'Mogenie đang chuẩn bị...',
+  'call.agentLeft': 'Mogenie đã rời cuộc trò chuyện, đang kết nối lại...',
+  'call.agentUnavailable': 'Mogenie hiện không khả dụng',
+  'call.agentSpeaking': 'Agent đang suy nghĩ và trả lời...',
+  'call.typeBelow': 'Nhập tin nhắn bên dưới',
+  'call.micPaused': 'Đã dừng thu âm',
+  'call.listening': 'Đang nghe bạn nói...',
+  'call.holdToTalkHint': 'Giữ nút hoặc phím cách để nói',
+  'call.startSpeaking': 'Bắt đầu nói',
+  'call.interrupt': '✋ Ngắt lời',
+  'call.interruptTitle': 'Ngắt lời (Esc)',
+  'call.unmuteAgent': 'Bật âm thanh',
+  'call.muteAgent': 'Tắt âm thanh',
+  'call.resume': 'Tiếp tục',
+  'call.pause': 'Tạm dừng',
+  'call.devices': 'Micro & loa',
+  'call.end': 'Kết thúc',
+  'call.releaseToSend': 'Thả ra để gửi',
+  'call.holdToTalk': 'Giữ để nói',
+  'call.transcript': '📝 Realtime transcript',
+  'call.interrupted': '(đã ngắt lời)',
+  'call.messagePlaceholder': 'Nhập tin nhắn cho Mogenie...',
+  'call.message': 'Tin nhắn',
+  'call.send': 'Gửi',
+  'call.agentHandoff': 'Đã chuyển cuộc trò chuyện sang agent khác',
+
+  'devices.title': 'Micro & loa',
+  'devices.checking': 'Đang kiểm tra microphone...',
+  'devices.microphone': 'Microphone',
+  'devices.speaker': 'Loa',
+  'devices.inputLevel': 'Âm lượng micro',
+  'devices.speakHint': 'Hãy nói thử, thanh phía trên sẽ chuyển động',
+  'devices.playing': 'Đang phát...',
+  'devices.testSound': '🔊 Phát âm thanh thử',
+
+  'history.title': 'Lịch sử trò chuyện',
+  'history.loadFailed': 'Không thể tải lịch sử trò chuyện',
+  'history.deleteFailed': 'Không thể xoá cuộc trò chuyện',
+  'history.empty': 'Chưa có cuộc trò chuyện nào',
+  'history.messages': '{count} tin nhắn',
+  'history.minutes': '{count} phút',
+  'history.delete': 'Xoá',
+
+  'export.title': 'Cuộc trò chuyện với Mogenie',
+  'export.started': 'Bắt đầu',
+  'export.ended': 'Kết thúc',
+
+  'widget.launcher': 'Trò chuyện với Mogenie',
+};
+
+export type MessageKey = keyof typeof vi;
@@ -0,0 +1,96 @@
+// src/lib/logger.ts
+// Leveled console logging. Production builds only print warnings and errors; ?debug=1 in the page URL
+// (remembered in localStorage, ?debug=0 forgets it) or VITE_LOG_LEVEL turns on the detailed logs.
+// Tokens and secrets are redacted before anything reaches the console.
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface Logger {
+  debug(message: string, details?: unknown): void;
+  info(message: string, details?: unknown): void;
+  warn(message: string, details?: unknown): void;
+  error(message: string, details?: unknown): void;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+const DEBUG_STORAGE_KEY = 'mogenie-debug';
+
+function isLevel(value: unknown): value is LogLevel {
+  return typeof value === 'string' && value in LEVELS;
+}
+
+function initialLevel(): LogLevel {
+  try {
+    const param = new URLSearchParams(window.location.search).get('debug');
+    if (param === '0') localStorage.removeItem(DEBUG_STORAGE_KEY);
+    else if (param !== null) localStorage.setItem(DEBUG_STORAGE_KEY, '1');
+    if (localStorage.getItem(DEBUG_STORAGE_KEY) === '1') return 'debug';
+  } catch {
+    // Storage blocked (sandboxed iframe, privacy mode) - the query parameter alone is not remembered
+  }
+
+  const configured = import.meta.env.VITE_LOG_LEVEL;
+  if (isLevel(configured)) return configured;
+  return import.meta.env.PROD ? 'warn' : 'info';
+}
+
+let minLevel: LogLevel = initialLevel();
+
+export function setLogLevel(level: LogLevel) {
+  minLevel = level;
+}
+
+const REDACTED = '[REDACTED]';
+// Same rules as api/_lib/logger.ts: sensitive field names, JWTs and bearer credentials in any text
+const SENSITIVE_KEY = /token|secret|password|passwd|authorization|api[-_]?key|jwt|cookie|signature|credential/i;
+const JWT_PATTERN = /eyJ[\w-]+\.[\w-]+\.[\w-]*/g;
+const BEARER_PATTERN = /Bearer\s+[^\s"',]+/gi;
+const MAX_DEPTH = 6;
+
+function redactString(value: string) {
+  return value.replace(JWT_PATTERN, REDACTED).replace(BEARER_PATTERN, `Bearer ${REDACTED}`);
+}
+
+// Copy of a plain value that is safe to print. Class instances other than errors (LiveKit tracks and
+// participants, DOM nodes) are passed through untouched so the devtools can still inspect them.
+export function redact(value: unknown, depth = 0, seen = new WeakSet<object>()): unknown {
+  if (typeof value === 'string') return redactString(value);
+  if (value === null || typeof value !== 'object') return value;
+  if (value instanceof Error) {
+    return { name: value.name, message: redactString(value.message), stack: value.stack && redactString(value.stack) };
+  }
+  const plain = Array.isArray(value) || Object.getPrototypeOf(value) === Object.prototype;
+  if (!plain) return value;
+  if (seen.has(value) || depth >= MAX_DEPTH) return '[Truncated]';
+
+  seen.add(value);
+  const copy = Array.isArray(value)
+    ? value.map((item) => redact(item, depth + 1, seen))
+    : Object.fromEntries(Object.entries(value).map(([key, item]) => [
+      key,
+      SENSITIVE_KEY.test(key) && typeof item !== 'number' && typeof item !== 'boolean' && item != null
+        ? REDACTED
+        : redact(item, depth + 1, seen),
+    ]));
+  seen.delete(value);
+  return copy;
+}
+
+const CONSOLE_METHODS: Record<LogLevel, 'debug' | 'log' | 'warn' | 'error'> = {
+  debug: 'debug',
+  info: 'log',
+  warn: 'warn',
+  error: 'error',
+};
+
+// scope prefixes every line, e.g. [session] or [api], so one area can be filtered in the devtools
+export function createLogger(scope: string): Logger {
+  const write = (level: LogLevel) => (message: string, details?: unknown) => {
+    if (LEVELS[level] < LEVELS[minLevel]) return;
+
+    const line = `[${scope}] ${redactString(message)}`;
+    if (details === undefined) console[CONSOLE_METHODS[level]](line);
+    else console[CONSOLE_METHODS[level]](line, redact(details));
+  };
+  return { debug: write('debug'), info: write('info'), warn: write('warn'), error: write('error') };
+}
@@ -0,0 +1,3 @@
+// src/lib/protocol.ts
+// The data-channel protocol lives in shared/ so the API can send the same messages
+export * from '../../../shared/protocol';
@@ -0,0 +1,52 @@
+// src/lib/session.ts
+// Persists the current room across reloads so the user can resume the same agent conversation
+
+import { createLogger } from './logger';
+
+const log = createLogger('session');
+
+const STORAGE_KEY = 'mogenie-session';
+
+export interface SavedSession {
+  room_name: string;
+  user_id: string;
+  user_name: string;
+  // Join token of the room, the proof /api/rooms/rejoin needs to hand out a new one
+  token: string;
+}
+
+export function loadSession(): SavedSession | null {
+  try {
+    const raw = sessionStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+
+    const session = JSON.parse(raw);
+    if (
+      typeof session.room_name !== 'string' ||
+      typeof session.user_id !== 'string' ||
+      typeof session.user_name !== 'string' ||
+      typeof session.token !== 'string'
+    ) {
+      return null;
+    }
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+export function saveSession(session: SavedSession) {
+  try {
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  } catch (err) {
+    log.warn('Could not persist session', err);
+  }
+}
+
+export function clearSession() {
+  try {
+    sessionStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Storage unavailable (e.g. private mode) - nothing to clear
+  }
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import type { AudioReceiverStats, AudioSenderStats } from 'livekit-client';
+import { CallTelemetry, UNKNOWN_HEALTH, healthLevel, toStatsSample } from './telemetry';
+
+const sender = (stats: Partial<AudioSenderStats>): AudioSenderStats => ({ type: 'audio', timestamp: 0, ...stats });
+const receiver = (stats: Partial<AudioReceiverStats>): AudioReceiverStats => ({ type: 'audio', timestamp: 0, ...stats });
+
+describe('toStatsSample', () => {
+  it('converts seconds to ms and keeps the worse direction', () => {
+    const sample = toStatsSample({
+      sender: sender({ roundTripTime: 0.0824, jitter: 0.004, packetsSent: 100, packetsLost: 2 }),
+      receiver: receiver({ jitter: 0.011, packetsReceived: 95, packetsLost: 5 }),
+    });
+    expect(sample).toEqual({ rttMs: 82, jitterMs: 11, packetLossPct: 5 });
+  });
+
+  it('measures packet loss since the previous sample', () => {
+    const previous = { receiver: receiver({ packetsReceived: 1000, packetsLost: 50 }) };
+    const current = { receiver: receiver({ packetsReceived: 1099, packetsLost: 51 }) };
+    expect(toStatsSample(current, previous).packetLossPct).toBe(1);
+  });
+
+  it('leaves metrics without stats empty', () => {
+    expect(toStatsSample({})).toEqual({ rttMs: null, jitterMs: null, packetLossPct: null });
+  });
+});
+
+describe('CallTelemetry', () => {
+  const context = { inputMode: 'open_mic', textOnly: false };
+
+  it('summarizes milestones, reconnects, quality and stats of a call', () => {
+    const telemetry = new CallTelemetry(1000);
+    telemetry.markConnected(1800);
+    telemetry.markAgentJoined(2500);
+    telemetry.markAgentAudio(3000);
+    telemetry.markAgentJoined(9000);
+    telemetry.setQuality('excellent', 2000);
+    telemetry.setQuality('poor', 6000);
+    telemetry.reconnecting(7000);
+    telemetry.reconnected(9000);
+    telemetry.addSample({ rttMs: 80, jitterMs: 5, packetLossPct: 0 });
+    telemetry.addSample({ rttMs: 120, jitterMs: null, packetLossPct: 2 });
+
+    expect(telemetry.summary('mogenie-1', 11000, 'hangup', context)).toEqual({
+      room_name: 'mogenie-1',
+      started_at: 1000,
+      ended_at: 11000,
+      end_reason: 'hangup',
+      time_to_connect_ms: 800,
+      time_to_agent_join_ms: 1500,
+      time_to_first_agent_audio_ms: 2000,
+      reconnects: 1,
+      reconnecting_ms: 2000,
+      quality_ms: { excellent: 4000, good: 0, poor: 5000, lost: 0, unknown: 1000 },
+      rtt_ms: { avg: 100, max: 120 },
+      jitter_ms: { avg: 5, max: 5 },
+      packet_loss_pct: { avg: 1, max: 2 },
+      stats_samples: 2,
+      input_mode: 'open_mic',
+      text_only: false,
+    });
+  });
+
+  it('counts a reconnect that never finished up to the end of the call', () => {
+    const telemetry = new CallTelemetry(0);
+    telemetry.reconnecting(4000);
+    telemetry.reconnecting(5000);
+
+    const summary = telemetry.summary('mogenie-1', 10000, 'disconnected', context);
+    expect(summary).toMatchObject({ reconnects: 1, reconnecting_ms: 6000, time_to_agent_join_ms: null });
+    expect(summary.rtt_ms).toEqual({ avg: null, max: null });
+  });
+});
+
+describe('healthLevel', () => {
+  it('reads LiveKit quality and the measured stats', () => {
+    expect(healthLevel(UNKNOWN_HEALTH)).toBe('unknown');
+    expect(healthLevel({ ...UNKNOWN_HEALTH, quality: 'excellent' })).toBe('good');
+    expect(healthLevel({ ...UNKNOWN_HEALTH, quality: 'poor' })).toBe('weak');
+    expect(healthLevel({ quality: 'good', rttMs: 80, jitterMs: 4, packetLossPct: 12 })).toBe('weak');
+    expect(healthLevel({ ...UNKNOWN_HEALTH, quality: 'lost' })).toBe('lost');
+  });
+});
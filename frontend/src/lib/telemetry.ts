@@ -0,0 +1,193 @@
+// src/lib/telemetry.ts
+// Call quality telemetry: the live connection health shown in the call UI, and the summary posted to
+// /api/telemetry when the call ends
+
+import type { AudioReceiverStats, AudioSenderStats } from 'livekit-client';
+
+// LiveKit's ConnectionQuality values
+export type ConnectionQualityLevel = 'excellent' | 'good' | 'poor' | 'lost' | 'unknown';
+
+const QUALITY_LEVELS: ConnectionQualityLevel[] = ['excellent', 'good', 'poor', 'lost', 'unknown'];
+
+export type CallEndReason = 'hangup' | 'time_limit' | 'disconnected' | 'failed';
+
+export interface ConnectionHealth {
+  quality: ConnectionQualityLevel;
+  // From the latest WebRTC stats sample; null until one is available
+  rttMs: number | null;
+  jitterMs: number | null;
+  packetLossPct: number | null;
+}
+
+export const UNKNOWN_HEALTH: ConnectionHealth = { quality: 'unknown', rttMs: null, jitterMs: null, packetLossPct: null };
+
+export type StatsSample = Omit<ConnectionHealth, 'quality'>;
+
+// Raw stats of the published microphone and the agent's audio track
+export interface RawAudioStats {
+  sender?: AudioSenderStats;
+  receiver?: AudioReceiverStats;
+}
+
+// Packet counters are cumulative, so loss is measured between two samples
+function lossPct(lost: number | undefined, total: number | undefined, previousLost = 0, previousTotal = 0) {
+  if (lost === undefined || total === undefined) return null;
+  const lostDelta = lost - previousLost;
+  const totalDelta = total - previousTotal;
+  return totalDelta > 0 && lostDelta >= 0 ? (lostDelta / totalDelta) * 100 : null;
+}
+
+// WebRTC reports seconds; the worse of both directions counts
+export function toStatsSample(current: RawAudioStats, previous: RawAudioStats = {}): StatsSample {
+  const { sender, receiver } = current;
+  const rtt = sender?.roundTripTime;
+  const jitters = [sender?.jitter, receiver?.jitter].filter((value): value is number => value !== undefined);
+  const losses = [
+    lossPct(sender?.packetsLost, sender?.packetsSent, previous.sender?.packetsLost, previous.sender?.packetsSent),
+    lossPct(
+      receiver?.packetsLost,
+      receiver && (receiver.packetsReceived ?? 0) + (receiver.packetsLost ?? 0),
+      previous.receiver?.packetsLost,
+      previous.receiver && (previous.receiver.packetsReceived ?? 0) + (previous.receiver.packetsLost ?? 0),
+    ),
+  ].filter((value): value is number => value !== null);
+
+  return {
+    rttMs: rtt !== undefined ? Math.round(rtt * 1000) : null,
+    jitterMs: jitters.length > 0 ? Math.round(Math.max(...jitters) * 1000) : null,
+    packetLossPct: losses.length > 0 ? Math.round(Math.max(...losses) * 10) / 10 : null,
+  };
+}
+
+export interface MetricSummary {
+  avg: number | null;
+  max: number | null;
+}
+
+// Mirrors TelemetrySummary in api/_lib/telemetry.ts
+export interface TelemetrySummary {
+  room_name: string;
+  started_at: number;
+  ended_at: number;
+  end_reason: CallEndReason;
+  time_to_connect_ms: number | null;
+  time_to_agent_join_ms: number | null;
+  time_to_first_agent_audio_ms: number | null;
+  reconnects: number;
+  reconnecting_ms: number;
+  quality_ms: Record<ConnectionQualityLevel, number>;
+  rtt_ms: MetricSummary;
+  jitter_ms: MetricSummary;
+  packet_loss_pct: MetricSummary;
+  stats_samples: number;
+  input_mode: string | null;
+  text_only: boolean;
+}
+
+function summarize(values: number[]): MetricSummary {
+  if (values.length === 0) return { avg: null, max: null };
+  const avg = values.reduce((a, b) => a + b, 0) / values.length;
+  return { avg: Math.round(avg * 10) / 10, max: Math.max(...values) };
+}
+
+// Collects one call's milestones, reconnects, quality changes and stats samples. Times are epoch ms passed
+// in by the caller, which keeps this free of timers and easy to test.
+export class CallTelemetry {
+  private readonly startedAt: number;
+  private connectedAt: number | null = null;
+  private agentJoinedAt: number | null = null;
+  private agentAudioAt: number | null = null;
+  private reconnects = 0;
+  private reconnectingSince: number | null = null;
+  private reconnectingMs = 0;
+  private quality: ConnectionQualityLevel = 'unknown';
+  private qualitySince: number;
+  private qualityMs = Object.fromEntries(QUALITY_LEVELS.map((level) => [level, 0])) as Record<ConnectionQualityLevel, number>;
+  private samples: StatsSample[] = [];
+
+  constructor(startedAt: number) {
+    this.startedAt = startedAt;
+    this.qualitySince = startedAt;
+  }
+
+  // Only the first occurrence counts; a re-dispatched agent does not reset time-to-agent
+  markConnected(now: number) {
+    this.connectedAt ??= now;
+  }
+
+  markAgentJoined(now: number) {
+    this.agentJoinedAt ??= now;
+  }
+
+  markAgentAudio(now: number) {
+    this.agentAudioAt ??= now;
+  }
+
+  reconnecting(now: number) {
+    if (this.reconnectingSince !== null) return;
+    this.reconnects++;
+    this.reconnectingSince = now;
+  }
+
+  reconnected(now: number) {
+    if (this.reconnectingSince === null) return;
+    this.reconnectingMs += now - this.reconnectingSince;
+    this.reconnectingSince = null;
+  }
+
+  setQuality(quality: ConnectionQualityLevel, now: number) {
+    this.qualityMs[this.quality] += now - this.qualitySince;
+    this.quality = quality;
+    this.qualitySince = now;
+  }
+
+  addSample(sample: StatsSample) {
+    this.samples.push(sample);
+  }
+
+  summary(roomName: string, now: number, endReason: CallEndReason, context: { inputMode: string | null; textOnly: boolean }): TelemetrySummary {
+    const since = (time: number | null) => (time !== null ? time - this.startedAt : null);
+    const values = (pick: (sample: StatsSample) => number | null) =>
+      this.samples.map(pick).filter((value): value is number => value !== null);
+
+    return {
+      room_name: roomName,
+      started_at: this.startedAt,
+      ended_at: now,
+      end_reason: endReason,
+      time_to_connect_ms: since(this.connectedAt),
+      time_to_agent_join_ms: since(this.agentJoinedAt),
+      time_to_first_agent_audio_ms: since(this.agentAudioAt),
+      reconnects: this.reconnects,
+      reconnecting_ms: this.reconnectingMs + (this.reconnectingSince !== null ? now - this.reconnectingSince : 0),
+      quality_ms: { ...this.qualityMs, [this.quality]: this.qualityMs[this.quality] + now - this.qualitySince },
+      rtt_ms: summarize(values((sample) => sample.rttMs)),
+      jitter_ms: summarize(values((sample) => sample.jitterMs)),
+      packet_loss_pct: summarize(values((sample) => sample.packetLossPct)),
+      stats_samples: this.samples.length,
+      input_mode: context.inputMode,
+      text_only: context.textOnly,
+    };
+  }
+}
+
+// Traffic-light reading of the connection for the call UI
+export type HealthLevel = 'good' | 'weak' | 'lost' | 'unknown';
+
+// Thresholds at which a voice call starts to sound choppy or delayed
+const WEAK_RTT_MS = 400;
+const WEAK_JITTER_MS = 50;
+const WEAK_PACKET_LOSS_PCT = 5;
+
+export function healthLevel(health: ConnectionHealth): HealthLevel {
+  if (health.quality === 'lost') return 'lost';
+  if (
+    health.quality === 'poor' ||
+    (health.rttMs ?? 0) > WEAK_RTT_MS ||
+    (health.jitterMs ?? 0) > WEAK_JITTER_MS ||
+    (health.packetLossPct ?? 0) > WEAK_PACKET_LOSS_PCT
+  ) {
+    return 'weak';
+  }
+  return health.quality === 'unknown' && health.rttMs === null ? 'unknown' : 'good';
+}
@@ -0,0 +1,94 @@
+// src/lib/transcript.ts
+// Speaker-aware transcript model shared by the data-channel and LiveKit transcription paths
+
+import { getLocale } from './i18n';
+
+// 'system' entries are notes from the client itself (e.g. an agent handoff), not speech
+export type Speaker = 'user' | 'agent' | 'system';
+
+export interface TranscriptEntry {
+  id: string;
+  speaker: Speaker;
+  text: string;
+  // Interim segments are replaced in place until the final version arrives
+  final: boolean;
+  // Epoch ms when the segment first arrived. Only the raw time is stored: it is formatted in the current
+  // language's locale wherever it is shown or exported (formatTimestamp).
+  time: number;
+  // Agent segment the user cut off (interrupt button, shortcut or barge-in)
+  interrupted?: boolean;
+}
+
+export interface TranscriptSegment {
+  id: string;
+  speaker: Speaker;
+  text: string;
+  final: boolean;
+}
+
+// In the UI language's locale and the user's own timezone; one formatter per locale
+const timestampFormats = new Map<string, Intl.DateTimeFormat>();
+
+export function formatTimestamp(date: Date, locale = getLocale()) {
+  let format = timestampFormats.get(locale);
+  if (!format) {
+    format = new Intl.DateTimeFormat(locale, {
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hour12: false,
+    });
+    timestampFormats.set(locale, format);
+  }
+  return format.format(date);
+}
+
+// Segment ids are only unique per speaker, and the same id may come from both data channel and transcription events
+export function entryId(speaker: Speaker, segmentId: string) {
+  return `${speaker}:${segmentId}`;
+}
+
+export function upsertSegment(entries: TranscriptEntry[], segment: TranscriptSegment): TranscriptEntry[] {
+  const id = entryId(segment.speaker, segment.id);
+  const index = entries.findIndex((entry) => entry.id === id);
+
+  if (index === -1) {
+    return [...entries, {
+      id,
+      speaker: segment.speaker,
+      text: segment.text,
+      final: segment.final,
+      time: Date.now(),
+    }];
+  }
+
+  // A final segment is never downgraded back to interim by a late duplicate
+  const existing = entries[index];
+  if (existing.final && !segment.final) {
+    return entries;
+  }
+
+  const next = [...entries];
+  next[index] = { ...existing, text: segment.text, final: segment.final };
+  return next;
+}
+
+// The agent segment an interrupt cuts off: the latest one
+export function lastAgentEntry(entries: TranscriptEntry[]): TranscriptEntry | undefined {
+  for (let i = entries.length - 1; i >= 0; i--) {
+    if (entries[i].speaker === 'agent') return entries[i];
+  }
+  return undefined;
+}
+
+// Interrupted segments count as final, so interim updates still in flight do not extend them
+export function markInterrupted(entries: TranscriptEntry[], id: string): TranscriptEntry[] {
+  return entries.map((entry) => (entry.id === id ? { ...entry, final: true, interrupted: true } : entry));
+}
+
+export function addSystemEntry(entries: TranscriptEntry[], text: string): TranscriptEntry[] {
+  return upsertSegment(entries, { id: crypto.randomUUID(), speaker: 'system', text, final: true });
+}
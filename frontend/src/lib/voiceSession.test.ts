@@ -0,0 +1,594 @@
+import { afterEach, beforeEach, describe, expect, it, vi, type Mock } from 'vitest';
+import { DisconnectReason, RoomEvent, type Room } from 'livekit-client';
+import { VoiceSession, nextSessionState, type SessionEvent, type SessionState, type VoiceSessionOptions } from './voiceSession';
+import type { AgentAudioOutput } from './agentAudio';
+import type { LevelMeter } from './audioLevels';
+import { ApiError, createRoom, endRoom, redispatchAgent, rejoinRoom, sendTelemetry, uploadTranscript } from './api';
+import { clearSession, loadSession, saveSession } from './session';
+import { MicrophoneError, checkMicrophone, listAudioDevices, loadDevicePreferences, saveDevicePreferences } from './audioDevices';
+import { decodeMessage, encodeMessage } from './protocol';
+import { FakeParticipant, FakeRoom } from '../test/fakeLivekit';
+
+vi.mock('./api', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./api')>()),
+  createRoom: vi.fn(),
+  rejoinRoom: vi.fn(),
+  endRoom: vi.fn(),
+  uploadTranscript: vi.fn(),
+  sendTelemetry: vi.fn(async () => undefined),
+  redispatchAgent: vi.fn(),
+}));
+
+vi.mock('./history', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./history')>()),
+  saveConversation: vi.fn(async () => undefined),
+  getConversation: vi.fn(async () => null),
+}));
+
+vi.mock('./audioDevices', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./audioDevices')>()),
+  checkMicrophone: vi.fn(async () => undefined),
+  listAudioDevices: vi.fn(async () => []),
+  loadDevicePreferences: vi.fn(() => ({})),
+  saveDevicePreferences: vi.fn(),
+}));
+
+vi.mock('./session', () => ({
+  loadSession: vi.fn(() => null),
+  saveSession: vi.fn(),
+  clearSession: vi.fn(),
+}));
+
+interface FakeMeter extends LevelMeter {
+  level: number;
+  dispose: Mock<() => void>;
+}
+
+// Meters handed out by the session, by the id of the MediaStreamTrack they measure
+function fakeMeters() {
+  const meters = new Map<string, FakeMeter>();
+  const createMeter = (track: MediaStreamTrack) => {
+    const meter: FakeMeter = {
+      level: 0,
+      getLevel() {
+        return this.level;
+      },
+      dispose: vi.fn(),
+    };
+    meters.set(track.id, meter);
+    return meter;
+  };
+  return { meters, createMeter };
+}
+
+function fakeAudio(): AgentAudioOutput {
+  return { attach: vi.fn(), detach: vi.fn(), setMuted: vi.fn(), clear: vi.fn() };
+}
+
+describe('nextSessionState', () => {
+  const run = (events: SessionEvent[], start: SessionState = 'idle') =>
+    events.reduce((state, event) => nextSessionState(state, event), start);
+
+  it('follows the happy path from idle to live', () => {
+    expect(run([{ type: 'start' }, { type: 'room_created' }, { type: 'connected', agentReady: false }])).toBe('waiting-agent');
+    expect(run([{ type: 'start' }, { type: 'room_created' }, { type: 'connected', agentReady: true }])).toBe('live');
+    expect(run([{ type: 'agent_ready' }], 'waiting-agent')).toBe('live');
+  });
+
+  it('stays reconnecting until the connection is back', () => {
+    expect(run([{ type: 'reconnecting' }, { type: 'agent_ready' }], 'waiting-agent')).toBe('reconnecting');
+    expect(run([{ type: 'reconnecting' }, { type: 'reconnected', agentReady: true }], 'live')).toBe('live');
+  });
+
+  it('only starts again from idle, ended or failed', () => {
+    expect(run([{ type: 'start' }], 'ended')).toBe('creating-room');
+    expect(run([{ type: 'start' }], 'failed')).toBe('creating-room');
+    expect(run([{ type: 'start' }], 'live')).toBe('live');
+  });
+
+  it('ends or fails an active session', () => {
+    expect(run([{ type: 'disconnected' }], 'reconnecting')).toBe('ended');
+    expect(run([{ type: 'disconnected' }], 'idle')).toBe('idle');
+    expect(run([{ type: 'failed' }], 'creating-room')).toBe('failed');
+    expect(run([{ type: 'failed' }], 'ended')).toBe('ended');
+  });
+});
+
+describe('VoiceSession', () => {
+  let room: FakeRoom;
+  let audio: AgentAudioOutput;
+
+  const newSession = (options: VoiceSessionOptions = {}) => new VoiceSession({
+    audioOutput: audio,
+    roomFactory: () => room as unknown as Room,
+    watchdog: { joinTimeoutMs: 1000, audioTimeoutMs: 1000, maxAutoRedispatch: 1 },
+    ...options,
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    room = new FakeRoom();
+    room.autoConnect = true;
+    audio = fakeAudio();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(createRoom).mockResolvedValue({
+      room_name: 'momo-room-1',
+      token: 'token',
+      livekit_url: 'ws://localhost:7880',
+      user_id: 'user-1',
+    });
+    vi.mocked(endRoom).mockResolvedValue(undefined);
+    vi.mocked(uploadTranscript).mockResolvedValue(undefined);
+    vi.mocked(redispatchAgent).mockResolvedValue({
+      success: true,
+      error: null,
+      agentName: 'mogenie',
+      profile: 'default',
+      dispatchId: 'AD_1',
+      attempts: 1,
+      agentJoined: true,
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('moves through the states until the agent is audible', async () => {
+    const session = newSession();
+    const states: SessionState[] = [];
+    session.on('stateChanged', (state) => states.push(state));
+
+    await session.start();
+    expect(session.getSnapshot().state).toBe('waiting-agent');
+
+    const agent = new FakeParticipant('agent-A');
+    room.join(agent);
+    room.subscribeAudio(agent);
+
+    expect(states).toEqual(['creating-room', 'connecting', 'waiting-agent', 'live']);
+    expect(audio.attach).toHaveBeenCalledTimes(1);
+    expect(room.localParticipant.setMicrophoneEnabled).toHaveBeenCalledWith(true);
+  });
+
+  it('fails with the API error when the room cannot be created', async () => {
+    vi.mocked(createRoom).mockRejectedValue(new ApiError('Too many', 429, 'RATE_LIMITED', 30));
+    const session = newSession();
+    const errors: Error[] = [];
+    session.on('error', (error) => errors.push(error));
+
+    await session.start();
+
+    expect(session.getSnapshot().state).toBe('failed');
+    expect(errors).toHaveLength(1);
+    expect((errors[0] as ApiError).code).toBe('RATE_LIMITED');
+  });
+
+  it('keeps the transcript of the primary agent only', async () => {
+    const session = newSession();
+    await session.start();
+    const primary = new FakeParticipant('agent-A');
+    const standby = new FakeParticipant('agent-B');
+    room.join(primary);
+    room.join(standby);
+
+    primary.emit('dataReceived', encodeMessage({ type: 'bot_message', text: 'Xin chào', segment_id: 'b1' }));
+    standby.emit('dataReceived', encodeMessage({ type: 'bot_message', text: 'Trùng lặp', segment_id: 'b1' }));
+
+    expect(session.getSnapshot().messages.map((entry) => entry.text)).toEqual(['Xin chào']);
+  });
+
+  it('re-dispatches once, then reports the agent unavailable', async () => {
+    vi.useFakeTimers();
+    const session = newSession();
+    await session.start();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(redispatchAgent).toHaveBeenCalledTimes(1);
+    expect(session.getSnapshot().agentPresence).toBe('waiting');
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(session.getSnapshot().agentPresence).toBe('unavailable');
+    expect(session.getSnapshot().state).toBe('waiting-agent');
+  });
+
+  it('returns to live after a reconnect', async () => {
+    const session = newSession();
+    await session.start();
+    const agent = new FakeParticipant('agent-A');
+    room.join(agent);
+    room.subscribeAudio(agent);
+
+    room.emit(RoomEvent.Reconnecting);
+    expect(session.getSnapshot().state).toBe('reconnecting');
+
+    room.emit(RoomEvent.Reconnected);
+    expect(session.getSnapshot().state).toBe('live');
+  });
+
+  it('uploads the transcript and closes the room when the user hangs up', async () => {
+    const session = newSession();
+    await session.start();
+    const agent = new FakeParticipant('agent-A');
+    room.join(agent);
+    agent.emit('dataReceived', encodeMessage({ type: 'user_transcript', text: 'Chào bạn', segment_id: 'u1' }));
+    agent.emit('dataReceived', encodeMessage({ type: 'bot_message', text: 'Xin chào', segment_id: 'b1' }));
+
+    await session.end();
+
+    const snapshot = session.getSnapshot();
+    expect(snapshot.state).toBe('ended');
+    expect(snapshot.messages).toEqual([]);
+    expect(snapshot.resumable).toBeNull();
+    expect(endRoom).toHaveBeenCalledWith('momo-room-1', 'token');
+    // Only the user's side - the agent uploads its own segments
+    expect(uploadTranscript).toHaveBeenCalledTimes(1);
+    expect(uploadTranscript).toHaveBeenCalledWith('momo-room-1', 'token', [
+      expect.objectContaining({ segment_id: 'user:u1', speaker: 'user', text: 'Chào bạn' }),
+    ]);
+    expect(audio.clear).toHaveBeenCalled();
+  });
+
+  it('offers to resume when the connection drops', async () => {
+    const saved = { room_name: 'momo-room-1', user_id: 'user-1', user_name: 'User-1', token: 'token' };
+    const session = newSession();
+    await session.start();
+    vi.mocked(loadSession).mockReturnValueOnce(saved);
+
+    room.emit(RoomEvent.Disconnected, DisconnectReason.SIGNAL_CLOSE);
+
+    expect(session.getSnapshot().state).toBe('ended');
+    expect(session.getSnapshot().resumable).toEqual(saved);
+    expect(endRoom).not.toHaveBeenCalled();
+  });
+
+  it('rejoins with the previous token of the room and remembers the new one', async () => {
+    const saved = { room_name: 'momo-room-1', user_id: 'user-1', user_name: 'User-1', token: 'old-token' };
+    vi.mocked(loadSession).mockReturnValueOnce(saved);
+    vi.mocked(rejoinRoom).mockResolvedValue({
+      room_name: 'momo-room-1',
+      token: 'new-token',
+      livekit_url: 'ws://localhost:7880',
+      user_id: 'user-1',
+    });
+    const session = newSession();
+
+    await session.resume();
+
+    expect(rejoinRoom).toHaveBeenCalledWith('momo-room-1', 'old-token', 'User-1');
+    expect(saveSession).toHaveBeenCalledWith({ ...saved, token: 'new-token' });
+    expect(createRoom).not.toHaveBeenCalled();
+  });
+
+  it('mutes agent audio through the audio output', async () => {
+    const session = newSession();
+    const mutes: boolean[] = [];
+    session.on('muteChanged', ({ agentMuted }) => mutes.push(agentMuted));
+
+    session.setAgentMuted(true);
+
+    expect(audio.setMuted).toHaveBeenCalledWith(true);
+    expect(mutes).toEqual([true]);
+  });
+
+  it('opens the microphone only while push-to-talk is held', async () => {
+    const session = newSession();
+    await session.start();
+    const setMicrophoneEnabled = room.localParticipant.setMicrophoneEnabled;
+    setMicrophoneEnabled.mockClear();
+
+    session.setInputMode('push_to_talk');
+    expect(setMicrophoneEnabled).toHaveBeenLastCalledWith(false);
+    expect(session.getSnapshot().micOpen).toBe(false);
+
+    session.setTalking(true);
+    expect(setMicrophoneEnabled).toHaveBeenLastCalledWith(true);
+    expect(session.getSnapshot().micOpen).toBe(true);
+
+    session.setTalking(false);
+    expect(setMicrophoneEnabled).toHaveBeenLastCalledWith(false);
+    expect(setMicrophoneEnabled).toHaveBeenCalledTimes(3);
+  });
+
+  it('gates the microphone on voice activity in VAD mode', async () => {
+    vi.useFakeTimers();
+    const { meters, createMeter } = fakeMeters();
+    const session = newSession({ vad: { threshold: 0.2, hangoverMs: 500 }, createMeter });
+    session.setInputMode('vad');
+    await session.start();
+    expect(session.getSnapshot().micOpen).toBe(false);
+
+    // Metered on a clone, which keeps measuring while the published track is muted
+    const mic = meters.get('mic-clone')!;
+    mic.level = 0.5;
+    vi.advanceTimersByTime(50);
+    expect(session.getSnapshot().micOpen).toBe(true);
+
+    mic.level = 0.05;
+    vi.advanceTimersByTime(300);
+    expect(session.getSnapshot().micOpen).toBe(true);
+
+    vi.advanceTimersByTime(300);
+    expect(session.getSnapshot().micOpen).toBe(false);
+  });
+
+  it('announces the input mode to the agent when text chat is enabled', async () => {
+    const session = newSession({ textChat: true });
+    await session.start();
+    session.setInputMode('push_to_talk');
+    room.join(new FakeParticipant('agent-A'));
+
+    const calls = room.localParticipant.publishData.mock.calls as unknown as [Uint8Array, { destinationIdentities?: string[] }][];
+    expect(calls.map(([payload]) => decodeMessage(payload))).toMatchObject([
+      { type: 'set_input_mode', mode: 'open_mic' },
+      { type: 'set_input_mode', mode: 'push_to_talk' },
+      { type: 'set_input_mode', mode: 'push_to_talk' },
+    ]);
+    expect(calls[2][1].destinationIdentities).toEqual(['agent-A']);
+  });
+
+  it('sends the locale with the room and tells the agent when the user switches language', async () => {
+    const session = newSession({ textChat: true, locale: 'vi-VN' });
+    await session.start();
+    room.join(new FakeParticipant('agent-A'));
+    room.localParticipant.publishData.mockClear();
+
+    session.setLocale('vi-VN');
+    session.setLocale('en-US');
+
+    expect(vi.mocked(createRoom).mock.calls[0][2]).toMatchObject({ locale: 'vi-VN' });
+    const calls = room.localParticipant.publishData.mock.calls as unknown as [Uint8Array][];
+    expect(calls.map(([payload]) => decodeMessage(payload))).toMatchObject([{ type: 'set_language', language: 'en-US' }]);
+  });
+
+  it('silences and marks the agent answer when the user interrupts', async () => {
+    const session = newSession({ textChat: true });
+    await session.start();
+    const agent = new FakeParticipant('agent-A');
+    room.join(agent);
+    room.subscribeAudio(agent);
+    agent.emit('dataReceived', encodeMessage({ type: 'bot_message', text: 'Túi Thần Tài là', segment_id: 'b1', final: false }));
+    room.emit(RoomEvent.ActiveSpeakersChanged, [agent]);
+    room.localParticipant.publishData.mockClear();
+
+    expect(session.interrupt()).toBe(true);
+
+    expect(audio.setMuted).toHaveBeenLastCalledWith(true);
+    expect(session.getSnapshot().agentSpeaking).toBe(false);
+    expect(session.getSnapshot().messages[0]).toMatchObject({ final: true, interrupted: true });
+    const [payload] = room.localParticipant.publishData.mock.calls[0] as unknown as [Uint8Array];
+    expect(decodeMessage(payload)).toMatchObject({ type: 'interrupt' });
+
+    // Audio still arriving until the agent stops does not count as speaking
+    room.emit(RoomEvent.ActiveSpeakersChanged, [agent]);
+    expect(session.getSnapshot().agentSpeaking).toBe(false);
+
+    room.emit(RoomEvent.ActiveSpeakersChanged, []);
+    expect(audio.setMuted).toHaveBeenLastCalledWith(false);
+    expect(session.interrupt()).toBe(false);
+  });
+
+  it('does not interrupt without the data grant to tell the agent', async () => {
+    const session = newSession({ textChat: false, autoInterrupt: true });
+    await session.start();
+    const agent = new FakeParticipant('agent-A');
+    room.join(agent);
+    room.subscribeAudio(agent);
+    room.emit(RoomEvent.ActiveSpeakersChanged, [agent]);
+
+    room.emit(RoomEvent.ActiveSpeakersChanged, [agent, room.localParticipant]);
+    expect(session.interrupt()).toBe(false);
+
+    expect(session.getSnapshot().agentSpeaking).toBe(true);
+    expect(audio.setMuted).not.toHaveBeenCalledWith(true);
+    expect(room.localParticipant.publishData).not.toHaveBeenCalled();
+  });
+
+  it('barges in when the user talks over the agent with autoInterrupt', async () => {
+    const session = newSession({ autoInterrupt: true, textChat: true });
+    const interrupts: boolean[] = [];
+    session.on('interrupted', (auto) => interrupts.push(auto));
+    await session.start();
+    const agent = new FakeParticipant('agent-A');
+    room.join(agent);
+    room.subscribeAudio(agent);
+    room.emit(RoomEvent.ActiveSpeakersChanged, [agent]);
+
+    room.emit(RoomEvent.ActiveSpeakersChanged, [agent, room.localParticipant]);
+
+    expect(interrupts).toEqual([true]);
+    expect(session.getSnapshot().agentSpeaking).toBe(false);
+    expect(audio.setMuted).toHaveBeenLastCalledWith(true);
+  });
+
+  it('stops before creating a room when the microphone is blocked', async () => {
+    vi.mocked(checkMicrophone).mockRejectedValueOnce(new MicrophoneError('Permission denied', 'BLOCKED'));
+    const session = newSession();
+
+    await session.start();
+
+    expect(session.getSnapshot().state).toBe('failed');
+    expect((session.getSnapshot().error as MicrophoneError).code).toBe('BLOCKED');
+    expect(createRoom).not.toHaveBeenCalled();
+  });
+
+  it('skips the microphone check in text-only mode', async () => {
+    const session = newSession();
+    session.setTextOnly(true);
+
+    await session.start();
+
+    expect(checkMicrophone).not.toHaveBeenCalled();
+    expect(createRoom).toHaveBeenCalled();
+  });
+
+  it('switches and remembers the chosen microphone', async () => {
+    const session = newSession();
+    await session.start();
+
+    await session.setAudioDevice('audioinput', 'headset');
+
+    expect(room.switchActiveDevice).toHaveBeenCalledWith('audioinput', 'headset');
+    expect(saveDevicePreferences).toHaveBeenCalledWith({ audioinput: 'headset' });
+    expect(session.getSnapshot().audioDevices).toEqual({ audioinput: 'headset' });
+  });
+
+  it('falls back to the default microphone when the chosen one is unplugged', async () => {
+    vi.mocked(loadDevicePreferences).mockReturnValueOnce({ audioinput: 'headset' });
+    const session = newSession();
+    await session.start();
+    room.activeDevices.set('audioinput', 'headset');
+    const headset = { deviceId: 'headset', kind: 'audioinput' } as MediaDeviceInfo;
+
+    vi.mocked(listAudioDevices).mockResolvedValueOnce([]);
+    room.emit(RoomEvent.MediaDevicesChanged);
+    await vi.waitFor(() => expect(room.switchActiveDevice).toHaveBeenLastCalledWith('audioinput', 'default'));
+
+    vi.mocked(listAudioDevices).mockResolvedValueOnce([headset]);
+    room.emit(RoomEvent.MediaDevicesChanged);
+    await vi.waitFor(() => expect(room.switchActiveDevice).toHaveBeenLastCalledWith('audioinput', 'headset'));
+    expect(session.getSnapshot().audioDevices).toEqual({ audioinput: 'headset' });
+  });
+
+  it('reports separate user and agent levels and derives agentSpeaking from the agent energy', async () => {
+    vi.useFakeTimers();
+    const { meters, createMeter } = fakeMeters();
+    const session = newSession({ createMeter });
+    const speaking: boolean[] = [];
+    session.on('agentSpeakingChanged', (value) => speaking.push(value));
+    await session.start();
+    const agent = new FakeParticipant('agent-A');
+    room.join(agent);
+    room.subscribeAudio(agent);
+
+    meters.get('mic-clone')!.level = 0.3;
+    meters.get('agent-A')!.level = 0.4;
+    vi.advanceTimersByTime(50);
+    expect(session.getLevels()).toEqual({ user: 0.3, agent: 0.4 });
+    expect(session.getSnapshot().agentSpeaking).toBe(true);
+
+    // LiveKit's speaker detection no longer overrides the measured energy
+    room.emit(RoomEvent.ActiveSpeakersChanged, []);
+    expect(session.getSnapshot().agentSpeaking).toBe(true);
+
+    meters.get('agent-A')!.level = 0;
+    vi.advanceTimersByTime(500);
+    expect(session.getSnapshot().agentSpeaking).toBe(false);
+    expect(speaking).toEqual([true, false]);
+  });
+
+  it('releases every meter and the cloned microphone track on disconnect', async () => {
+    vi.useFakeTimers();
+    const { meters, createMeter } = fakeMeters();
+    const clone = { id: 'mic-clone', stop: vi.fn() };
+    room.micTrack.mediaStreamTrack.clone = () => clone;
+    const session = newSession({ createMeter });
+    await session.start();
+    const agent = new FakeParticipant('agent-A');
+    room.join(agent);
+    room.subscribeAudio(agent);
+
+    room.emit(RoomEvent.Disconnected, DisconnectReason.SIGNAL_CLOSE);
+
+    expect(meters.get('mic-clone')!.dispose).toHaveBeenCalled();
+    expect(meters.get('agent-A')!.dispose).toHaveBeenCalled();
+    expect(clone.stop).toHaveBeenCalled();
+    expect(room.micTrack.off).toHaveBeenCalled();
+    expect(session.getLevels()).toEqual({ user: 0, agent: 0 });
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('shows the connection health and posts a call summary on hang-up', async () => {
+    vi.useFakeTimers();
+    const session = newSession();
+    await session.start();
+    const agent = new FakeParticipant('agent-A');
+    room.join(agent);
+    room.subscribeAudio(agent);
+
+    room.emit(RoomEvent.ConnectionQualityChanged, 'poor', room.localParticipant);
+    room.emit(RoomEvent.ConnectionQualityChanged, 'excellent', agent);
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(session.getSnapshot().connectionHealth).toEqual({ quality: 'poor', rttMs: 120, jitterMs: 3, packetLossPct: null });
+
+    room.emit(RoomEvent.Reconnecting);
+    room.emit(RoomEvent.Reconnected);
+    await session.end();
+
+    expect(sendTelemetry).toHaveBeenCalledTimes(1);
+    expect(sendTelemetry).toHaveBeenCalledWith('token', expect.objectContaining({
+      room_name: 'momo-room-1',
+      end_reason: 'hangup',
+      time_to_agent_join_ms: expect.any(Number),
+      time_to_first_agent_audio_ms: expect.any(Number),
+      reconnects: 1,
+      rtt_ms: { avg: 120, max: 120 },
+      stats_samples: 1,
+      input_mode: 'open_mic',
+    }));
+    expect(session.getSnapshot().connectionHealth.quality).toBe('unknown');
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('counts down the end of a limited call, asks the agent to wrap up and hangs up at the limit', async () => {
+    vi.useFakeTimers();
+    vi.mocked(createRoom).mockResolvedValueOnce({
+      room_name: 'momo-room-1',
+      token: 'token',
+      livekit_url: 'ws://localhost:7880',
+      user_id: 'user-1',
+      session_limits: { ends_in_seconds: 5, wrap_up_seconds: 3 },
+    });
+    const session = newSession({ textChat: true });
+    await session.start();
+    expect(session.getSnapshot().sessionSecondsLeft).toBeNull();
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(session.getSnapshot().sessionSecondsLeft).toBe(3);
+    const sent = (room.localParticipant.publishData.mock.calls as unknown as [Uint8Array][])
+      .map(([payload]) => decodeMessage(payload))
+      .filter((message) => message.type === 'wrap_up');
+    expect(sent).toEqual([{ type: 'wrap_up', seconds_left: 3, v: 1 }]);
+
+    await vi.advanceTimersByTimeAsync(3000);
+    const snapshot = session.getSnapshot();
+    expect(snapshot.state).toBe('ended');
+    expect(snapshot.timeLimitReached).toBe(true);
+    expect(snapshot.sessionSecondsLeft).toBeNull();
+    expect(endRoom).toHaveBeenCalledWith('momo-room-1', 'token');
+    expect(sendTelemetry).toHaveBeenCalledWith('token', expect.objectContaining({ end_reason: 'time_limit' }));
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('does not offer to resume a room the server ended at the limit', async () => {
+    vi.useFakeTimers();
+    vi.mocked(createRoom).mockResolvedValueOnce({
+      room_name: 'momo-room-1',
+      token: 'token',
+      livekit_url: 'ws://localhost:7880',
+      user_id: 'user-1',
+      session_limits: { ends_in_seconds: 2, wrap_up_seconds: 60 },
+    });
+    const session = newSession();
+    await session.start();
+
+    room.emit(RoomEvent.Disconnected, DisconnectReason.ROOM_DELETED);
+
+    expect(session.getSnapshot().timeLimitReached).toBe(true);
+    expect(session.getSnapshot().resumable).toBeNull();
+    expect(clearSession).toHaveBeenCalled();
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('does not post a summary when the room was never created', async () => {
+    vi.mocked(createRoom).mockRejectedValueOnce(new ApiError('Too many', 429, 'RATE_LIMITED'));
+    const session = newSession();
+
+    await session.start();
+
+    expect(sendTelemetry).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,1389 @@
+// src/lib/voiceSession.ts
+// Framework-agnostic voice session: room lifecycle, agent presence, transcript and mute state.
+// VoiceChat renders it through useVoiceSession; other UIs can subscribe to its events directly.
+
+import { DisconnectReason, Room, RoomEvent, Track, TrackEvent } from 'livekit-client';
+import type {
+  LocalAudioTrack,
+  LocalTrack,
+  Participant,
+  RemoteAudioTrack,
+  RemoteParticipant,
+  RemoteTrack,
+  TranscriptionSegment,
+} from 'livekit-client';
+import {
+  createRoom,
+  endRoom,
+  redispatchAgent,
+  rejoinRoom,
+  sendTelemetry,
+  uploadTranscript,
+  type SessionLimits,
+  type TranscriptSegmentUpload,
+} from './api';
+import { clearSession, loadSession, saveSession, type SavedSession } from './session';
+import { addSystemEntry, entryId, lastAgentEntry, markInterrupted, upsertSegment, type TranscriptEntry } from './transcript';
+import { createConversation, finishConversation, getConversation, saveConversation, type ConversationRecord } from './history';
+import {
+  DEFAULT_WATCHDOG_OPTIONS,
+  isAgentParticipant,
+  isSupervisorAgent,
+  nextAgentPresence,
+  pickPrimaryAgent,
+  watchdogTimeout,
+  type AgentPresence,
+  type AgentPresenceEvent,
+  type AgentWatchdogOptions,
+} from './agentPresence';
+import { DomAudioOutput, type AgentAudioOutput } from './agentAudio';
+import { SILENT_LEVELS, createAnalyserMeter, type AudioLevels, type CreateLevelMeter, type LevelMeter } from './audioLevels';
+import {
+  checkMicrophone,
+  listAudioDevices,
+  loadDevicePreferences,
+  saveDevicePreferences,
+  type AudioDeviceKind,
+  type AudioDevicePreferences,
+} from './audioDevices';
+import {
+  CallTelemetry,
+  UNKNOWN_HEALTH,
+  toStatsSample,
+  type CallEndReason,
+  type ConnectionHealth,
+  type RawAudioStats,
+} from './telemetry';
+import { DEFAULT_VAD_OPTIONS, INITIAL_VAD_STATE, isMicOpen, nextVadState, type VadOptions, type VadState } from './inputMode';
+import { t } from './i18n';
+import { createLogger } from './logger';
+import { DATA_TOPIC, ProtocolError, decodeMessage, encodeMessage, type InputMode, type UserTextMessage } from './protocol';
+
+export type SessionState =
+  | 'idle'          // nothing started yet
+  | 'creating-room' // asking the API for a room and token
+  | 'connecting'    // joining the LiveKit room
+  | 'waiting-agent' // in the room, but the agent is not (or no longer) audible
+  | 'live'          // agent audio is subscribed - the call is usable
+  | 'reconnecting'  // livekit-client is restoring a dropped connection
+  | 'ended'         // hung up, or the connection dropped for good
+  | 'failed';       // creating or joining the room failed, see snapshot.error
+
+export type SessionEvent =
+  | { type: 'start' }
+  | { type: 'room_created' }
+  | { type: 'connected'; agentReady: boolean }
+  | { type: 'agent_ready' }
+  | { type: 'agent_lost' }
+  | { type: 'reconnecting' }
+  | { type: 'reconnected'; agentReady: boolean }
+  | { type: 'disconnected' }
+  | { type: 'failed' };
+
+// States in which the user is in the room and the call UI is shown
+export function isInCall(state: SessionState) {
+  return state === 'waiting-agent' || state === 'live' || state === 'reconnecting';
+}
+
+export function nextSessionState(state: SessionState, event: SessionEvent): SessionState {
+  switch (event.type) {
+    case 'start':
+      return state === 'idle' || state === 'ended' || state === 'failed' ? 'creating-room' : state;
+    case 'room_created':
+      return state === 'creating-room' ? 'connecting' : state;
+    case 'connected':
+      if (state !== 'connecting') return state;
+      return event.agentReady ? 'live' : 'waiting-agent';
+    case 'agent_ready':
+      return state === 'waiting-agent' ? 'live' : state;
+    case 'agent_lost':
+      return state === 'live' ? 'waiting-agent' : state;
+    case 'reconnecting':
+      return state === 'waiting-agent' || state === 'live' ? 'reconnecting' : state;
+    case 'reconnected':
+      if (state !== 'reconnecting') return state;
+      return event.agentReady ? 'live' : 'waiting-agent';
+    case 'disconnected':
+      return state === 'connecting' || isInCall(state) ? 'ended' : state;
+    case 'failed':
+      return state === 'idle' || state === 'ended' ? state : 'failed';
+  }
+}
+
+export interface VoiceSessionOptions {
+  // Overrides for how long to wait for the agent before re-dispatching / giving up
+  watchdog?: Partial<AgentWatchdogOptions>;
+  // Play and show supervisor agents (participant attribute role=supervisor) alongside the primary agent
+  allowSupervisor?: boolean;
+  // Request data publishing for text chat in the room token. Interrupting the agent and telling it the input
+  // mode or a new language go over the same data channel, so they are unavailable without it.
+  textChat?: boolean;
+  // Identity passed to /api/rooms/create; a random display name and server-generated id otherwise
+  userId?: string;
+  userName?: string;
+  // Session JWT issued by the host app, identifying the user to /api/rooms/create
+  sessionToken?: string;
+  // Captcha / proof-of-work hook for anonymous users, called before each new room
+  getChallengeToken?: () => Promise<string | undefined>;
+  agentProfile?: string;
+  // Language the agent should speak (BCP 47, e.g. vi-VN), sent with the room and on every change
+  locale?: string;
+  entryPage?: string;
+  // Barge-in: interrupt the agent automatically as soon as the user is heard speaking over it
+  autoInterrupt?: boolean;
+  // Overrides for the energy threshold and hangover of the 'vad' input mode
+  vad?: Partial<VadOptions>;
+  // Where agent audio is played; defaults to hidden <audio> elements in the page
+  audioOutput?: AgentAudioOutput;
+  // Energy meter for the user and agent tracks; defaults to a Web Audio AnalyserNode
+  createMeter?: CreateLevelMeter;
+  // Lets tests substitute the LiveKit room
+  roomFactory?: () => Room;
+}
+
+export interface VoiceSessionSnapshot {
+  state: SessionState;
+  agentPresence: AgentPresence;
+  agentSpeaking: boolean;
+  messages: TranscriptEntry[];
+  // Microphone paused by the user
+  micMuted: boolean;
+  inputMode: InputMode;
+  // Push-to-talk button or key is held
+  talking: boolean;
+  // Whether the published microphone track is live right now (mode, push-to-talk, VAD and pause combined)
+  micOpen: boolean;
+  agentMuted: boolean;
+  // Microphone and speaker picked by the user, remembered across visits
+  audioDevices: AudioDevicePreferences;
+  // LiveKit's connection quality for the user plus the latest RTT / jitter / packet loss, while in a call
+  connectionHealth: ConnectionHealth;
+  // Text-only sessions never turn the microphone on and start with agent audio muted
+  textOnly: boolean;
+  // Countdown to the call's duration limit, only set during the final wrap-up window
+  sessionSecondsLeft: number | null;
+  // The last call was ended by its duration limit
+  timeLimitReached: boolean;
+  error: Error | null;
+  // Room saved from a previous page load or dropped connection that can still be rejoined
+  resumable: SavedSession | null;
+}
+
+export interface VoiceSessionEvents {
+  change: (snapshot: VoiceSessionSnapshot) => void;
+  stateChanged: (state: SessionState, previous: SessionState) => void;
+  agentPresenceChanged: (presence: AgentPresence) => void;
+  agentSpeakingChanged: (speaking: boolean) => void;
+  transcriptChanged: (messages: TranscriptEntry[]) => void;
+  muteChanged: (mute: { micMuted: boolean; agentMuted: boolean }) => void;
+  micOpenChanged: (open: boolean) => void;
+  // The user cut the agent off; auto is true for barge-in
+  interrupted: (auto: boolean) => void;
+  // Every LEVEL_SAMPLE_MS while in a call; kept out of the snapshot so it does not re-render everything
+  levels: (levels: AudioLevels) => void;
+  error: (error: Error) => void;
+}
+
+const log = createLogger('session');
+
+// How often the meters are read. A timer rather than requestAnimationFrame, so VAD keeps working in a background tab.
+const LEVEL_SAMPLE_MS = 50;
+
+// Agent energy above which it counts as speaking, with a hangover that bridges pauses between words
+const AGENT_VOICE_OPTIONS: VadOptions = { threshold: 0.02, hangoverMs: 400 };
+
+// How often WebRTC stats are read for the health indicator and the call summary
+const STATS_SAMPLE_MS = 5000;
+
+const SESSION_LIMIT_TICK_MS = 1000;
+
+type Listeners = { [E in keyof VoiceSessionEvents]?: Set<VoiceSessionEvents[E]> };
+
+export class VoiceSession {
+  private options: VoiceSessionOptions;
+  private audio: AgentAudioOutput;
+  private snapshot: VoiceSessionSnapshot;
+  private listeners: Listeners = {};
+  // The room this session is using; events from a room that was already dropped are ignored
+  private room: Room | null = null;
+  private roomName: string | null = null;
+  // LiveKit token of the current room, also used to authenticate transcript uploads and re-dispatch
+  private roomToken: string | null = null;
+  // Conversation being recorded to local history
+  private conversation: ConversationRecord | null = null;
+  // Track the primary agent to avoid duplicate audio from multiple agents
+  private primaryAgent: string | null = null;
+  private watchdogTimer: ReturnType<typeof setTimeout> | null = null;
+  private autoRedispatchCount = 0;
+  private vad: VadState = INITIAL_VAD_STATE;
+  // Agent audio stays silenced after an interrupt until the agent has actually stopped talking
+  private interrupted = false;
+  private interruptedEntryId: string | null = null;
+  // Meter on a clone of the published microphone track: the clone keeps measuring while the gate mutes
+  // the original, which VAD needs to notice the user starting to speak
+  private userMeter: { meter: LevelMeter; clone: MediaStreamTrack; release: () => void } | null = null;
+  // Meters on the heard agents' tracks, by track sid
+  private agentMeters = new Map<string, LevelMeter>();
+  private agentVoice: VadState = INITIAL_VAD_STATE;
+  private levels: AudioLevels = SILENT_LEVELS;
+  private levelTimer: ReturnType<typeof setInterval> | null = null;
+  // Quality data of the current call, posted to /api/telemetry when it ends
+  private telemetry: CallTelemetry | null = null;
+  private micTrack: LocalAudioTrack | null = null;
+  private previousStats: RawAudioStats = {};
+  private statsTimer: ReturnType<typeof setInterval> | null = null;
+  private limitTimer: ReturnType<typeof setInterval> | null = null;
+  private wrapUpAnnounced = false;
+
+  constructor(options: VoiceSessionOptions = {}) {
+    this.options = options;
+    this.audio = options.audioOutput ?? new DomAudioOutput();
+    this.snapshot = {
+      state: 'idle',
+      agentPresence: 'waiting',
+      agentSpeaking: false,
+      messages: [],
+      micMuted: false,
+      inputMode: 'open_mic',
+      talking: false,
+      micOpen: false,
+      agentMuted: false,
+      audioDevices: loadDevicePreferences(),
+      connectionHealth: UNKNOWN_HEALTH,
+      textOnly: false,
+      sessionSecondsLeft: null,
+      timeLimitReached: false,
+      error: null,
+      resumable: loadSession(),
+    };
+  }
+
+  setOptions(options: VoiceSessionOptions) {
+    const localeChanged = options.locale !== this.options.locale;
+    this.options = options;
+    if (localeChanged) this.announceLanguage();
+  }
+
+  // The room was created with the old locale, so an agent already in the call is told directly
+  setLocale(locale: string) {
+    this.setOptions({ ...this.options, locale });
+  }
+
+  getSnapshot = () => this.snapshot;
+
+  // For useSyncExternalStore
+  subscribe = (onChange: () => void) => this.on('change', onChange);
+
+  on<E extends keyof VoiceSessionEvents>(event: E, listener: VoiceSessionEvents[E]): () => void {
+    const listeners: Set<VoiceSessionEvents[E]> = this.listeners[event] ?? new Set();
+    listeners.add(listener);
+    (this.listeners as Record<E, Set<VoiceSessionEvents[E]>>)[event] = listeners;
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  private emit<E extends keyof VoiceSessionEvents>(event: E, ...args: Parameters<VoiceSessionEvents[E]>) {
+    this.listeners[event]?.forEach((listener) => {
+      (listener as (...params: Parameters<VoiceSessionEvents[E]>) => void)(...args);
+    });
+  }
+
+  private update(patch: Partial<VoiceSessionSnapshot>) {
+    const previous = this.snapshot;
+    const next = { ...previous, ...patch };
+    this.snapshot = next;
+
+    if (next.state !== previous.state) {
+      log.info(`Session state: ${previous.state} → ${next.state}`);
+      this.emit('stateChanged', next.state, previous.state);
+    }
+    if (next.agentPresence !== previous.agentPresence) this.emit('agentPresenceChanged', next.agentPresence);
+    if (next.agentSpeaking !== previous.agentSpeaking) this.emit('agentSpeakingChanged', next.agentSpeaking);
+    if (next.messages !== previous.messages) this.emit('transcriptChanged', next.messages);
+    if (next.micMuted !== previous.micMuted || next.agentMuted !== previous.agentMuted) {
+      this.emit('muteChanged', { micMuted: next.micMuted, agentMuted: next.agentMuted });
+    }
+    if (next.micOpen !== previous.micOpen) this.emit('micOpenChanged', next.micOpen);
+    if (next.error && next.error !== previous.error) this.emit('error', next.error);
+    this.emit('change', next);
+  }
+
+  private dispatch(event: SessionEvent) {
+    this.update({ state: nextSessionState(this.snapshot.state, event) });
+  }
+
+  private get watchdogOptions(): AgentWatchdogOptions {
+    return { ...DEFAULT_WATCHDOG_OPTIONS, ...this.options.watchdog };
+  }
+
+  // Only the primary agent is heard, plus supervisors when the embedding page opts in
+  private isHeard(participant: Participant) {
+    return participant.identity === this.primaryAgent || (!!this.options.allowSupervisor && isSupervisorAgent(participant));
+  }
+
+  private clearWatchdog() {
+    if (this.watchdogTimer) {
+      clearTimeout(this.watchdogTimer);
+      this.watchdogTimer = null;
+    }
+  }
+
+  private armWatchdog(state: AgentPresence) {
+    this.clearWatchdog();
+    const timeout = watchdogTimeout(state, this.watchdogOptions);
+    if (timeout !== null) {
+      this.watchdogTimer = setTimeout(() => this.onWatchdogTimeout(), timeout);
+    }
+  }
+
+  private updateAgentPresence(event: AgentPresenceEvent) {
+    const previous = this.snapshot.agentPresence;
+    const next = nextAgentPresence(previous, event);
+    if (next === previous) return;
+
+    log.info(`Agent presence: ${previous} → ${next}`);
+    if (next === 'joined' || next === 'audio') this.telemetry?.markAgentJoined(Date.now());
+    if (next === 'audio') this.telemetry?.markAgentAudio(Date.now());
+    this.update({
+      agentPresence: next,
+      state: nextSessionState(this.snapshot.state, { type: next === 'audio' ? 'agent_ready' : 'agent_lost' }),
+    });
+    this.armWatchdog(next);
+  }
+
+  private async requestRedispatch() {
+    const roomName = this.roomName;
+    const token = this.roomToken;
+    if (!roomName || !token) return;
+
+    try {
+      const dispatchStatus = await redispatchAgent(roomName, token);
+      log.info('Re-dispatch result', dispatchStatus);
+    } catch (err) {
+      log.warn('Agent re-dispatch failed', err);
+    }
+  }
+
+  private onWatchdogTimeout() {
+    this.watchdogTimer = null;
+
+    if (this.autoRedispatchCount < this.watchdogOptions.maxAutoRedispatch) {
+      this.autoRedispatchCount++;
+      log.warn('Agent did not show up in time, re-dispatching automatically', {
+        presence: this.snapshot.agentPresence,
+        attempt: this.autoRedispatchCount,
+      });
+      this.requestRedispatch();
+      this.armWatchdog(this.snapshot.agentPresence);
+      return;
+    }
+
+    this.updateAgentPresence({ type: 'timeout' });
+  }
+
+  // Manual retry once the watchdog has given up on the agent
+  retryAgent() {
+    this.autoRedispatchCount = 0;
+    this.updateAgentPresence({ type: 'retry' });
+    this.requestRedispatch();
+  }
+
+  private updateMessages(change: (messages: TranscriptEntry[]) => TranscriptEntry[]) {
+    const messages = change(this.snapshot.messages);
+    if (messages === this.snapshot.messages) return;
+    this.update({ messages });
+
+    // Keep the stored conversation in sync with the transcript while a call is active
+    const conversation = this.conversation;
+    if (conversation && messages.length > 0) {
+      this.persistConversation({
+        ...conversation,
+        agent_identity: this.primaryAgent ?? conversation.agent_identity,
+        messages,
+      });
+    }
+  }
+
+  // Starts a new conversation, ending the resumable room first if there is one
+  start() {
+    if (nextSessionState(this.snapshot.state, { type: 'start' }) !== 'creating-room') return Promise.resolve();
+
+    // Don't leave the previous agent waiting in a room nobody will rejoin
+    const { resumable } = this.snapshot;
+    if (resumable) {
+      endRoom(resumable.room_name, resumable.token).catch((err) => {
+        log.warn('Failed to end previous room', err);
+      });
+      clearSession();
+    }
+    return this.connect();
+  }
+
+  // Rejoins the room saved from a previous page load or dropped connection
+  resume() {
+    const { resumable } = this.snapshot;
+    if (!resumable || nextSessionState(this.snapshot.state, { type: 'start' }) !== 'creating-room') {
+      return Promise.resolve();
+    }
+    return this.connect(resumable);
+  }
+
+  setTextOnly(textOnly: boolean) {
+    this.update({ textOnly });
+  }
+
+  private async connect(resume?: SavedSession) {
+    const { textOnly } = this.snapshot;
+    // Reset primary agent on new connection
+    this.primaryAgent = null;
+    this.clearWatchdog();
+    this.autoRedispatchCount = 0;
+    this.interrupted = false;
+    this.interruptedEntryId = null;
+    // Cleared so a failure before the new room exists is not reported against the previous one
+    this.roomName = null;
+    this.roomToken = null;
+    this.telemetry = new CallTelemetry(Date.now());
+    this.clearSessionLimit();
+    this.audio.setMuted(textOnly);
+    this.update({
+      state: nextSessionState(this.snapshot.state, { type: 'start' }),
+      error: null,
+      agentPresence: 'waiting',
+      agentSpeaking: false,
+      messages: [],
+      micMuted: false,
+      talking: false,
+      micOpen: false,
+      agentMuted: textOnly,
+      connectionHealth: UNKNOWN_HEALTH,
+      sessionSecondsLeft: null,
+      timeLimitReached: false,
+    });
+    this.vad = INITIAL_VAD_STATE;
+
+    try {
+      // Permission problems and missing microphones are reported before a room is created for nothing
+      if (!textOnly) {
+        await checkMicrophone(this.snapshot.audioDevices.audioinput);
+      }
+
+      const userName = resume?.user_name ?? this.options.userName ?? `User-${Date.now()}`;
+      const credentials = resume
+        ? await rejoinRoom(resume.room_name, resume.token, userName)
+        : await createRoom(userName, this.options.userId, {
+          agentProfile: this.options.agentProfile,
+          locale: this.options.locale,
+          entryPage: this.options.entryPage,
+          textChat: this.options.textChat,
+          sessionToken: this.options.sessionToken,
+          challengeToken: this.options.sessionToken ? undefined : await this.options.getChallengeToken?.(),
+        });
+
+      saveSession({
+        room_name: credentials.room_name,
+        user_id: credentials.user_id,
+        user_name: userName,
+        token: credentials.token,
+      });
+      this.roomToken = credentials.token;
+      this.roomName = credentials.room_name;
+      this.startSessionLimit(credentials.session_limits);
+
+      // Resuming the same room continues its stored conversation instead of starting a new record
+      const previous = resume
+        ? await getConversation(credentials.room_name).catch(() => null)
+        : null;
+      this.conversation = previous
+        ? { ...previous, ended_at: null }
+        : createConversation(credentials.room_name);
+      this.update({ resumable: null });
+      if (previous) {
+        this.updateMessages(() => previous.messages);
+      }
+      this.dispatch({ type: 'room_created' });
+
+      const { audioinput, audiooutput } = this.snapshot.audioDevices;
+      const room = this.options.roomFactory?.() ?? new Room({
+        adaptiveStream: true,
+        dynacast: true,
+        audioCaptureDefaults: { deviceId: audioinput },
+        audioOutput: { deviceId: audiooutput },
+      });
+      this.room = room;
+      this.bindRoomEvents(room);
+
+      log.info('Connecting to LiveKit', { url: credentials.livekit_url, roomName: credentials.room_name });
+
+      await room.connect(credentials.livekit_url, credentials.token);
+
+      if (textOnly) {
+        log.info('Room connected in text-only mode, microphone stays off');
+      } else {
+        log.info('Room connected, enabling microphone');
+        // Publish the track (and get the permission prompt out of the way) even when the input mode
+        // starts closed; the gate mutes it right after
+        await room.localParticipant.setMicrophoneEnabled(true);
+        this.update({ micOpen: true });
+        await this.applyMicGate();
+
+        log.debug('Microphone enabled', {
+          identity: room.localParticipant.identity,
+          audioTracks: room.localParticipant.audioTrackPublications.size,
+          inputMode: this.snapshot.inputMode,
+        });
+      }
+      this.announceInputMode();
+
+      // Log remote participants after connection
+      log.debug('Remote participants after connect', room.remoteParticipants.size);
+      room.remoteParticipants.forEach((p, sid) => {
+        log.debug('Remote participant', {
+          identity: p.identity,
+          sid: sid,
+          audioTracks: p.audioTrackPublications.size,
+          tracks: Array.from(p.trackPublications.values()).map(t => ({
+            kind: t.kind,
+            isSubscribed: t.isSubscribed,
+            isMuted: t.isMuted,
+          })),
+        });
+      });
+    } catch (err) {
+      log.error('Connection error', err);
+      const room = this.room;
+      this.room = null;
+      this.clearWatchdog();
+      this.clearSessionLimit();
+      this.audio.clear();
+      this.releaseMeters();
+      this.finishTelemetry('failed');
+      room?.disconnect();
+
+      this.update({
+        state: nextSessionState(this.snapshot.state, { type: 'failed' }),
+        error: err instanceof Error ? err : new Error(String(err)),
+        sessionSecondsLeft: null,
+      });
+
+      // The saved room is gone or no longer ours - fall back to starting over
+      if (resume) {
+        clearSession();
+        this.update({ resumable: null });
+      }
+    }
+  }
+
+  // Every agent gets a data listener so a standby agent can take over without re-subscribing;
+  // messages are filtered when they arrive.
+  private setupParticipantDataListener(participant: RemoteParticipant) {
+    // Set this as primary agent if not already set
+    if (!this.primaryAgent && isAgentParticipant(participant) && !isSupervisorAgent(participant)) {
+      this.primaryAgent = participant.identity;
+      log.info('Set primary agent', participant.identity);
+      this.updateAgentPresence({ type: 'agent_joined' });
+    }
+
+    log.debug('Setting up data listener', participant.identity);
+    participant.on('dataReceived', (payload: Uint8Array) => {
+      // Only process data from the agents the user hears to avoid duplicates
+      if (!this.isHeard(participant)) {
+        log.debug('Ignoring data from non-primary agent', participant.identity);
+        return;
+      }
+
+      try {
+        const message = decodeMessage(payload);
+        log.debug(`Data received from ${participant.identity}`, message);
+
+        switch (message.type) {
+          case 'bot_message':
+          case 'user_transcript': {
+            // Older agents send bot_message without segment ids - treat each as its own final segment
+            const id = message.segment_id ?? crypto.randomUUID();
+            const speaker = message.type === 'user_transcript' ? 'user' : 'agent';
+            if (speaker === 'agent') {
+              this.onAgentSegment(entryId(speaker, id));
+            }
+            this.updateMessages(prev => upsertSegment(prev, {
+              id,
+              speaker,
+              text: message.text,
+              final: message.final ?? true,
+            }));
+            break;
+          }
+          case 'unknown':
+            log.debug('Ignoring unsupported message type', { type: message.original_type, v: message.v });
+            break;
+        }
+      } catch (error) {
+        if (error instanceof ProtocolError) {
+          log.warn(`Dropping malformed data message: ${error.message}`, error.payload);
+        } else {
+          log.error('Error handling data message', error);
+        }
+      }
+    });
+  }
+
+  private bindRoomEvents(room: Room) {
+    room.on(RoomEvent.Connected, () => {
+      log.info('Connected to room');
+      log.debug('Room state', {
+        name: room.name,
+        state: room.state,
+        numParticipants: room.numParticipants,
+        localParticipant: room.localParticipant?.identity,
+      });
+
+      // Setup listeners for already-connected participants (e.g., agent)
+      log.debug('Remote participants count', room.remoteParticipants.size);
+
+      // First, find and set the primary agent (first non-supervisor agent found)
+      const primary = pickPrimaryAgent(room.remoteParticipants.values());
+      if (primary && !this.primaryAgent) {
+        this.primaryAgent = primary;
+        log.info('Set primary agent on connect', primary);
+        this.updateAgentPresence({ type: 'agent_joined' });
+      }
+
+      room.remoteParticipants.forEach(participant => {
+        log.debug('Found existing participant', {
+          identity: participant.identity,
+          isPrimaryAgent: participant.identity === this.primaryAgent,
+          audioTracks: participant.audioTrackPublications.size,
+          videoTracks: participant.videoTrackPublications.size,
+          trackPublications: Array.from(participant.trackPublications.values()).map(t => ({
+            kind: t.kind,
+            trackSid: t.trackSid,
+            isSubscribed: t.isSubscribed,
+            isMuted: t.isMuted,
+          })),
+        });
+        this.setupParticipantDataListener(participant);
+      });
+
+      this.telemetry?.markConnected(Date.now());
+      this.startStatsSampling(room);
+      this.dispatch({ type: 'connected', agentReady: this.snapshot.agentPresence === 'audio' });
+      // Start waiting for the agent only once we are in the room ourselves
+      this.armWatchdog(this.snapshot.agentPresence);
+    });
+
+    room.on(RoomEvent.Disconnected, (reason) => {
+      log.info('Disconnected from room', { reason });
+      // Hang-ups and failed connects clean up after themselves
+      if (room !== this.room) return;
+
+      // The server ends the room at the duration limit, possibly a moment before our own countdown does
+      const timeLimitReached = reason === DisconnectReason.ROOM_DELETED && this.snapshot.sessionSecondsLeft !== null;
+      this.room = null;
+      this.clearWatchdog();
+      this.clearSessionLimit();
+      this.audio.clear();
+      this.releaseMeters();
+      this.finishTelemetry(timeLimitReached ? 'time_limit' : 'disconnected');
+      this.endConversation();
+      if (timeLimitReached) clearSession();
+      this.update({
+        state: nextSessionState(this.snapshot.state, { type: 'disconnected' }),
+        agentSpeaking: false,
+        sessionSecondsLeft: null,
+        timeLimitReached,
+        // livekit-client gave up reconnecting on its own - offer to resume the same room
+        resumable: timeLimitReached
+          ? null
+          : reason !== DisconnectReason.CLIENT_INITIATED ? loadSession() : this.snapshot.resumable,
+      });
+    });
+
+    room.on(RoomEvent.Reconnecting, () => {
+      log.warn('Connection lost, reconnecting');
+      this.telemetry?.reconnecting(Date.now());
+      this.dispatch({ type: 'reconnecting' });
+    });
+
+    room.on(RoomEvent.Reconnected, () => {
+      log.info('Reconnected to room');
+      this.telemetry?.reconnected(Date.now());
+      this.dispatch({ type: 'reconnected', agentReady: this.snapshot.agentPresence === 'audio' });
+    });
+
+    room.on(RoomEvent.ParticipantConnected, (participant) => {
+      log.debug('Participant joined', {
+        identity: participant.identity,
+        sid: participant.sid,
+        audioTracks: participant.audioTrackPublications.size,
+        metadata: participant.metadata,
+      });
+      this.setupParticipantDataListener(participant);
+      // Agents joining later (re-dispatch, standby) have not seen the earlier announcement
+      if (isAgentParticipant(participant)) {
+        this.announceInputMode([participant.identity]);
+        this.announceLanguage([participant.identity]);
+        this.announceWrapUp([participant.identity]);
+      }
+    });
+
+    room.on(RoomEvent.ParticipantDisconnected, (participant) => {
+      log.info('Participant left', participant.identity);
+      if (participant.identity !== this.primaryAgent) return;
+
+      this.setAgentSpeaking(false);
+      // Hand the conversation to a standby agent if one is already in the room
+      const next = pickPrimaryAgent(room.remoteParticipants.values(), participant.identity);
+      this.primaryAgent = next;
+      if (!next) {
+        // Let the next agent that joins become primary
+        this.updateAgentPresence({ type: 'agent_left' });
+        return;
+      }
+
+      log.info('Primary agent left, promoting', { from: participant.identity, to: next });
+      this.updateMessages(prev => addSystemEntry(prev, t('call.agentHandoff')));
+      this.updateAgentPresence({ type: 'agent_joined' });
+
+      const nextParticipant = room.remoteParticipants.get(next);
+      nextParticipant?.audioTrackPublications.forEach((publication) => {
+        if (publication.track) {
+          this.audio.attach(publication.track, nextParticipant);
+          this.meterAgentTrack(publication.track);
+          this.updateAgentPresence({ type: 'audio_subscribed' });
+        }
+      });
+    });
+
+    // Add more detailed event listeners for debugging
+    room.on(RoomEvent.TrackPublished, (publication, participant) => {
+      log.debug('Track published', {
+        participantIdentity: participant.identity,
+        trackKind: publication.kind,
+        trackSid: publication.trackSid,
+        trackName: publication.trackName,
+        isSubscribed: publication.isSubscribed,
+        isMuted: publication.isMuted,
+      });
+    });
+
+    room.on(RoomEvent.ActiveSpeakersChanged, (speakers) => {
+      log.debug('Active speakers changed', speakers.map(s => ({
+        identity: s.identity,
+        isSpeaking: s.isSpeaking,
+        audioLevel: s.audioLevel,
+      })));
+      // Only consider heard agents as speaking
+      const agentIsSpeaking = speakers.some(s =>
+        s.identity !== room.localParticipant.identity && this.isHeard(s)
+      );
+      const userIsSpeaking = speakers.some(s => s.identity === room.localParticipant.identity);
+      // snapshot.agentSpeaking is already false while an earlier interrupt is pending
+      if (this.options.autoInterrupt && userIsSpeaking && this.snapshot.agentSpeaking && this.interrupt(true)) {
+        return;
+      }
+      // With a meter on the agent track, its energy decides (see sampleLevels)
+      if (this.agentMeters.size === 0) {
+        this.setAgentSpeaking(agentIsSpeaking);
+      }
+    });
+
+    room.on(RoomEvent.TrackSubscribed, (track, publication, participant) => {
+      log.debug('Track subscribed', {
+        participantIdentity: participant.identity,
+        trackKind: track.kind,
+        trackSid: track.sid,
+        trackSource: track.source,
+        isPrimaryAgent: participant.identity === this.primaryAgent,
+        mediaStreamTrack: track.mediaStreamTrack ? {
+          enabled: track.mediaStreamTrack.enabled,
+          muted: track.mediaStreamTrack.muted,
+          readyState: track.mediaStreamTrack.readyState,
+        } : null,
+        publicationState: {
+          isSubscribed: publication.isSubscribed,
+          isMuted: publication.isMuted,
+          isEnabled: publication.isEnabled,
+          trackName: publication.trackName,
+        },
+      });
+
+      if (track.kind !== Track.Kind.Audio) return;
+
+      // Set primary agent if not set yet
+      if (!this.primaryAgent && isAgentParticipant(participant) && !isSupervisorAgent(participant)) {
+        this.primaryAgent = participant.identity;
+        log.info('Set primary agent from audio track', participant.identity);
+      }
+      if (participant.identity === this.primaryAgent) {
+        this.updateAgentPresence({ type: 'audio_subscribed' });
+      }
+
+      // Only setup audio for heard agents to avoid duplicate voices; standby agents are attached on promotion
+      if (!this.isHeard(participant)) {
+        log.debug('Skipping audio setup for non-primary agent', participant.identity);
+        return;
+      }
+
+      this.audio.attach(track, participant);
+      this.meterAgentTrack(track);
+    });
+
+    // ✅ Cleanup audio elements when track unsubscribed
+    room.on(RoomEvent.TrackUnsubscribed, (track) => {
+      if (track.kind === Track.Kind.Audio) {
+        this.audio.detach(track);
+        this.releaseAgentMeter(track);
+      }
+    });
+
+    room.on(RoomEvent.LocalTrackPublished, (publication) => {
+      if (publication.source === Track.Source.Microphone && publication.track) {
+        this.micTrack = publication.audioTrack ?? null;
+        this.meterUserTrack(publication.track);
+      }
+    });
+
+    // Only the user's own connection; the agent runs in a data center
+    room.on(RoomEvent.ConnectionQualityChanged, (quality, participant) => {
+      if (participant !== room.localParticipant) return;
+
+      log.info('Connection quality', quality);
+      this.telemetry?.setQuality(quality, Date.now());
+      this.update({ connectionHealth: { ...this.snapshot.connectionHealth, quality } });
+    });
+
+    // Mute events are only a fallback for agentSpeaking when the agent audio cannot be metered;
+    // the user's own mute (pause, push-to-talk, VAD) says nothing about the agent
+    room.on(RoomEvent.TrackMuted, (publication, participant) => {
+      if (publication.kind === Track.Kind.Audio && participant !== room.localParticipant) {
+        this.setAgentSpeaking(false);
+      }
+    });
+
+    room.on(RoomEvent.TrackUnmuted, (publication, participant) => {
+      if (publication.kind === Track.Kind.Audio && participant !== room.localParticipant) {
+        log.debug('Track unmuted', { trackSid: publication.trackSid, kind: publication.kind });
+        if (this.agentMeters.size === 0) this.setAgentSpeaking(true);
+      }
+    });
+
+    // Agents using LiveKit's native transcription publish segments for both sides of the conversation
+    room.on(RoomEvent.TranscriptionReceived, (segments: TranscriptionSegment[], participant?: Participant) => {
+      if (!participant) return;
+
+      const isLocal = participant.identity === room.localParticipant.identity;
+      if (!isLocal && !this.isHeard(participant)) {
+        log.debug('Ignoring transcription from non-primary agent', participant.identity);
+        return;
+      }
+
+      if (!isLocal) {
+        segments.forEach((segment) => this.onAgentSegment(entryId('agent', segment.id)));
+      }
+      this.updateMessages(prev => segments.reduce((entries, segment) => upsertSegment(entries, {
+        id: segment.id,
+        speaker: isLocal ? 'user' : 'agent',
+        text: segment.text,
+        final: segment.final,
+      }), prev));
+    });
+
+    // Add Data Received at Room level
+    room.on(RoomEvent.DataReceived, (payload, participant) => {
+      log.debug('Room data received', {
+        from: participant?.identity || 'unknown',
+        payloadSize: payload.byteLength,
+      });
+    });
+
+    // Track subscription failed
+    // Headset plugged in or out
+    room.on(RoomEvent.MediaDevicesChanged, () => {
+      this.syncAudioDevices(room).catch((err) => {
+        log.warn('Failed to follow audio device change', err);
+      });
+    });
+
+    room.on(RoomEvent.TrackSubscriptionFailed, (trackSid, participant, reason) => {
+      log.error('Track subscription failed', {
+        trackSid,
+        participantIdentity: participant?.identity,
+        reason,
+      });
+    });
+  }
+
+  private persistConversation(record: ConversationRecord) {
+    this.conversation = record;
+    saveConversation(record).catch((err) => {
+      log.warn('Failed to save conversation history', err);
+    });
+  }
+
+  private endConversation() {
+    const conversation = this.conversation;
+    if (conversation && conversation.messages.length > 0) {
+      this.persistConversation(finishConversation(conversation));
+      this.syncTranscript(conversation);
+    }
+  }
+
+  // Send the user's final segments to the server so the transcript is available beyond this browser.
+  // The agent uploads its own side with the agent key; the server rejects agent segments from participants.
+  private syncTranscript(conversation: ConversationRecord) {
+    const token = this.roomToken;
+    const segments: TranscriptSegmentUpload[] = [];
+    for (const entry of conversation.messages) {
+      if (!entry.final || entry.speaker !== 'user') continue;
+      segments.push({ segment_id: entry.id, speaker: entry.speaker, text: entry.text, final: true, time: entry.time });
+    }
+    if (!token || segments.length === 0) return;
+
+    // Server accepts at most 200 segments per request
+    for (let i = 0; i < segments.length; i += 200) {
+      uploadTranscript(conversation.room_name, token, segments.slice(i, i + 200)).catch((err) => {
+        log.warn('Failed to upload transcript', err);
+      });
+    }
+  }
+
+  async setMicMuted(muted: boolean) {
+    if (!this.room) return;
+
+    this.update({ micMuted: muted });
+    await this.applyMicGate();
+  }
+
+  setInputMode(inputMode: InputMode) {
+    if (inputMode === this.snapshot.inputMode) return;
+
+    log.info(`Input mode: ${this.snapshot.inputMode} → ${inputMode}`);
+    this.update({ inputMode, talking: false });
+    this.applyMicGate();
+    this.announceInputMode();
+  }
+
+  // Push-to-talk: called when the talk button or key is pressed and released
+  setTalking(talking: boolean) {
+    if (talking === this.snapshot.talking) return;
+
+    this.update({ talking });
+    this.applyMicGate();
+  }
+
+  getLevels = () => this.levels;
+
+  subscribeLevels = (onChange: () => void) => this.on('levels', onChange);
+
+  // VAD: opens the gate on the user's microphone energy
+  private gateOnVoice(level: number, now: number) {
+    const next = nextVadState(this.vad, level, now, { ...DEFAULT_VAD_OPTIONS, ...this.options.vad });
+    const changed = next.speaking !== this.vad.speaking;
+    this.vad = next;
+    if (changed) {
+      this.applyMicGate();
+    }
+  }
+
+  private createMeter(track: MediaStreamTrack): LevelMeter | null {
+    try {
+      return (this.options.createMeter ?? createAnalyserMeter)(track);
+    } catch (err) {
+      // No Web Audio (old browser, tests): the UI shows no levels, agentSpeaking falls back to LiveKit's events
+      log.warn('Cannot meter audio track', err);
+      return null;
+    }
+  }
+
+  // Meters the track LiveKit already captured instead of opening the microphone a second time
+  private meterUserTrack(track: LocalTrack) {
+    this.releaseUserMeter();
+
+    const clone = track.mediaStreamTrack.clone();
+    const meter = this.createMeter(clone);
+    if (!meter) {
+      clone.stop();
+      return;
+    }
+    // Switching microphones replaces the underlying MediaStreamTrack
+    const onRestarted = () => this.meterUserTrack(track);
+    track.on(TrackEvent.Restarted, onRestarted);
+    this.userMeter = { meter, clone, release: () => track.off(TrackEvent.Restarted, onRestarted) };
+    this.startLevelSampling();
+  }
+
+  private meterAgentTrack(track: RemoteTrack) {
+    const sid = track.sid ?? '';
+    if (this.agentMeters.has(sid) || !track.mediaStreamTrack) return;
+
+    const meter = this.createMeter(track.mediaStreamTrack);
+    if (!meter) return;
+    this.agentMeters.set(sid, meter);
+    this.startLevelSampling();
+  }
+
+  private releaseAgentMeter(track: RemoteTrack) {
+    const sid = track.sid ?? '';
+    this.agentMeters.get(sid)?.dispose();
+    this.agentMeters.delete(sid);
+  }
+
+  private releaseUserMeter() {
+    if (!this.userMeter) return;
+
+    this.userMeter.release();
+    this.userMeter.meter.dispose();
+    this.userMeter.clone.stop();
+    this.userMeter = null;
+  }
+
+  // Stops every meter, the cloned microphone track and the sampling timer
+  private releaseMeters() {
+    this.releaseUserMeter();
+    this.agentMeters.forEach((meter) => meter.dispose());
+    this.agentMeters.clear();
+    if (this.levelTimer) {
+      clearInterval(this.levelTimer);
+      this.levelTimer = null;
+    }
+    this.agentVoice = INITIAL_VAD_STATE;
+    this.levels = SILENT_LEVELS;
+    this.emit('levels', this.levels);
+  }
+
+  private startLevelSampling() {
+    if (!this.levelTimer) {
+      this.levelTimer = setInterval(this.sampleLevels, LEVEL_SAMPLE_MS);
+    }
+  }
+
+  private sampleLevels = () => {
+    const now = Date.now();
+    let agent = 0;
+    this.agentMeters.forEach((meter) => {
+      agent = Math.max(agent, meter.getLevel());
+    });
+    this.levels = { user: this.userMeter?.meter.getLevel() ?? 0, agent };
+    this.emit('levels', this.levels);
+
+    if (this.snapshot.inputMode === 'vad') {
+      this.gateOnVoice(this.levels.user, now);
+    }
+
+    if (this.agentMeters.size > 0) {
+      this.agentVoice = nextVadState(this.agentVoice, agent, now, AGENT_VOICE_OPTIONS);
+      // While interrupted agentSpeaking reads false, but the agent is still heard as speaking until it stops
+      if (this.agentVoice.speaking !== (this.snapshot.agentSpeaking || this.interrupted)) {
+        this.setAgentSpeaking(this.agentVoice.speaking);
+      }
+    }
+  };
+
+  private startStatsSampling(room: Room) {
+    this.stopStatsSampling();
+    this.statsTimer = setInterval(() => {
+      this.sampleStats(room).catch((err) => {
+        log.warn('Failed to read connection stats', err);
+      });
+    }, STATS_SAMPLE_MS);
+  }
+
+  private stopStatsSampling() {
+    if (this.statsTimer) {
+      clearInterval(this.statsTimer);
+      this.statsTimer = null;
+    }
+    this.micTrack = null;
+    this.previousStats = {};
+  }
+
+  // RTT and upstream loss from the published microphone, jitter and downstream loss from the primary agent
+  private async sampleStats(room: Room) {
+    const agent = this.primaryAgent ? room.remoteParticipants.get(this.primaryAgent) : undefined;
+    // RemoteTrackPublication does not narrow audioTrack to the remote kind
+    const agentTrack = agent && Array.from(agent.audioTrackPublications.values())
+      .find((publication) => publication.audioTrack)?.audioTrack as RemoteAudioTrack | undefined;
+    const current: RawAudioStats = {
+      sender: await this.micTrack?.getSenderStats(),
+      receiver: await agentTrack?.getReceiverStats(),
+    };
+    if (room !== this.room || (!current.sender && !current.receiver)) return;
+
+    const sample = toStatsSample(current, this.previousStats);
+    this.previousStats = current;
+    this.telemetry?.addSample(sample);
+    this.update({ connectionHealth: { ...this.snapshot.connectionHealth, ...sample } });
+  }
+
+  // Posts the call summary; best effort, a lost summary only leaves a gap in the dashboards
+  private finishTelemetry(reason: CallEndReason) {
+    this.stopStatsSampling();
+    const telemetry = this.telemetry;
+    this.telemetry = null;
+    this.update({ connectionHealth: UNKNOWN_HEALTH });
+
+    const roomName = this.roomName;
+    const token = this.roomToken;
+    // Nothing to attribute the summary to when the room was never created
+    if (!telemetry || !roomName || !token) return;
+
+    const summary = telemetry.summary(roomName, Date.now(), reason, {
+      inputMode: this.snapshot.textOnly ? null : this.snapshot.inputMode,
+      textOnly: this.snapshot.textOnly,
+    });
+    log.info('Call summary', summary);
+    sendTelemetry(token, summary).catch((err) => {
+      log.warn('Failed to send call telemetry', err);
+    });
+  }
+
+  // Opens or closes the published microphone track to match the input mode
+  private async applyMicGate() {
+    const room = this.room;
+    if (!room || this.snapshot.textOnly) return;
+
+    const { inputMode, micMuted, talking } = this.snapshot;
+    const open = isMicOpen(inputMode, { paused: micMuted, talking, voiceActive: this.vad.speaking });
+    if (open === this.snapshot.micOpen) return;
+
+    this.update({ micOpen: open });
+    try {
+      await room.localParticipant.setMicrophoneEnabled(open);
+    } catch (err) {
+      log.warn('Failed to switch microphone', err);
+    }
+  }
+
+  // Tells the agent how the user talks, so it can adjust its turn-taking. Needs the text chat (data) grant.
+  private announceInputMode(destinationIdentities?: string[]) {
+    const room = this.room;
+    if (!room || !this.options.textChat) return;
+
+    const message = encodeMessage({ type: 'set_input_mode', mode: this.snapshot.inputMode });
+    room.localParticipant.publishData(message, { reliable: true, topic: DATA_TOPIC, destinationIdentities })
+      .catch((err) => {
+        log.warn('Failed to send input mode to agent', err);
+      });
+  }
+
+  // Asks the agent to switch language mid-call. Like the input mode, this needs the text chat (data) grant;
+  // without it the agent keeps the locale of the room's dispatch metadata.
+  private announceLanguage(destinationIdentities?: string[]) {
+    const room = this.room;
+    const language = this.options.locale;
+    if (!room || !language || !this.options.textChat) return;
+
+    const message = encodeMessage({ type: 'set_language', language });
+    room.localParticipant.publishData(message, { reliable: true, topic: DATA_TOPIC, destinationIdentities })
+      .catch((err) => {
+        log.warn('Failed to send language to agent', err);
+      });
+  }
+
+  // Asks the agent to close the conversation once the wrap-up window is open. Sent from here so it doesn't
+  // depend on how often /api/rooms/expire runs; needs the text chat (data) grant like the other announcements.
+  private announceWrapUp(destinationIdentities?: string[]) {
+    const room = this.room;
+    const secondsLeft = this.snapshot.sessionSecondsLeft;
+    if (!room || room.state !== 'connected' || secondsLeft === null || !this.options.textChat) return false;
+
+    const message = encodeMessage({ type: 'wrap_up', seconds_left: secondsLeft });
+    room.localParticipant.publishData(message, { reliable: true, topic: DATA_TOPIC, destinationIdentities })
+      .catch((err) => {
+        log.warn('Failed to send wrap-up to agent', err);
+      });
+    return true;
+  }
+
+  // Switches the microphone or speaker, live when in a call, and remembers the choice
+  async setAudioDevice(kind: AudioDeviceKind, deviceId: string) {
+    const audioDevices = { ...this.snapshot.audioDevices, [kind]: deviceId };
+    saveDevicePreferences(audioDevices);
+    this.update({ audioDevices });
+
+    if (!this.room) return;
+    try {
+      await this.room.switchActiveDevice(kind, deviceId);
+      log.info(`Switched ${kind}`, deviceId);
+    } catch (err) {
+      log.warn(`Failed to switch ${kind}`, err);
+    }
+  }
+
+  // Falls back to the default device when the chosen one is unplugged, and goes back to it when it returns
+  private async syncAudioDevices(room: Room) {
+    for (const kind of ['audioinput', 'audiooutput'] as const) {
+      const preferred = this.snapshot.audioDevices[kind];
+      if (!preferred) continue;
+
+      const devices = await listAudioDevices(kind);
+      const target = devices.some((device) => device.deviceId === preferred) ? preferred : 'default';
+      if (room.getActiveDevice(kind) !== target) {
+        log.info(`Audio device change, ${kind} → ${target}`);
+        await room.switchActiveDevice(kind, target);
+      }
+    }
+  }
+
+  setAgentMuted(muted: boolean) {
+    this.audio.setMuted(muted || this.interrupted);
+    this.update({ agentMuted: muted });
+  }
+
+  // Cuts the agent off: silences its audio right away, marks its current segment as interrupted and asks it
+  // to stop. Returns false when the agent was not speaking, or without the text chat data grant: the agent
+  // could not be told, and muting it locally would only lose the rest of its answer.
+  interrupt(auto = false) {
+    const room = this.room;
+    if (!room || !this.options.textChat || !this.snapshot.agentSpeaking) return false;
+
+    log.info(auto ? 'Interrupting agent (barge-in)' : 'Interrupting agent');
+    this.interrupted = true;
+    this.audio.setMuted(true);
+
+    const entry = lastAgentEntry(this.snapshot.messages);
+    this.interruptedEntryId = entry?.id ?? null;
+    if (entry) {
+      this.updateMessages(prev => markInterrupted(prev, entry.id));
+    }
+    this.update({ agentSpeaking: false });
+    this.emit('interrupted', auto);
+
+    room.localParticipant.publishData(encodeMessage({ type: 'interrupt' }), { reliable: true, topic: DATA_TOPIC })
+      .catch((err) => {
+        log.warn('Failed to send interrupt to agent', err);
+      });
+    return true;
+  }
+
+  // While interrupted the agent is reported silent, even if its audio is still arriving
+  private setAgentSpeaking(speaking: boolean) {
+    if (!speaking) {
+      this.releaseInterrupt();
+    }
+    this.update({ agentSpeaking: speaking && !this.interrupted });
+  }
+
+  // A new agent segment after an interrupt is the next answer, which should be heard
+  private onAgentSegment(id: string) {
+    if (this.interrupted && id !== this.interruptedEntryId) {
+      this.releaseInterrupt();
+    }
+  }
+
+  private releaseInterrupt() {
+    if (!this.interrupted) return;
+
+    log.info('Agent stopped after interrupt, restoring audio');
+    this.interrupted = false;
+    this.interruptedEntryId = null;
+    this.audio.setMuted(this.snapshot.agentMuted);
+  }
+
+  // Sends a typed message to the agent; returns false (and drops it from the transcript) when it could not be sent
+  async sendText(text: string): Promise<boolean> {
+    const room = this.room;
+    if (!room || !text) return false;
+
+    const message: UserTextMessage = { type: 'user_text', text, message_id: crypto.randomUUID() };
+    this.updateMessages(prev => upsertSegment(prev, { id: message.message_id, speaker: 'user', text, final: true }));
+
+    try {
+      await room.localParticipant.publishData(encodeMessage(message), { reliable: true, topic: DATA_TOPIC });
+      log.debug('Sent text message to agent', message.message_id);
+      return true;
+    } catch (err) {
+      log.error('Failed to send text message', err);
+      this.updateMessages(prev => prev.filter((entry) => entry.id !== entryId('user', message.message_id)));
+      return false;
+    }
+  }
+
+  // Counts down the last wrap_up_seconds of a call that has a duration limit, tells the agent when the
+  // countdown starts, then hangs up. Only /api/rooms/expire ends the room on the server, and only as often as
+  // it is scheduled (see the README); this is the client's own side of the limit.
+  private startSessionLimit(limits: SessionLimits | undefined) {
+    this.clearSessionLimit();
+    this.wrapUpAnnounced = false;
+    if (!limits || limits.ends_in_seconds === null) return;
+
+    const endsAt = Date.now() + limits.ends_in_seconds * 1000;
+    const tick = () => {
+      const left = Math.max(0, Math.ceil((endsAt - Date.now()) / 1000));
+      if (left <= limits.wrap_up_seconds && left !== this.snapshot.sessionSecondsLeft) {
+        this.update({ sessionSecondsLeft: left });
+      }
+      // Retried every tick until the room is connected
+      if (left > 0 && left <= limits.wrap_up_seconds && !this.wrapUpAnnounced) {
+        this.wrapUpAnnounced = this.announceWrapUp();
+      }
+      if (left === 0) {
+        log.info('Call reached its duration limit');
+        this.clearSessionLimit();
+        this.hangUp('time_limit');
+      }
+    };
+    this.limitTimer = setInterval(tick, SESSION_LIMIT_TICK_MS);
+    tick();
+  }
+
+  private clearSessionLimit() {
+    if (this.limitTimer) {
+      clearInterval(this.limitTimer);
+      this.limitTimer = null;
+    }
+  }
+
+  // Hangs up and closes the room for good
+  end() {
+    return this.hangUp('hangup');
+  }
+
+  private async hangUp(reason: 'hangup' | 'time_limit') {
+    const room = this.room;
+    if (!room) return;
+
+    this.room = null;
+    await room.disconnect();
+
+    // Tear the room down right away instead of waiting for emptyTimeout
+    const roomName = this.roomName ?? room.name;
+    if (this.roomToken) {
+      endRoom(roomName, this.roomToken).catch((err) => {
+        log.warn('Failed to end room, it will close after emptyTimeout', err);
+      });
+    }
+    clearSession();
+    this.clearWatchdog();
+    this.clearSessionLimit();
+    this.audio.clear();
+    this.releaseMeters();
+    this.finishTelemetry(reason);
+    this.endConversation();
+    this.conversation = null;
+
+    this.update({
+      state: nextSessionState(this.snapshot.state, { type: 'disconnected' }),
+      agentSpeaking: false,
+      messages: [],
+      micMuted: false,
+      talking: false,
+      micOpen: false,
+      sessionSecondsLeft: null,
+      timeLimitReached: reason === 'time_limit',
+      resumable: null,
+    });
+  }
+
+  // Leaves the room without ending it (e.g. the UI unmounts), so a reload can still resume it
+  dispose() {
+    this.clearWatchdog();
+    this.clearSessionLimit();
+    this.releaseMeters();
+    this.stopStatsSampling();
+    if (this.room && this.room.state === 'connected') {
+      this.room.disconnect();
+    }
+  }
+}
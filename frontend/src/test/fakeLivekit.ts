@@ -0,0 +1,138 @@
+import { vi } from 'vitest';
+
+// Minimal stand-ins for livekit-client's Room and participants, shared by the session and component tests.
+// Event names are spelled out so the module can be loaded from inside a vi.mock('livekit-client') factory.
+
+type Listener = (...args: unknown[]) => void;
+
+// DisconnectReason.CLIENT_INITIATED
+const CLIENT_INITIATED = 1;
+
+class Emitter {
+  private listeners = new Map<string, Listener[]>();
+  on(event: string, listener: Listener) {
+    this.listeners.set(event, [...(this.listeners.get(event) ?? []), listener]);
+    return this;
+  }
+  emit(event: string, ...args: unknown[]) {
+    this.listeners.get(event)?.forEach((listener) => listener(...args));
+  }
+}
+
+export class FakeTrack {
+  kind = 'audio';
+  sid: string;
+  source = 'microphone';
+  mediaStreamTrack: { id: string };
+  elements: HTMLMediaElement[] = [];
+  constructor(sid: string, mediaStreamTrackId: string) {
+    this.sid = sid;
+    this.mediaStreamTrack = { id: mediaStreamTrackId };
+  }
+  attach() {
+    const element = document.createElement('audio');
+    this.elements.push(element);
+    return element;
+  }
+  detach() {
+    const detached = this.elements;
+    this.elements = [];
+    return detached;
+  }
+}
+
+export class FakeParticipant extends Emitter {
+  identity: string;
+  attributes: Record<string, string>;
+  sid: string;
+  metadata = '';
+  audioTrackPublications = new Map<string, { track: FakeTrack }>();
+  videoTrackPublications = new Map();
+  trackPublications = new Map();
+  constructor(identity: string, attributes: Record<string, string> = {}) {
+    super();
+    this.identity = identity;
+    this.attributes = attributes;
+    this.sid = `PA_${identity}`;
+  }
+}
+
+export class FakeRoom extends Emitter {
+  name = 'momo-room-1';
+  state = 'disconnected';
+  numParticipants = 0;
+  remoteParticipants = new Map<string, FakeParticipant>();
+  // Whether connect() reports the connection itself; otherwise the test emits 'connected' when it wants to
+  autoConnect = false;
+  activeDevices = new Map<string, string>();
+  switchActiveDevice = vi.fn(async (kind: string, deviceId: string) => {
+    this.activeDevices.set(kind, deviceId);
+    return true;
+  });
+  micTrack = {
+    mediaStreamTrack: { clone: () => ({ id: 'mic-clone', stop: vi.fn() }) },
+    on: vi.fn(),
+    off: vi.fn(),
+    getSenderStats: vi.fn(async () => ({ type: 'audio', timestamp: 0, roundTripTime: 0.12, jitter: 0.003 })),
+  };
+  micPublished = false;
+  localParticipant = {
+    identity: 'user-1',
+    audioTrackPublications: new Map(),
+    // Like livekit-client, the first enable publishes the microphone track
+    setMicrophoneEnabled: vi.fn(async (enabled: boolean) => {
+      if (enabled && !this.micPublished) {
+        this.micPublished = true;
+        this.emit('localTrackPublished', { source: 'microphone', track: this.micTrack, audioTrack: this.micTrack });
+      }
+    }),
+    publishData: vi.fn(async () => undefined),
+  };
+  subscribed: { track: FakeTrack; participant: FakeParticipant }[] = [];
+
+  constructor() {
+    super();
+    fakeRooms.push(this);
+  }
+
+  async connect() {
+    this.state = 'connected';
+    if (this.autoConnect) {
+      this.emit('connected');
+    }
+  }
+
+  async disconnect() {
+    // Like livekit-client, unsubscribe every remote track before reporting the disconnect
+    this.subscribed.forEach(({ track, participant }) => this.emit('trackUnsubscribed', track, {}, participant));
+    this.subscribed = [];
+    this.state = 'disconnected';
+    this.emit('disconnected', CLIENT_INITIATED);
+  }
+
+  getActiveDevice(kind: string) {
+    return this.activeDevices.get(kind);
+  }
+
+  // Seats a participant that was already in the room when the session connected
+  addParticipant(participant: FakeParticipant) {
+    this.remoteParticipants.set(participant.identity, participant);
+  }
+
+  join(participant: FakeParticipant) {
+    this.addParticipant(participant);
+    this.emit('participantConnected', participant);
+  }
+
+  // The meter id of the track is the participant's identity
+  subscribeAudio(participant: FakeParticipant) {
+    const track = new FakeTrack(`TR_${participant.identity}`, participant.identity);
+    participant.audioTrackPublications.set(track.sid, { track });
+    this.subscribed.push({ track, participant });
+    this.emit('trackSubscribed', track, { isSubscribed: true, isMuted: false }, participant);
+    return track;
+  }
+}
+
+// Every room constructed so far, for tests where the component creates its own
+export const fakeRooms: FakeRoom[] = [];
@@ -0,0 +1,203 @@
+// src/widget/MogenieWidget.tsx
+// JS SDK behind window.Mogenie: a floating button and panel in a shadow root, running the voice session
+// either directly in the host page ('script') or in an iframe of embed.html ('iframe').
+
+import { createRoot, type Root } from 'react-dom/client';
+import VoiceChat from '../components/VoiceChat';
+import WidgetPanel from './WidgetPanel';
+import { VoiceSession, type SessionState } from '../lib/voiceSession';
+import { setApiBaseUrl } from '../lib/api';
+import { getLocale, setLanguage, t, type Language } from '../lib/i18n';
+import type { TranscriptEntry } from '../lib/transcript';
+import { readMessage, wrapMessage, type EmbedMessage, type HostMessage, type WidgetUser } from './messages';
+import appStyles from '../index.css?inline';
+import widgetStyles from './widget.css?inline';
+
+export type WidgetMode = 'script' | 'iframe';
+
+export interface WidgetOptions {
+  // Origin (and optional path) of the Mogenie deployment serving the API and embed.html
+  baseUrl: string;
+  // 'script' needs EMBED_ALLOWED_ORIGINS on the API; 'iframe' keeps every request on the Mogenie origin
+  mode?: WidgetMode;
+  // In 'iframe' mode only honoured when embed.html was built with this page in VITE_EMBED_ALLOWED_ORIGINS
+  user?: WidgetUser;
+  agentProfile?: string;
+  textChat?: boolean;
+  // UI and agent language; the user's own choice from the switcher otherwise
+  language?: Language;
+  onTranscript?: (messages: TranscriptEntry[]) => void;
+  onStatusChange?: (state: SessionState) => void;
+}
+
+export class MogenieWidget {
+  private options: WidgetOptions;
+  private host: HTMLElement;
+  private root: Root;
+  private isOpen = false;
+  // Script mode: the session runs in this page
+  private session: VoiceSession | null = null;
+  // Iframe mode: the session runs in embed.html and is driven over postMessage
+  private frame: HTMLIFrameElement | null = null;
+  private frameOrigin: string;
+  private frameReady = false;
+  private pendingTexts = new Map<string, (sent: boolean) => void>();
+  private cleanups: (() => void)[] = [];
+
+  constructor(options: WidgetOptions) {
+    this.options = options;
+    this.frameOrigin = new URL(options.baseUrl).origin;
+    if (options.language) setLanguage(options.language);
+
+    this.host = document.createElement('div');
+    this.host.id = 'mogenie-widget';
+    const shadow = this.host.attachShadow({ mode: 'open' });
+    const style = document.createElement('style');
+    style.textContent = this.mode === 'script' ? appStyles + widgetStyles : widgetStyles;
+    const container = document.createElement('div');
+    shadow.append(style, container);
+    document.body.appendChild(this.host);
+    this.root = createRoot(container);
+
+    if (this.mode === 'script') {
+      this.setupSession();
+    } else {
+      this.setupFrameBridge();
+    }
+    this.render();
+  }
+
+  private get mode(): WidgetMode {
+    return this.options.mode ?? 'script';
+  }
+
+  private setupSession() {
+    const { user, agentProfile, textChat = true, onTranscript, onStatusChange } = this.options;
+    setApiBaseUrl(this.options.baseUrl);
+
+    const session = new VoiceSession({
+      userId: user?.id,
+      userName: user?.name,
+      sessionToken: user?.sessionToken,
+      agentProfile,
+      textChat,
+      locale: getLocale(),
+      entryPage: window.location.pathname,
+    });
+    this.cleanups.push(
+      session.on('stateChanged', (state) => onStatusChange?.(state)),
+      session.on('transcriptChanged', (messages) => onTranscript?.(messages)),
+    );
+    this.session = session;
+  }
+
+  private setupFrameBridge() {
+    const onMessage = (event: MessageEvent) => {
+      // Only trust our own iframe, loaded from the Mogenie origin
+      if (!this.frame || event.source !== this.frame.contentWindow || event.origin !== this.frameOrigin) return;
+
+      const message = readMessage<EmbedMessage>(event.data);
+      if (!message) return;
+
+      switch (message.type) {
+        case 'ready':
+          this.frameReady = true;
+          this.post({ type: 'init', user: this.options.user, agentProfile: this.options.agentProfile });
+          break;
+        case 'status':
+          this.options.onStatusChange?.(message.state);
+          break;
+        case 'transcript':
+          this.options.onTranscript?.(message.messages);
+          break;
+        case 'send_text_result':
+          this.pendingTexts.get(message.id)?.(message.sent);
+          this.pendingTexts.delete(message.id);
+          break;
+      }
+    };
+    window.addEventListener('message', onMessage);
+    this.cleanups.push(() => window.removeEventListener('message', onMessage));
+  }
+
+  private post(message: HostMessage) {
+    this.frame?.contentWindow?.postMessage(wrapMessage(message), this.frameOrigin);
+  }
+
+  // The iframe has its own storage, so the language is passed in the URL
+  private get embedUrl() {
+    const url = `${this.options.baseUrl.replace(/\/+$/, '')}/embed.html`;
+    return this.options.language ? `${url}?lang=${this.options.language}` : url;
+  }
+
+  private render() {
+    const content = this.session ? (
+      <VoiceChat session={this.session} textChat={this.options.textChat ?? true} />
+    ) : (
+      <iframe
+        ref={(frame) => {
+          this.frame = frame;
+        }}
+        src={this.embedUrl}
+        title={t('app.title')}
+        // Cross-origin iframes need explicit permission for the microphone and audio autoplay
+        allow="microphone; autoplay"
+      />
+    );
+
+    this.root.render(
+      <WidgetPanel open={this.isOpen} onOpen={() => this.open()} onClose={() => this.close()}>
+        {content}
+      </WidgetPanel>
+    );
+  }
+
+  open() {
+    this.isOpen = true;
+    this.render();
+  }
+
+  // Hides the panel and ends the current call
+  close() {
+    this.isOpen = false;
+    this.render();
+    if (this.session) {
+      this.session.end();
+    } else {
+      this.post({ type: 'end' });
+    }
+  }
+
+  mute(muted = true) {
+    if (this.session) {
+      this.session.setMicMuted(muted);
+    } else {
+      this.post({ type: 'mute', muted });
+    }
+  }
+
+  // Resolves to false when there is no active call to send the text to
+  sendText(text: string): Promise<boolean> {
+    if (this.session) {
+      return this.session.sendText(text);
+    }
+    if (!this.frameReady) {
+      return Promise.resolve(false);
+    }
+
+    const id = crypto.randomUUID();
+    return new Promise((resolve) => {
+      this.pendingTexts.set(id, resolve);
+      this.post({ type: 'send_text', id, text });
+    });
+  }
+
+  destroy() {
+    this.session?.end();
+    this.cleanups.forEach((cleanup) => cleanup());
+    this.pendingTexts.forEach((resolve) => resolve(false));
+    this.pendingTexts.clear();
+    this.root.unmount();
+    this.host.remove();
+  }
+}
@@ -0,0 +1,39 @@
+// src/widget/WidgetPanel.tsx
+import type { ReactNode } from 'react';
+import { useLanguage } from '../hooks/useLanguage';
+
+interface WidgetPanelProps {
+  open: boolean;
+  onOpen: () => void;
+  onClose: () => void;
+  // Stays mounted while the panel is closed so the call keeps running
+  children: ReactNode;
+}
+
+export default function WidgetPanel({ open, onOpen, onClose, children }: WidgetPanelProps) {
+  const { t } = useLanguage();
+  return (
+    <div className="mogenie-widget">
+      <div className={`mogenie-panel${open ? ' open' : ''}`} role="dialog" aria-label={t('app.title')} aria-hidden={!open}>
+        <div className="mogenie-panel-header">
+          <span>{t('app.title')}</span>
+          <button onClick={onClose} className="mogenie-panel-close" title={t('common.close')}>
+            <svg width="18" height="18" viewBox="0 0 24 24" fill="none">
+              <path d="M18 6L6 18M6 6l12 12" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
+            </svg>
+          </button>
+        </div>
+        <div className="mogenie-panel-body">{children}</div>
+      </div>
+
+      {!open && (
+        <button onClick={onOpen} className="mogenie-launcher" title={t('widget.launcher')}>
+          <svg width="28" height="28" viewBox="0 0 24 24" fill="none">
+            <rect x="9" y="3" width="6" height="11" rx="3" fill="currentColor"/>
+            <path d="M5 11a7 7 0 0014 0M12 18v3" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
+          </svg>
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { VoiceSession } from '../lib/voiceSession';
+import { wrapMessage, type HostMessage } from './messages';
+
+const HOST = 'https://shop.example.com';
+const USER = { id: 'u-123', name: 'Lan', sessionToken: 'host-jwt' };
+
+function fakeSession() {
+  return {
+    setOptions: vi.fn(),
+    getSnapshot: () => ({ state: 'idle' }),
+    on: vi.fn(),
+    setMicMuted: vi.fn(),
+  };
+}
+
+describe('connectEmbedBridge', () => {
+  let parent: Window;
+
+  // The bridge only listens when framed, so a second jsdom window plays the host page
+  const connect = async (allowedOrigins: string) => {
+    vi.stubEnv('VITE_EMBED_ALLOWED_ORIGINS', allowedOrigins);
+    vi.resetModules();
+    const { connectEmbedBridge } = await import('./embedBridge');
+    const session = fakeSession();
+    connectEmbedBridge(session as unknown as VoiceSession, { agentProfile: 'default' });
+    return session;
+  };
+
+  const send = (message: HostMessage, origin = HOST) => {
+    window.dispatchEvent(new MessageEvent('message', { data: wrapMessage(message), origin, source: parent }));
+  };
+
+  beforeEach(() => {
+    const frame = document.createElement('iframe');
+    document.body.appendChild(frame);
+    parent = frame.contentWindow!;
+    vi.spyOn(parent, 'postMessage').mockImplementation(() => {});
+    vi.spyOn(window, 'parent', 'get').mockReturnValue(parent);
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    document.body.innerHTML = '';
+  });
+
+  it('passes the user through from an allowed host', async () => {
+    const session = await connect(HOST);
+
+    send({ type: 'init', user: USER, agentProfile: 'support' });
+
+    expect(session.setOptions).toHaveBeenCalledWith({
+      agentProfile: 'support',
+      userId: 'u-123',
+      userName: 'Lan',
+      sessionToken: 'host-jwt',
+    });
+  });
+
+  it('ignores hosts outside the allowlist', async () => {
+    const session = await connect(HOST);
+
+    send({ type: 'init', user: USER }, 'https://evil.example.com');
+
+    expect(session.setOptions).not.toHaveBeenCalled();
+  });
+
+  it('drops the user identity when no allowlist is configured', async () => {
+    const session = await connect('');
+
+    send({ type: 'init', user: USER }, 'https://evil.example.com');
+    send({ type: 'mute', muted: true }, 'https://evil.example.com');
+
+    expect(session.setOptions).toHaveBeenCalledWith({
+      agentProfile: 'default',
+      userId: undefined,
+      userName: undefined,
+      sessionToken: undefined,
+    });
+    expect(session.setMicMuted).toHaveBeenCalledWith(true);
+  });
+});
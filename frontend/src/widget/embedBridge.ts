@@ -0,0 +1,81 @@
+// src/widget/embedBridge.ts
+// Iframe side of the postMessage protocol (see messages.ts): lets the host page drive the session in embed.html
+
+import type { VoiceSession, VoiceSessionOptions } from '../lib/voiceSession';
+import { readMessage, wrapMessage, type EmbedMessage, type HostMessage } from './messages';
+import { createLogger } from '../lib/logger';
+
+const log = createLogger('widget');
+
+// Allowlist of host pages that may drive the iframe (comma separated origins). When unset any page may drive
+// the call, but none may pass a user identity: a session token handed over by an unknown page can't be trusted
+const ALLOWED_HOST_ORIGINS: string[] = (import.meta.env.VITE_EMBED_ALLOWED_ORIGINS ?? '')
+  .split(',')
+  .map((origin: string) => origin.trim())
+  .filter(Boolean);
+
+export function connectEmbedBridge(session: VoiceSession, baseOptions: VoiceSessionOptions) {
+  // Opened directly instead of inside the widget
+  if (window.parent === window) return;
+
+  // Set by the first init message; everything after that must come from the same origin
+  let hostOrigin: string | null = null;
+
+  const post = (message: EmbedMessage) => {
+    if (hostOrigin) {
+      window.parent.postMessage(wrapMessage(message), hostOrigin);
+    }
+  };
+
+  window.addEventListener('message', (event) => {
+    if (event.source !== window.parent) return;
+
+    const message = readMessage<HostMessage>(event.data);
+    if (!message) return;
+
+    if (message.type === 'init') {
+      if (hostOrigin) return;
+      if (ALLOWED_HOST_ORIGINS.length > 0 && !ALLOWED_HOST_ORIGINS.includes(event.origin)) {
+        log.warn('Ignoring widget init from origin that is not allowed', { origin: event.origin });
+        return;
+      }
+
+      const user = ALLOWED_HOST_ORIGINS.length > 0 ? message.user : undefined;
+      if (message.user && !user) {
+        log.warn('Ignoring widget user without VITE_EMBED_ALLOWED_ORIGINS', { origin: event.origin });
+      }
+
+      hostOrigin = event.origin;
+      session.setOptions({
+        ...baseOptions,
+        userId: user?.id,
+        userName: user?.name,
+        sessionToken: user?.sessionToken,
+        agentProfile: message.agentProfile ?? baseOptions.agentProfile,
+      });
+      log.info('Widget host connected', { origin: hostOrigin });
+      post({ type: 'status', state: session.getSnapshot().state });
+      return;
+    }
+
+    if (event.origin !== hostOrigin) return;
+
+    switch (message.type) {
+      case 'mute':
+        session.setMicMuted(message.muted);
+        break;
+      case 'send_text':
+        session.sendText(message.text).then((sent) => post({ type: 'send_text_result', id: message.id, sent }));
+        break;
+      case 'end':
+        session.end();
+        break;
+    }
+  });
+
+  session.on('stateChanged', (state) => post({ type: 'status', state }));
+  session.on('transcriptChanged', (messages) => post({ type: 'transcript', messages }));
+
+  // Carries no data, so any origin may see it; the host answers with init
+  window.parent.postMessage(wrapMessage({ type: 'ready' }), '*');
+}
@@ -0,0 +1,18 @@
+// src/widget/index.ts
+// Entry of the widget library build (vite.widget.config.ts), exposed as window.Mogenie:
+//   <script src="https://<mogenie>/widget/mogenie-widget.js"></script>
+//   <script>const mogenie = Mogenie.init({ user: { id: 'u-1', name: 'Lan' } });</script>
+
+import { MogenieWidget, type WidgetOptions } from './MogenieWidget';
+
+// The deployment this script was loaded from also serves the API and embed.html
+const scriptOrigin = document.currentScript instanceof HTMLScriptElement
+  ? new URL(document.currentScript.src).origin
+  : window.location.origin;
+
+export function init(options: Partial<WidgetOptions> = {}) {
+  return new MogenieWidget({ baseUrl: scriptOrigin, ...options });
+}
+
+export type { MogenieWidget, WidgetOptions };
+export type { WidgetUser } from './messages';
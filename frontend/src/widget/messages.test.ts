@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { EMBED_PROTOCOL_VERSION, readMessage, wrapMessage, type HostMessage } from './messages';
+
+describe('embed messages', () => {
+  it('round-trips a wrapped message', () => {
+    const wrapped = wrapMessage<HostMessage>({ type: 'send_text', id: 'm1', text: 'Xin chào' });
+
+    expect(wrapped.mogenie).toBe(EMBED_PROTOCOL_VERSION);
+    expect(readMessage<HostMessage>(structuredClone(wrapped))).toEqual(wrapped);
+  });
+
+  it('ignores unrelated postMessage traffic', () => {
+    expect(readMessage('hello')).toBeNull();
+    expect(readMessage(null)).toBeNull();
+    expect(readMessage({ type: 'mute', muted: true })).toBeNull();
+    expect(readMessage({ mogenie: 2, type: 'mute', muted: true })).toBeNull();
+    expect(readMessage({ mogenie: EMBED_PROTOCOL_VERSION })).toBeNull();
+  });
+});
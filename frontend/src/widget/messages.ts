@@ -0,0 +1,43 @@
+// src/widget/messages.ts
+// postMessage protocol between the host page and the Mogenie iframe (embed.html). Documented in the README.
+
+import type { SessionState } from '../lib/voiceSession';
+import type { TranscriptEntry } from '../lib/transcript';
+
+export const EMBED_PROTOCOL_VERSION = 1;
+
+// Identity the host app already knows, passed through to /api/rooms/create
+export interface WidgetUser {
+  id?: string;
+  name?: string;
+  // Session JWT issued by the host app (see HOST_SESSION_SECRET)
+  sessionToken?: string;
+}
+
+// Host page → iframe
+export type HostMessage =
+  | { type: 'init'; user?: WidgetUser; agentProfile?: string }
+  | { type: 'mute'; muted: boolean }
+  | { type: 'send_text'; id: string; text: string }
+  | { type: 'end' };
+
+// Iframe → host page
+export type EmbedMessage =
+  | { type: 'ready' }
+  | { type: 'status'; state: SessionState }
+  | { type: 'transcript'; messages: TranscriptEntry[] }
+  // Answer to send_text with the same id
+  | { type: 'send_text_result'; id: string; sent: boolean };
+
+// Every message carries `mogenie: <version>` so unrelated postMessage traffic on the page is ignored
+export function wrapMessage<T extends HostMessage | EmbedMessage>(message: T) {
+  return { mogenie: EMBED_PROTOCOL_VERSION, ...message };
+}
+
+export function readMessage<T extends HostMessage | EmbedMessage>(data: unknown): T | null {
+  if (typeof data !== 'object' || data === null) return null;
+
+  const { mogenie, type } = data as { mogenie?: unknown; type?: unknown };
+  if (mogenie !== EMBED_PROTOCOL_VERSION || typeof type !== 'string') return null;
+  return data as T;
+}
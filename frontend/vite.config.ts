@@ -1,6 +1,39 @@
-import { defineConfig } from 'vite'
+/// <reference types="vitest/config" />
+import { fileURLToPath } from 'node:url'
+import { defineConfig, loadEnv, searchForWorkspaceRoot, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// Serves the serverless functions in ../api from the Vite dev server, so `npm run dev` works without `vercel dev`
+function apiDevServer(): Plugin {
+  return {
+    name: 'mogenie-api-dev-server',
+    // Not under Vitest, whose API tests set their own environment
+    apply: (_config, { command }) => command === 'serve' && !process.env.VITEST,
+    configureServer(server) {
+      // The API reads its configuration from process.env, like on Vercel; real env vars win over .env
+      const env = loadEnv(server.config.mode, server.config.envDir || process.cwd(), '')
+      for (const [key, value] of Object.entries(env)) {
+        process.env[key] ??= value
+      }
+      // No captcha locally; deployments set a challenge verifier or opt out of it themselves
+      process.env.ANONYMOUS_CHALLENGE ??= 'off'
+
+      const entry = fileURLToPath(new URL('../api/_lib/devServer.ts', import.meta.url))
+      server.middlewares.use((req, res, next) => {
+        if (!req.url?.startsWith('/api/')) return next()
+
+        // Loaded through Vite so edits to the API are picked up without restarting
+        server.ssrLoadModule(entry)
+          .then(({ handleApiRequest }) => handleApiRequest(req, res))
+          .then((handled: boolean) => {
+            if (!handled) next()
+          })
+          .catch(next)
+      })
+    },
+  }
+}
+
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [
@@ -9,5 +42,25 @@ export default defineConfig({
         plugins: [['babel-plugin-react-compiler']],
       },
     }),
+    apiDevServer(),
   ],
+  server: {
+    fs: {
+      // The data-channel protocol is shared with the API from ../shared
+      allow: [searchForWorkspaceRoot(process.cwd()), fileURLToPath(new URL('../shared', import.meta.url))],
+    },
+  },
+  build: {
+    rollupOptions: {
+      // embed.html is the page the widget loads in iframe mode
+      input: {
+        main: fileURLToPath(new URL('./index.html', import.meta.url)),
+        embed: fileURLToPath(new URL('./embed.html', import.meta.url)),
+      },
+    },
+  },
+  test: {
+    // The serverless functions in ../api and the code in ../shared have no package of their own to run tests from
+    include: ['src/**/*.test.{ts,tsx}', '../api/**/*.test.ts', '../shared/**/*.test.ts'],
+  },
 })
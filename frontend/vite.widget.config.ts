@@ -0,0 +1,30 @@
+import { defineConfig } from 'vite'
+import react from '@vitejs/plugin-react'
+
+// Library build of the embeddable widget: a single self-contained script exposing window.Mogenie,
+// written next to the app build so it is served from /widget/mogenie-widget.js
+export default defineConfig({
+  plugins: [
+    react({
+      babel: {
+        plugins: [['babel-plugin-react-compiler']],
+      },
+    }),
+  ],
+  // public/ is already copied by the app build
+  publicDir: false,
+  // Library mode leaves process.env references in React alone
+  define: {
+    'process.env.NODE_ENV': JSON.stringify('production'),
+  },
+  build: {
+    outDir: 'dist/widget',
+    emptyOutDir: true,
+    lib: {
+      entry: 'src/widget/index.ts',
+      name: 'Mogenie',
+      formats: ['iife'],
+      fileName: () => 'mogenie-widget.js',
+    },
+  },
+})
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import {
+  PROTOCOL_VERSION,
+  ProtocolError,
+  decodeMessage,
+  encodeMessage,
+  isProtocolMessage,
+} from './protocol';
+
+const encodeRaw = (value: unknown) => new TextEncoder().encode(JSON.stringify(value));
+
+describe('encodeMessage / decodeMessage', () => {
+  it('round-trips Vietnamese UTF-8 text', () => {
+    const text = 'Dạ, Túi Thần Tài là sản phẩm tiết kiệm của MoMo ạ 💰';
+    const decoded = decodeMessage(encodeMessage({ type: 'bot_message', text, segment_id: 'seg-1', final: true }));
+
+    expect(decoded).toEqual({ v: PROTOCOL_VERSION, type: 'bot_message', text, segment_id: 'seg-1', final: true });
+  });
+
+  it('round-trips client messages', () => {
+    const decoded = decodeMessage(encodeMessage({ type: 'user_text', text: 'Lãi suất hôm nay?', message_id: 'm-1' }));
+
+    expect(decoded).toEqual({ v: PROTOCOL_VERSION, type: 'user_text', text: 'Lãi suất hôm nay?', message_id: 'm-1' });
+    expect(decodeMessage(encodeMessage({ type: 'interrupt' }))).toEqual({ v: PROTOCOL_VERSION, type: 'interrupt' });
+  });
+
+  it('treats unversioned payloads from older agents as version 1', () => {
+    const decoded = decodeMessage(encodeRaw({ type: 'bot_message', text: 'Xin chào', timestamp: '[2026-01-25 16:30:45]' }));
+
+    expect(decoded).toEqual({ v: 1, type: 'bot_message', text: 'Xin chào' });
+  });
+});
+
+describe('decodeMessage errors', () => {
+  it('rejects a payload truncated in the middle of a multi-byte character', () => {
+    const payload = encodeMessage({ type: 'bot_message', text: 'Tiết kiệm' });
+    // "ệ" is 3 bytes in UTF-8; cutting inside it leaves an invalid sequence
+    const cut = new TextEncoder().encode('{"v":1,"type":"bot_message","text":"Ti').length + 2;
+
+    expect(() => decodeMessage(payload.slice(0, cut))).toThrow(ProtocolError);
+  });
+
+  it('rejects truncated JSON', () => {
+    const payload = encodeMessage({ type: 'bot_message', text: 'Xin chào' });
+
+    expect(() => decodeMessage(payload.slice(0, payload.length - 3))).toThrow('Payload is not valid JSON');
+  });
+
+  it('rejects non-object payloads and missing types', () => {
+    expect(() => decodeMessage(encodeRaw(['bot_message']))).toThrow('Payload is not a JSON object');
+    expect(() => decodeMessage(encodeRaw({ text: 'Xin chào' }))).toThrow('Message has no type');
+  });
+
+  it('rejects malformed messages of the current version', () => {
+    expect(() => decodeMessage(encodeRaw({ v: 1, type: 'bot_message', text: 42 }))).toThrow('Malformed bot_message message');
+  });
+
+  it('rejects invalid versions', () => {
+    expect(() => decodeMessage(encodeRaw({ v: '2', type: 'bot_message', text: 'Xin chào' }))).toThrow(ProtocolError);
+    expect(() => decodeMessage(encodeRaw({ v: 0, type: 'bot_message', text: 'Xin chào' }))).toThrow(ProtocolError);
+  });
+});
+
+describe('future message versions', () => {
+  it('decodes known types from newer versions and drops unknown fields', () => {
+    const decoded = decodeMessage(encodeRaw({ v: 2, type: 'bot_message', text: 'Xin chào', emotion: 'happy' }));
+
+    expect(decoded).toEqual({ v: 2, type: 'bot_message', text: 'Xin chào' });
+  });
+
+  it('passes through known types that a newer version reshaped', () => {
+    const data = { v: 2, type: 'bot_message', content: { text: 'Xin chào' } };
+
+    expect(decodeMessage(encodeRaw(data))).toEqual({ v: 2, type: 'unknown', original_type: 'bot_message', data });
+  });
+
+  it('passes through unknown types', () => {
+    const data = { v: 3, type: 'agent_state', state: 'thinking' };
+
+    expect(decodeMessage(encodeRaw(data))).toEqual({ v: 3, type: 'unknown', original_type: 'agent_state', data });
+  });
+});
+
+describe('isProtocolMessage', () => {
+  it('validates message shapes', () => {
+    expect(isProtocolMessage({ type: 'set_language', language: 'vi' })).toBe(true);
+    expect(isProtocolMessage({ type: 'set_language' })).toBe(false);
+    expect(isProtocolMessage({ type: 'set_input_mode', mode: 'push_to_talk' })).toBe(true);
+    expect(isProtocolMessage({ type: 'set_input_mode', mode: 'always' })).toBe(false);
+    expect(isProtocolMessage({ type: 'wrap_up', seconds_left: 120 })).toBe(true);
+    expect(isProtocolMessage({ type: 'wrap_up', seconds_left: -1 })).toBe(false);
+    expect(isProtocolMessage({ type: 'user_transcript', text: 'Chào', final: 'yes' })).toBe(false);
+    expect(isProtocolMessage({ type: 'toString' })).toBe(false);
+    expect(isProtocolMessage(null)).toBe(false);
+  });
+});
@@ -0,0 +1,180 @@
+// shared/protocol.ts
+// Versioned data-channel protocol between the client and the agent, used by the frontend and the API (api/).
+// Kept free of browser, Node and livekit-client imports so both can bundle it.
+
+export const PROTOCOL_VERSION = 1;
+
+// Reliable topic used for messages the client publishes to the agent
+export const DATA_TOPIC = 'mogenie.chat';
+
+// Agent -> client
+
+export interface BotMessage {
+  type: 'bot_message';
+  text: string;
+  segment_id?: string;
+  final?: boolean;
+}
+
+export interface UserTranscriptMessage {
+  type: 'user_transcript';
+  text: string;
+  segment_id?: string;
+  final?: boolean;
+}
+
+// Client -> agent
+
+export interface UserTextMessage {
+  type: 'user_text';
+  text: string;
+  message_id: string;
+}
+
+export interface InterruptMessage {
+  type: 'interrupt';
+}
+
+export interface SetLanguageMessage {
+  type: 'set_language';
+  language: string;
+}
+
+// How the user's microphone is opened, so the agent can adapt its turn-taking (e.g. no barge-in
+// detection under push-to-talk, where releasing the key ends the turn)
+export type InputMode = 'open_mic' | 'push_to_talk' | 'vad';
+
+export const INPUT_MODES: readonly InputMode[] = ['open_mic', 'push_to_talk', 'vad'];
+
+export interface SetInputModeMessage {
+  type: 'set_input_mode';
+  mode: InputMode;
+}
+
+// Client or server -> agent (sent by the client when its countdown starts and by /api/rooms/expire)
+
+// The call is about to hit its duration limit; the agent should close the conversation politely
+export interface WrapUpMessage {
+  type: 'wrap_up';
+  seconds_left: number;
+}
+
+export type AgentMessage = BotMessage | UserTranscriptMessage;
+export type ClientMessage = UserTextMessage | InterruptMessage | SetLanguageMessage | SetInputModeMessage;
+export type ServerMessage = WrapUpMessage;
+export type ProtocolMessage = AgentMessage | ClientMessage | ServerMessage;
+export type MessageType = ProtocolMessage['type'];
+
+// Well-formed message of a type this build doesn't know about (e.g. sent by a newer agent)
+export interface UnknownMessage {
+  type: 'unknown';
+  original_type: string;
+  data: Record<string, unknown>;
+}
+
+export type DecodedMessage = (ProtocolMessage | UnknownMessage) & { v: number };
+
+export class ProtocolError extends Error {
+  readonly payload: string | null;
+
+  constructor(message: string, payload: string | null = null) {
+    super(message);
+    this.name = 'ProtocolError';
+    this.payload = payload;
+  }
+}
+
+type Fields = Record<string, unknown>;
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isOptionalString = (value: unknown) => value === undefined || isString(value);
+const isOptionalBoolean = (value: unknown) => value === undefined || typeof value === 'boolean';
+
+const validators: { [K in MessageType]: (fields: Fields) => boolean } = {
+  bot_message: (m) => isString(m.text) && isOptionalString(m.segment_id) && isOptionalBoolean(m.final),
+  user_transcript: (m) => isString(m.text) && isOptionalString(m.segment_id) && isOptionalBoolean(m.final),
+  user_text: (m) => isString(m.text) && isString(m.message_id),
+  interrupt: () => true,
+  set_language: (m) => isString(m.language),
+  set_input_mode: (m) => INPUT_MODES.includes(m.mode as InputMode),
+  wrap_up: (m) => typeof m.seconds_left === 'number' && m.seconds_left >= 0,
+};
+
+// Copies only the fields this version understands, so extra fields from newer senders don't leak through
+const pickers: { [K in MessageType]: (fields: Fields) => Extract<ProtocolMessage, { type: K }> } = {
+  bot_message: (m) => ({
+    type: 'bot_message',
+    text: m.text as string,
+    segment_id: m.segment_id as string | undefined,
+    final: m.final as boolean | undefined,
+  }),
+  user_transcript: (m) => ({
+    type: 'user_transcript',
+    text: m.text as string,
+    segment_id: m.segment_id as string | undefined,
+    final: m.final as boolean | undefined,
+  }),
+  user_text: (m) => ({ type: 'user_text', text: m.text as string, message_id: m.message_id as string }),
+  interrupt: () => ({ type: 'interrupt' }),
+  set_language: (m) => ({ type: 'set_language', language: m.language as string }),
+  set_input_mode: (m) => ({ type: 'set_input_mode', mode: m.mode as InputMode }),
+  wrap_up: (m) => ({ type: 'wrap_up', seconds_left: m.seconds_left as number }),
+};
+
+function isKnownType(type: string): type is MessageType {
+  return Object.prototype.hasOwnProperty.call(validators, type);
+}
+
+export function isProtocolMessage(value: unknown): value is ProtocolMessage {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const fields = value as Fields;
+  return isString(fields.type) && isKnownType(fields.type) && validators[fields.type](fields);
+}
+
+export function encodeMessage(message: ProtocolMessage): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify({ v: PROTOCOL_VERSION, ...message }));
+}
+
+export function decodeMessage(payload: Uint8Array): DecodedMessage {
+  let text: string;
+  try {
+    // fatal: a payload cut in the middle of a multi-byte character must not decode to U+FFFD silently
+    text = new TextDecoder('utf-8', { fatal: true }).decode(payload);
+  } catch {
+    throw new ProtocolError('Payload is not valid UTF-8');
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new ProtocolError('Payload is not valid JSON', text);
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new ProtocolError('Payload is not a JSON object', text);
+  }
+
+  const fields = parsed as Fields;
+  if (!isString(fields.type)) {
+    throw new ProtocolError('Message has no type', text);
+  }
+
+  // Messages without a version come from agents that predate versioning
+  const v = fields.v === undefined ? 1 : fields.v;
+  if (typeof v !== 'number' || !Number.isInteger(v) || v < 1) {
+    throw new ProtocolError(`Invalid protocol version: ${String(fields.v)}`, text);
+  }
+
+  const { type } = fields;
+  if (isKnownType(type) && validators[type](fields)) {
+    return { v, ...pickers[type](fields) };
+  }
+
+  // Newer versions may reshape known types - pass them through instead of failing
+  if (!isKnownType(type) || v > PROTOCOL_VERSION) {
+    return { v, type: 'unknown', original_type: type, data: fields };
+  }
+
+  throw new ProtocolError(`Malformed ${type} message`, text);
+}